@@ -1,32 +1,123 @@
-import { getFlowControl } from '../services/orchestrator/flowControl.js'
+import { getFlowControl, RoleCompletionError } from '../services/orchestrator/flowControl.js'
 import { MeetingStage } from '../services/orchestrator/stages.js'
+import { getFlowTemplateLoader } from '../services/orchestrator/flowTemplates.js'
 import { getMemoryManager } from '../services/memory/memoryManager.js'
 import { getMeetingSummarizer } from '../services/memory/meetingSummarizer.js'
+import { getMeetingRunRegistry, MeetingControlError } from '../services/meetings/runControl.js'
+import { getUserAnswerTimeout } from '../services/orchestrator/userQuestions.js'
+import { isProviderConfigured, ProviderFactory } from '../services/llm/providerFactory.js'
+import { getCassetteStore } from '../services/llm/cassette.js'
+
+function broadcastMeeting(meeting) {
+  if (global.broadcastToMeeting) {
+    global.broadcastToMeeting(meeting.id, {
+      type: 'MEETING_UPDATED',
+      meetingId: meeting.id,
+      meeting,
+    })
+  }
+}
+
+function markCancelled(meeting) {
+  const now = new Date().toISOString()
+  meeting.status = 'cancelled'
+  meeting.cancelledAt = now
+  meeting.messages.push({
+    id: `msg-${Date.now()}-cancelled`,
+    timestamp: now,
+    role: 'SYSTEM',
+    type: 'system',
+    content: '会议已被取消',
+  })
+}
 
 /**
- * Run a complete meeting
+ * Block a run on a question to the user until it is answered or times out
+ * The answer arrives through continueWithUserResponse.
  */
-export async function runMeeting(meeting, meetingsMap) {
+async function waitForUserAnswer(meeting, repository, control, question) {
+  meeting.status = 'awaiting_user'
+  await repository.save(meeting)
+  broadcastMeeting(meeting)
+
+  const answer = await control.waitForUserAnswer(getUserAnswerTimeout(meeting))
+  const now = new Date().toISOString()
+  if (answer === null) {
+    question.status = 'timed_out'
+    meeting.messages.push({
+      id: `msg-${Date.now()}-answer-timeout`,
+      timestamp: now,
+      role: 'SYSTEM',
+      type: 'system',
+      content: `未在时限内收到回答，会议继续：${question.question}`,
+    })
+  } else {
+    question.status = 'answered'
+    question.answer = answer
+    question.answeredAt = now
+  }
+
+  meeting.status = 'running'
+  await repository.save(meeting)
+  broadcastMeeting(meeting)
+}
+
+/**
+ * Run a complete meeting through its flow template
+ * `options.fromStage` resumes a paused meeting at its persisted step.
+ */
+export async function runMeeting(meeting, repository, options = {}) {
   const flowControl = getFlowControl()
   const memoryManager = getMemoryManager()
-  let currentStage = MeetingStage.ISSUE_BRIEF
+  const runs = getMeetingRunRegistry()
+  const control = runs.start(meeting.id)
+  let currentStage = options.fromStage
 
   try {
+    if (!currentStage) {
+      const template = await getFlowTemplateLoader().resolve(meeting.flowTemplate)
+      currentStage = template.stages[0].id
+    }
+
     meeting.isProcessing = true
-    console.log(`Starting meeting ${meeting.id}: ${meeting.topic}`)
+    meeting.currentStage = currentStage
+    console.log(`Starting meeting ${meeting.id} at ${currentStage}: ${meeting.topic}`)
 
     // Execute each stage
     while (
       currentStage !== MeetingStage.COMPLETED &&
       currentStage !== MeetingStage.FAILED
     ) {
+      control.throwIfCancelled()
+
+      // Pause only between stages, so the persisted stage has not started yet
+      if (control.isPauseRequested) {
+        meeting.status = 'paused'
+        meeting.pausedAt = new Date().toISOString()
+        meeting.currentStage = currentStage
+        meeting.messages.push({
+          id: `msg-${Date.now()}-paused`,
+          timestamp: meeting.pausedAt,
+          role: 'SYSTEM',
+          type: 'system',
+          content: `会议已暂停，将从阶段 ${currentStage} 继续`,
+        })
+        await repository.save(meeting)
+        broadcastMeeting(meeting)
+        console.log(`Meeting ${meeting.id} paused before ${currentStage}`)
+        return
+      }
+
       console.log(`Executing stage: ${currentStage}`)
 
-      const { messages, newStage, degradation } = await flowControl.executeStage(
+      const { messages, newStage, degradation, awaitUser } = await flowControl.executeStage(
         meeting,
         currentStage
       )
 
+      // A stage that fell back after an abort must not be recorded
+      control.throwIfCancelled()
+
       // Add messages to meeting
       meeting.messages.push(...messages)
 
@@ -35,8 +126,11 @@ export async function runMeeting(meeting, meetingsMap) {
         meeting.degradation = degradation
       }
 
+      // Checkpoint the next stage together with this stage's output
+      meeting.currentStage = newStage
+
       // Save updated meeting
-      meetingsMap.set(meeting.id, meeting)
+      await repository.save(meeting)
 
       // Broadcast update via WebSocket
       if (global.broadcastToMeeting) {
@@ -47,6 +141,11 @@ export async function runMeeting(meeting, meetingsMap) {
         })
       }
 
+      // BRAIN or PRIME asked the user something the next stage needs
+      if (awaitUser) {
+        await waitForUserAnswer(meeting, repository, control, awaitUser)
+      }
+
       // Move to next stage
       currentStage = newStage
 
@@ -69,7 +168,7 @@ export async function runMeeting(meeting, meetingsMap) {
     await memoryManager.extractLearnings(meeting)
 
     // Final update
-    meetingsMap.set(meeting.id, meeting)
+    await repository.save(meeting)
 
     // Broadcast completion
     if (global.broadcastToMeeting) {
@@ -82,10 +181,31 @@ export async function runMeeting(meeting, meetingsMap) {
 
     console.log(`Meeting ${meeting.id} completed`)
   } catch (error) {
+    if (control.isCancelled) {
+      console.log(`Meeting ${meeting.id} cancelled at ${currentStage}`)
+      markCancelled(meeting)
+      await repository.save(meeting).catch((saveError) => {
+        console.error(`Failed to save meeting ${meeting.id}:`, saveError)
+      })
+      broadcastMeeting(meeting)
+      return
+    }
+
     console.error(`Meeting ${meeting.id} failed:`, error)
     meeting.status = 'failed'
     meeting.error = error instanceof Error ? error.message : String(error)
-    meetingsMap.set(meeting.id, meeting)
+    // currentStage still points at the failed stage, so a retry resumes there
+    meeting.failure = {
+      stage: currentStage,
+      ...(error instanceof RoleCompletionError
+        ? { role: error.role, provider: error.provider, model: error.model }
+        : {}),
+      error: meeting.error,
+      failedAt: new Date().toISOString(),
+    }
+    await repository.save(meeting).catch((saveError) => {
+      console.error(`Failed to save meeting ${meeting.id}:`, saveError)
+    })
 
     if (global.broadcastToMeeting) {
       global.broadcastToMeeting(meeting.id, {
@@ -95,10 +215,19 @@ export async function runMeeting(meeting, meetingsMap) {
       })
     }
   } finally {
+    runs.end(meeting.id, control)
+    await getCassetteStore().close(meeting.id)
+    ProviderFactory.releaseMeeting(meeting.id)
     meeting.isProcessing = false
-    if (Array.isArray(meeting.pendingUserResponses) && meeting.pendingUserResponses.length > 0) {
+    // A paused meeting keeps its queued responses until it is resumed
+    if (
+      meeting.status !== 'paused' &&
+      meeting.status !== 'cancelled' &&
+      Array.isArray(meeting.pendingUserResponses) &&
+      meeting.pendingUserResponses.length > 0
+    ) {
       const nextResponse = meeting.pendingUserResponses.shift()
-      continueWithUserResponse(meeting, meetingsMap, nextResponse).catch((error) => {
+      continueWithUserResponse(meeting, repository, nextResponse).catch((error) => {
         console.error(`Failed to process queued continuation for meeting ${meeting.id}:`, error)
       })
     }
@@ -107,39 +236,53 @@ export async function runMeeting(meeting, meetingsMap) {
 
 /**
  * Continue discussion after user response
+ * - If meeting is awaiting the user: the response answers the pending question
  * - If meeting is running: PRIME gives an immediate acknowledgement/reply
- * - If meeting is completed: run a short follow-up round and refresh decision
+ * - If meeting is completed: run a short follow-up round and refresh decision and minutes
  */
-export async function continueWithUserResponse(meeting, meetingsMap, userResponse) {
+export async function continueWithUserResponse(meeting, repository, userResponse) {
   const normalizedResponse = String(userResponse || '').trim()
   if (!normalizedResponse) {
     return
   }
 
+  const waiting = getMeetingRunRegistry().get(meeting.id)
+  if (meeting.status === 'awaiting_user' && waiting?.answerUser(normalizedResponse)) {
+    return
+  }
+
   if (!Array.isArray(meeting.pendingUserResponses)) {
     meeting.pendingUserResponses = []
   }
 
-  if (meeting.isProcessing || meeting.isUserContinuationRunning) {
+  // Paused meetings pick queued responses up after they are resumed
+  if (meeting.isProcessing || meeting.isUserContinuationRunning || meeting.status === 'paused') {
     meeting.pendingUserResponses.push(normalizedResponse)
-    meetingsMap.set(meeting.id, meeting)
+    await repository.save(meeting)
+    return
+  }
+
+  if (meeting.status === 'cancelled') {
     return
   }
 
   meeting.isUserContinuationRunning = true
+  const runs = getMeetingRunRegistry()
+  const control = runs.start(meeting.id)
   try {
     const flowControl = getFlowControl()
     const previousStatus = meeting.status
     meeting.status = 'running'
-    const stages = [MeetingStage.FOLLOW_UP_DISCUSSION, MeetingStage.PRIME_DECISION]
+    const stages = [MeetingStage.FOLLOW_UP_DISCUSSION, MeetingStage.PRIME_DECISION, MeetingStage.CLERK_MINUTES]
 
     for (const stage of stages) {
       const { messages, newStage, degradation } = await flowControl.executeStage(meeting, stage)
+      control.throwIfCancelled()
       meeting.messages.push(...messages)
       if (degradation) {
         meeting.degradation = degradation
       }
-      meetingsMap.set(meeting.id, meeting)
+      await repository.save(meeting)
       if (global.broadcastToMeeting) {
         global.broadcastToMeeting(meeting.id, {
           type: 'MEETING_UPDATED',
@@ -154,7 +297,7 @@ export async function continueWithUserResponse(meeting, meetingsMap, userRespons
 
     meeting.status = previousStatus === 'failed' ? 'failed' : 'completed'
     meeting.completedAt = new Date().toISOString()
-    meetingsMap.set(meeting.id, meeting)
+    await repository.save(meeting)
     if (global.broadcastToMeeting) {
       global.broadcastToMeeting(meeting.id, {
         type: 'MEETING_UPDATED',
@@ -163,14 +306,138 @@ export async function continueWithUserResponse(meeting, meetingsMap, userRespons
       })
     }
   } catch (error) {
+    if (control.isCancelled) {
+      markCancelled(meeting)
+      await repository.save(meeting).catch((saveError) => {
+        console.error(`Failed to save meeting ${meeting.id}:`, saveError)
+      })
+      broadcastMeeting(meeting)
+      return
+    }
     console.error(`User continuation failed for meeting ${meeting.id}:`, error)
   } finally {
+    runs.end(meeting.id, control)
+    await getCassetteStore().close(meeting.id)
     meeting.isUserContinuationRunning = false
-    if (Array.isArray(meeting.pendingUserResponses) && meeting.pendingUserResponses.length > 0) {
+    if (
+      meeting.status !== 'cancelled' &&
+      Array.isArray(meeting.pendingUserResponses) &&
+      meeting.pendingUserResponses.length > 0
+    ) {
       const nextResponse = meeting.pendingUserResponses.shift()
-      continueWithUserResponse(meeting, meetingsMap, nextResponse).catch((error) => {
+      continueWithUserResponse(meeting, repository, nextResponse).catch((error) => {
         console.error(`Failed to process queued continuation for meeting ${meeting.id}:`, error)
       })
     }
   }
 }
+
+/**
+ * Ask a running meeting to pause at the next stage boundary
+ */
+export async function pauseMeeting(meeting) {
+  const control = getMeetingRunRegistry().get(meeting.id)
+  if (meeting.status !== 'running' || !control) {
+    throw new MeetingControlError('Meeting is not running')
+  }
+  // A follow-up round for a user response is short and has no resumable stage
+  if (meeting.isUserContinuationRunning) {
+    throw new MeetingControlError('Meeting is answering a user response and cannot be paused')
+  }
+
+  control.requestPause()
+  return { status: 'pausing', stage: meeting.currentStage }
+}
+
+/**
+ * Continue a paused meeting from its persisted stage
+ */
+export async function resumeMeeting(meeting, repository) {
+  if (meeting.status !== 'paused') {
+    throw new MeetingControlError('Meeting is not paused')
+  }
+
+  const fromStage = meeting.currentStage
+  meeting.status = 'running'
+  meeting.pausedAt = undefined
+  await repository.save(meeting)
+  broadcastMeeting(meeting)
+
+  runMeeting(meeting, repository, { fromStage }).catch((error) => {
+    console.error(`Failed to resume meeting ${meeting.id}:`, error)
+  })
+
+  return { status: 'running', stage: fromStage }
+}
+
+/**
+ * Retry a failed, interrupted or cancelled meeting from its checkpointed stage
+ * Messages and usage of the stages that completed are kept. `provider`
+ * (and optionally `model`) switches the failing role, or `role`, to another
+ * provider for the rest of this meeting.
+ */
+export async function retryMeeting(meeting, repository, options = {}) {
+  if (!['failed', 'interrupted', 'cancelled'].includes(meeting.status)) {
+    throw new MeetingControlError('Only failed, interrupted or cancelled meetings can be retried')
+  }
+
+  const fromStage = meeting.currentStage || meeting.failure?.stage
+  if (!fromStage) {
+    throw new MeetingControlError('Meeting has no stage to resume from')
+  }
+
+  if (options.provider) {
+    const role = (options.role || meeting.failure?.role || '').toUpperCase()
+    if (!role) {
+      throw new MeetingControlError('role is required when the failure did not come from a provider')
+    }
+    if (!isProviderConfigured(options.provider)) {
+      throw new MeetingControlError(`Provider ${options.provider} is not configured`)
+    }
+    meeting.providerOverrides = {
+      ...meeting.providerOverrides,
+      [role]: { provider: options.provider, model: options.model },
+    }
+  }
+
+  const now = new Date().toISOString()
+  meeting.status = 'running'
+  meeting.error = undefined
+  meeting.failure = undefined
+  meeting.messages.push({
+    id: `msg-${Date.now()}-retry`,
+    timestamp: now,
+    role: 'SYSTEM',
+    type: 'system',
+    content: `会议从阶段 ${fromStage} 重试`,
+  })
+  await repository.save(meeting)
+  broadcastMeeting(meeting)
+
+  runMeeting(meeting, repository, { fromStage }).catch((error) => {
+    console.error(`Failed to retry meeting ${meeting.id}:`, error)
+  })
+
+  return { status: 'running', stage: fromStage }
+}
+
+/**
+ * Cancel a meeting, aborting any in-flight provider request
+ */
+export async function cancelMeeting(meeting, repository) {
+  if (!['pending', 'running', 'awaiting_user', 'paused', 'interrupted'].includes(meeting.status)) {
+    throw new MeetingControlError(`Meeting cannot be cancelled in status "${meeting.status}"`)
+  }
+
+  const control = getMeetingRunRegistry().get(meeting.id)
+  if (control) {
+    // The runner records the cancellation once the aborted request unwinds
+    control.cancel()
+    return { status: 'cancelling' }
+  }
+
+  markCancelled(meeting)
+  await repository.save(meeting)
+  broadcastMeeting(meeting)
+  return { status: 'cancelled' }
+}
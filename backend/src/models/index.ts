@@ -2,23 +2,134 @@
  * Core data models for the Cyber Cabinet system
  */
 
+import type { ProviderOverride } from '../services/llm/providerFactory.js'
+
 export interface Meeting {
   id: string
   topic: string
   description?: string
   selectedRoleIds?: string[]
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  // Round-1 speeches run in parallel without seeing each other
+  blindMode?: boolean
+  // Flow template id (backend/data/flows), defaults to "standard"
+  flowTemplate?: string
+  // Speech length limits; omitted fields use DEFAULT_SPEECH_POLICY
+  speechPolicy?: SpeechPolicy
+  status: MeetingStatus
   error?: string
+  // Where the last failed run stopped; a retry resumes from `stage`
+  failure?: MeetingFailure
+  // Provider per upper-case role for this meeting only, set by a retry
+  providerOverrides?: Record<string, ProviderOverride>
+  // Records provider calls to, or replays them from, a cassette file
+  cassette?: MeetingCassette
   budget: number
   usage: number
+  // Currency budget in USD; stages degrade on whichever budget runs out first
+  budgetMaxCostUsd?: number
+  usageCostUsd?: number
+  usagePromptTokens?: number
+  usageCompletionTokens?: number
+  // Output-token allowances over the whole meeting; unset means uncapped
+  budgetPerRoleMaxOutputTokens?: number
+  budgetPrimeMaxOutputTokens?: number
+  budgetClerkMaxOutputTokens?: number
+  // Spend per upper-case role
+  roleUsage?: Record<string, RoleUsage>
+  // How long the flow waits for an answer to a question; 0 never asks
+  userAnswerTimeoutMs?: number
+  userQuestions?: UserQuestion[]
+  // Vote weight per upper-case role; unlisted roles weigh 1
+  voteWeights?: Record<string, number>
   createdAt: string
   startedAt?: string
   completedAt?: string
+  interruptedAt?: string
+  pausedAt?: string
+  cancelledAt?: string
+  // Next MeetingStage to execute; a resumed run continues from here
+  currentStage?: string
   messages: Message[]
   artifacts: Artifacts
   degradation?: DegradationLevel
 }
 
+export interface MeetingFailure {
+  stage: string
+  // Role and provider whose request failed, when the error came from one
+  role?: string
+  provider?: string
+  model?: string
+  error: string
+  failedAt: string
+}
+
+export interface MeetingCassette {
+  mode: 'record' | 'replay'
+  // Meeting whose recording is replayed
+  source?: string
+  // Replayed calls whose prompt changed since recording
+  mismatches?: ReplayMismatch[]
+}
+
+export interface ReplayMismatch {
+  // Entry of the source cassette
+  seq: number
+  role?: string
+  stage?: string
+  diff: string
+}
+
+export interface SpeechLimits {
+  // Max characters of a chat message
+  displayChars: number
+  // Max characters of an artifact's main text (brief background, summary, decision)
+  artifactChars: number
+}
+
+export interface SpeechPolicy extends Partial<SpeechLimits> {
+  // Per-role overrides keyed by upper-case role (e.g. PRIME)
+  roles?: Record<string, Partial<SpeechLimits>>
+}
+
+/**
+ * Metered usage of one completion, stored in Message.metadata.usage
+ */
+export interface MessageUsage {
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+}
+
+export interface RoleUsage extends MessageUsage {
+  calls: number
+}
+
+export type MeetingStatus =
+  | 'pending'
+  | 'running'
+  | 'awaiting_user'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'interrupted'
+  | 'cancelled'
+
+/**
+ * Question BRAIN or PRIME put to the human running the meeting
+ */
+export interface UserQuestion {
+  id: string
+  askedBy: string
+  question: string
+  askedAt: string
+  // Step whose prompts receive the answer
+  forStage?: string
+  status: 'pending' | 'answered' | 'timed_out' | 'skipped'
+  answer?: string
+  answeredAt?: string
+}
+
 export type DegradationLevel = 'none' | 'partial' | 'severe'
 
 export interface Message {
@@ -37,6 +148,10 @@ export interface Artifacts {
   finalDecision?: FinalDecision
   brainInterventions?: BrainIntervention[]
   brainAnalysis?: BrainAnalysis
+  minutes?: MeetingMinutes
+  debateRounds?: DebateRound[]
+  decisionMatrix?: DecisionMatrix
+  vote?: VoteTally
 }
 
 export interface IssueBrief {
@@ -47,8 +162,11 @@ export interface IssueBrief {
 }
 
 export interface SpeakPlan {
+  // Upper-case role ids, first speaker first
   speakingOrder: string[]
   rationale: string
+  // Who set the order: PRIME, or USER before the run
+  setBy?: string
 }
 
 export interface Summary {
@@ -64,6 +182,83 @@ export interface FinalDecision {
   decision: string
   reasoning: string
   nextSteps: string[]
+  // DecisionOption.id PRIME adopted, when a decision matrix was drawn up
+  chosenOptionId?: string
+  // 1-based index into VoteTally.options PRIME adopted, when a vote was held
+  chosenVoteOption?: number
+}
+
+export interface DecisionOption {
+  // "A", "B", ...
+  id: string
+  title: string
+  description: string
+}
+
+/**
+ * Alternatives PRIME drew up, scored by each minister on its own dimension
+ */
+export interface DecisionMatrix {
+  options: DecisionOption[]
+  dimensions: { role: string; dimension: string; weight: number }[]
+  // 1..10, higher is better on the role's dimension
+  scores: { optionId: string; role: string; score: number; rationale: string }[]
+  // Weighted average score per option id
+  totals: Record<string, number>
+  recommendedOptionId?: string
+}
+
+/**
+ * Formal minutes recorded by CLERK after the decision
+ */
+export interface MeetingMinutes {
+  attendees: string[]
+  agenda: string[]
+  stageSummaries: { stage: string; summary: string }[]
+  decisions: string[]
+  actionItems: { item: string; owner: string; due?: string }[]
+}
+
+/**
+ * BRAIN's convergence assessment after one round of a debate step
+ */
+export interface DebateRound {
+  stepId: string
+  round: number
+  // Share of consensus among the points BRAIN found, 0..1
+  convergence: number
+  consensus: string[]
+  disagreements: string[]
+  converged: boolean
+}
+
+export type VoteStance = 'approve' | 'reject' | 'abstain'
+
+export interface Vote {
+  // 1-based index into VoteTally.options
+  option: number
+  stance: VoteStance
+  // 0..1
+  confidence: number
+  justification: string
+}
+
+export interface Ballot {
+  role: string
+  weight: number
+  votes: Vote[]
+}
+
+/**
+ * Votes the ministers cast on the options PRIME put forward
+ */
+export interface VoteTally {
+  options: string[]
+  ballots: Ballot[]
+  // Weighted totals in option order; approve/reject count weight × confidence
+  results: { option: string; approve: number; reject: number; abstain: number; score: number }[]
+  // 1-based index of the option with the highest score
+  leading?: number
 }
 
 export interface BrainIntervention {
@@ -0,0 +1,31 @@
+import express from 'express'
+import { getFlowTemplateLoader } from '../services/orchestrator/flowTemplates.js'
+
+const router = express.Router()
+
+// GET /api/flows - List meeting flow templates
+router.get('/', async (req, res) => {
+  try {
+    const templates = await getFlowTemplateLoader().list()
+    res.json(templates)
+  } catch (error) {
+    console.error('Error listing flow templates:', error)
+    res.status(500).json({ error: 'Failed to list flow templates' })
+  }
+})
+
+// GET /api/flows/:id - Get one flow template
+router.get('/:id', async (req, res) => {
+  try {
+    const template = await getFlowTemplateLoader().get(req.params.id)
+    if (!template) {
+      return res.status(404).json({ error: 'Flow template not found' })
+    }
+    res.json(template)
+  } catch (error) {
+    console.error('Error getting flow template:', error)
+    res.status(500).json({ error: 'Failed to get flow template' })
+  }
+})
+
+export default router
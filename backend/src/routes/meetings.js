@@ -1,12 +1,51 @@
 import express from 'express'
-import { runMeeting } from '../controllers/meetingsController.js'
-import { getRoleProvider } from '../services/llm/providerFactory.js'
+import { z } from 'zod'
+import {
+  runMeeting,
+  pauseMeeting,
+  resumeMeeting,
+  retryMeeting,
+  cancelMeeting,
+} from '../controllers/meetingsController.js'
+import { getRoleProvider, KnownProviderSchema } from '../services/llm/providerFactory.js'
+import { getMeetingRepository } from '../services/meetings/meetingRepository.js'
+import { getCompletionScheduler } from '../services/llm/scheduler.js'
+import { getCircuitStates } from '../services/llm/resilience.js'
+import { CassetteSettingsSchema, getCassetteStore } from '../services/llm/cassette.js'
+import { getFlowTemplateLoader, DEFAULT_FLOW_TEMPLATE } from '../services/orchestrator/flowTemplates.js'
+import { SpeechPolicySchema } from '../services/orchestrator/speechPolicy.js'
+import { VoteWeightsSchema } from '../services/orchestrator/votes.js'
+import { SpeakPlanSchema } from '../services/orchestrator/speakPlan.js'
 
 const router = express.Router()
 
-// TODO: Implement in-memory store for meetings
-const meetings = new Map()
+const meetings = getMeetingRepository()
 const DEFAULT_ROLES = ['prime', 'brain', 'critic', 'finance', 'works']
+// Output-token allowances over the whole meeting (PRIME and CLERK have their own)
+const OUTPUT_ALLOWANCE_FIELDS = ['budgetPerRoleMaxOutputTokens', 'budgetPrimeMaxOutputTokens', 'budgetClerkMaxOutputTokens']
+
+const retrySchema = z.object({
+  // Role to switch; defaults to the role whose request failed
+  role: z.string().min(1).optional(),
+  provider: KnownProviderSchema.optional(),
+  model: z.string().min(1).optional(),
+}).strict()
+
+// Settings a replay copies from the recorded meeting
+const REPLAYED_FIELDS = [
+  'topic', 'description', 'selectedRoleIds', 'blindMode', 'flowTemplate', 'speechPolicy',
+  'budget', 'budgetMaxCostUsd', ...OUTPUT_ALLOWANCE_FIELDS, 'userAnswerTimeoutMs', 'voteWeights', 'providerOverrides',
+]
+
+/**
+ * Cassette settings for a new meeting; LLM_CASSETTE=record records every meeting
+ */
+function resolveCassette(input) {
+  if (input !== undefined) {
+    return CassetteSettingsSchema.safeParse(input)
+  }
+  return { success: true, data: process.env.LLM_CASSETTE === 'record' ? { mode: 'record' } : undefined }
+}
 
 function normalizeSelectedRoles(input) {
   if (!Array.isArray(input)) {
@@ -30,8 +69,7 @@ function normalizeSelectedRoles(input) {
 
 // GET /api/meetings - List all meetings
 router.get('/', (req, res) => {
-  const allMeetings = Array.from(meetings.values())
-  res.json(allMeetings)
+  res.json(meetings.list())
 })
 
 // GET /api/meetings/:id - Get meeting details
@@ -43,28 +81,102 @@ router.get('/:id', (req, res) => {
   res.json(meeting)
 })
 
+// GET /api/meetings/:id/queue - Scheduler queue depth, wait time and provider circuits
+router.get('/:id/queue', (req, res) => {
+  if (!meetings.has(req.params.id)) {
+    return res.status(404).json({ error: 'Meeting not found' })
+  }
+  const scheduler = getCompletionScheduler()
+  res.json({
+    ...scheduler.getMeetingStatus(req.params.id),
+    providers: scheduler.getStats(),
+    circuits: getCircuitStates(),
+  })
+})
+
 // POST /api/meetings - Create a new meeting
-router.post('/', (req, res) => {
-  const { topic, description, budget = 50000, selectedRoleIds } = req.body
+router.post('/', async (req, res) => {
+  const { topic, description, budget = 50000, budgetMaxCostUsd, selectedRoleIds, blindMode = false, mode } = req.body
+  // `mode` is the legacy MVP field (e.g. "QUICK")
+  const flowTemplate = String(req.body.flowTemplate || mode || DEFAULT_FLOW_TEMPLATE).toLowerCase()
 
   if (!topic) {
     return res.status(400).json({ error: 'Topic is required' })
   }
 
+  if (!(await getFlowTemplateLoader().get(flowTemplate))) {
+    return res.status(400).json({ error: `Unknown flow template: ${flowTemplate}` })
+  }
+
+  if (budgetMaxCostUsd !== undefined && !(typeof budgetMaxCostUsd === 'number' && budgetMaxCostUsd > 0)) {
+    return res.status(400).json({ error: 'budgetMaxCostUsd must be a positive number' })
+  }
+
+  for (const field of OUTPUT_ALLOWANCE_FIELDS) {
+    const value = req.body[field]
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      return res.status(400).json({ error: `${field} must be a positive integer` })
+    }
+  }
+
+  const { userAnswerTimeoutMs } = req.body
+  if (userAnswerTimeoutMs !== undefined && !(Number.isInteger(userAnswerTimeoutMs) && userAnswerTimeoutMs >= 0)) {
+    return res.status(400).json({ error: 'userAnswerTimeoutMs must be a non-negative integer' })
+  }
+
+  const speechPolicy = req.body.speechPolicy === undefined
+    ? undefined
+    : SpeechPolicySchema.safeParse(req.body.speechPolicy)
+  if (speechPolicy && !speechPolicy.success) {
+    return res.status(400).json({ error: 'Invalid speech policy', details: speechPolicy.error.flatten() })
+  }
+
+  const voteWeights = req.body.voteWeights === undefined
+    ? undefined
+    : VoteWeightsSchema.safeParse(req.body.voteWeights)
+  if (voteWeights && !voteWeights.success) {
+    return res.status(400).json({ error: 'Invalid vote weights', details: voteWeights.error.flatten() })
+  }
+
+  const cassette = resolveCassette(req.body.cassette)
+  if (!cassette.success) {
+    return res.status(400).json({ error: 'Invalid cassette settings', details: cassette.error.flatten() })
+  }
+  if (cassette.data?.mode === 'replay' && !(await getCassetteStore().read(cassette.data.source))) {
+    return res.status(400).json({ error: `No cassette recorded for meeting ${cassette.data.source}` })
+  }
+
   const meeting = {
     id: Date.now().toString(),
     topic,
     description,
     selectedRoleIds: normalizeSelectedRoles(selectedRoleIds),
+    blindMode: Boolean(blindMode),
+    flowTemplate,
+    speechPolicy: speechPolicy?.data,
     status: 'pending',
     budget,
     usage: 0,
+    budgetMaxCostUsd,
+    usageCostUsd: 0,
+    budgetPerRoleMaxOutputTokens: req.body.budgetPerRoleMaxOutputTokens,
+    budgetPrimeMaxOutputTokens: req.body.budgetPrimeMaxOutputTokens,
+    budgetClerkMaxOutputTokens: req.body.budgetClerkMaxOutputTokens,
+    roleUsage: {},
+    userAnswerTimeoutMs,
+    voteWeights: voteWeights?.data,
+    cassette: cassette.data,
     createdAt: new Date().toISOString(),
     messages: [],
     artifacts: {},
   }
 
-  meetings.set(meeting.id, meeting)
+  try {
+    await meetings.save(meeting)
+  } catch (error) {
+    console.error('Failed to save meeting:', error)
+    return res.status(500).json({ error: 'Failed to save meeting' })
+  }
 
   res.status(201).json(meeting)
 })
@@ -77,7 +189,7 @@ router.post('/:id/run', async (req, res) => {
     return res.status(404).json({ error: 'Meeting not found' })
   }
 
-  if (meeting.status === 'running') {
+  if (meeting.status === 'running' || meeting.status === 'awaiting_user') {
     return res.status(400).json({ error: 'Meeting is already running' })
   }
 
@@ -85,10 +197,25 @@ router.post('/:id/run', async (req, res) => {
     return res.status(400).json({ error: 'Meeting has already completed' })
   }
 
-  // Validate providers are configured for required roles
+  if (meeting.status === 'paused') {
+    return res.status(400).json({ error: 'Meeting is paused, resume it instead' })
+  }
+
+  if (meeting.status === 'failed' || meeting.status === 'interrupted') {
+    return res.status(400).json({
+      error: `Meeting is ${meeting.status}, resume it with POST /api/meetings/${meeting.id}/retry`,
+    })
+  }
+
+  // A meeting that has run keeps its transcript; it continues through /retry
+  if (meeting.status !== 'pending') {
+    return res.status(400).json({ error: `Meeting cannot be started in status "${meeting.status}"` })
+  }
+
+  // Validate providers are configured for required roles; replays never call them
   try {
     const requiredRoles = normalizeSelectedRoles(meeting.selectedRoleIds)
-    for (const role of requiredRoles) {
+    for (const role of meeting.cassette?.mode === 'replay' ? [] : requiredRoles) {
       const { provider } = await getRoleProvider(role)
       if (!provider.isConfigured()) {
         return res.status(400).json({
@@ -101,8 +228,16 @@ router.post('/:id/run', async (req, res) => {
   }
 
   // Start the meeting asynchronously
+  const previous = { status: meeting.status, startedAt: meeting.startedAt }
   meeting.status = 'running'
   meeting.startedAt = new Date().toISOString()
+  try {
+    await meetings.save(meeting)
+  } catch (error) {
+    console.error('Failed to save meeting:', error)
+    Object.assign(meeting, previous)
+    return res.status(500).json({ error: 'Failed to save meeting' })
+  }
 
   // Send initial response
   res.json({
@@ -115,20 +250,153 @@ router.post('/:id/run', async (req, res) => {
   runMeeting(meeting, meetings).catch((error) => {
     console.error('Meeting execution error:', error)
     meeting.status = 'failed'
+    meetings.save(meeting).catch((saveError) => {
+      console.error(`Failed to save meeting ${meeting.id}:`, saveError)
+    })
   })
 })
 
+// GET /api/meetings/:id/cassette - Provider calls recorded for a meeting
+router.get('/:id/cassette', async (req, res) => {
+  if (!meetings.has(req.params.id)) {
+    return res.status(404).json({ error: 'Meeting not found' })
+  }
+
+  try {
+    const cassette = await getCassetteStore().read(req.params.id)
+    if (!cassette) {
+      return res.status(404).json({ error: 'No cassette recorded for this meeting' })
+    }
+    res.json(cassette)
+  } catch (error) {
+    console.error('Failed to read cassette:', error)
+    res.status(500).json({ error: 'Failed to read cassette' })
+  }
+})
+
+// POST /api/meetings/:id/replay - Create a meeting that replays this meeting's recorded calls
+router.post('/:id/replay', async (req, res) => {
+  const source = meetings.get(req.params.id)
+  if (!source) {
+    return res.status(404).json({ error: 'Meeting not found' })
+  }
+  if (!(await getCassetteStore().read(source.id))) {
+    return res.status(404).json({ error: 'No cassette recorded for this meeting' })
+  }
+
+  const meeting = {
+    id: Date.now().toString(),
+    ...Object.fromEntries(REPLAYED_FIELDS.map((field) => [field, source[field]])),
+    status: 'pending',
+    usage: 0,
+    usageCostUsd: 0,
+    roleUsage: {},
+    cassette: { mode: 'replay', source: source.id },
+    createdAt: new Date().toISOString(),
+    messages: [],
+    // A speaking order the user fixed before the run is part of the input
+    artifacts: source.artifacts.speakPlan?.setBy === 'USER' ? { speakPlan: source.artifacts.speakPlan } : {},
+  }
+
+  try {
+    await meetings.save(meeting)
+  } catch (error) {
+    console.error('Failed to save meeting:', error)
+    return res.status(500).json({ error: 'Failed to save meeting' })
+  }
+
+  res.status(201).json(meeting)
+})
+
+/**
+ * Register a run-control endpoint backed by a controller action
+ */
+function controlRoute(action) {
+  return async (req, res) => {
+    const meeting = meetings.get(req.params.id)
+    if (!meeting) {
+      return res.status(404).json({ error: 'Meeting not found' })
+    }
+
+    try {
+      const result = await action(meeting, meetings)
+      res.json({ meetingId: meeting.id, ...result })
+    } catch (error) {
+      res.status(error.status || 500).json({ error: error.message })
+    }
+  }
+}
+
+// POST /api/meetings/:id/pause - Pause at the next stage boundary
+router.post('/:id/pause', controlRoute(pauseMeeting))
+
+// POST /api/meetings/:id/resume - Resume a paused meeting from its stage
+router.post('/:id/resume', controlRoute(resumeMeeting))
+
+// POST /api/meetings/:id/retry - Resume a failed, interrupted or cancelled meeting from its stage
+router.post('/:id/retry', async (req, res) => {
+  const parsed = retrySchema.safeParse(req.body || {})
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid retry options', details: parsed.error.flatten() })
+  }
+  return controlRoute((meeting, repository) => retryMeeting(meeting, repository, parsed.data))(req, res)
+})
+
+// POST /api/meetings/:id/cancel - Cancel and abort in-flight requests
+router.post('/:id/cancel', controlRoute(cancelMeeting))
+
+// PUT /api/meetings/:id/speak-plan - Set the speaking order before a run
+router.put('/:id/speak-plan', async (req, res) => {
+  const meeting = meetings.get(req.params.id)
+  if (!meeting) {
+    return res.status(404).json({ error: 'Meeting not found' })
+  }
+
+  if (!['pending', 'interrupted', 'cancelled'].includes(meeting.status)) {
+    return res.status(400).json({ error: 'Speaking order can only be changed before the meeting runs' })
+  }
+
+  const parsed = SpeakPlanSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid speak plan', details: parsed.error.flatten() })
+  }
+
+  const departments = normalizeSelectedRoles(meeting.selectedRoleIds)
+    .filter((role) => !['prime', 'brain', 'clerk'].includes(role))
+    .map((role) => role.toUpperCase())
+  const unknown = parsed.data.speakingOrder.filter((role) => !departments.includes(role))
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `Roles not in this meeting: ${unknown.join(', ')}` })
+  }
+
+  meeting.artifacts.speakPlan = {
+    speakingOrder: [...new Set(parsed.data.speakingOrder)],
+    rationale: parsed.data.rationale || '由会议发起人指定',
+    setBy: 'USER',
+  }
+
+  try {
+    await meetings.save(meeting)
+  } catch (error) {
+    console.error('Failed to save meeting:', error)
+    return res.status(500).json({ error: 'Failed to save meeting' })
+  }
+  res.json(meeting.artifacts.speakPlan)
+})
+
 // DELETE /api/meetings/:id - Delete a meeting
-router.delete('/:id', (req, res) => {
+router.delete('/:id', async (req, res) => {
   if (!meetings.has(req.params.id)) {
     return res.status(404).json({ error: 'Meeting not found' })
   }
 
-  meetings.delete(req.params.id)
+  try {
+    await meetings.delete(req.params.id)
+  } catch (error) {
+    console.error('Failed to delete meeting:', error)
+    return res.status(500).json({ error: 'Failed to delete meeting' })
+  }
   res.status(204).send()
 })
 
-// Export the meetings map for use in controller
-export { meetings }
-
 export default router
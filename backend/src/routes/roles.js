@@ -1,15 +1,20 @@
 import express from 'express'
 import { getRoleManager } from '../services/persona/roleManager.js'
 import { getPersonaEvolution } from '../services/persona/personaEvolution.js'
+import { KnownProviderSchema } from '../services/llm/providerFactory.js'
 import { z } from 'zod'
 
 const router = express.Router()
 
 const modelConfigSchema = z.object({
-  provider: z.enum(['openai', 'anthropic', 'ollama', 'glm', 'deepseek']),
+  provider: KnownProviderSchema,
   model: z.string().min(1),
   temperature: z.number().min(0).max(2),
   maxTokens: z.number().positive(),
+  fallback: z.array(z.object({
+    provider: KnownProviderSchema,
+    model: z.string().min(1).optional(),
+  })).optional(),
 })
 
 const createRoleSchema = z.object({
@@ -1,6 +1,19 @@
 import express from 'express'
-import { getKeyStore, setKeys, getKeyStatus } from '../services/llm/keyStore.js'
-import { ProviderFactory } from '../services/llm/providerFactory.js'
+import { setKeys, getKeyStatus } from '../services/llm/keyStore.js'
+import {
+  deleteEndpoint,
+  EndpointNameSchema,
+  EndpointSchema,
+  getEndpointStatus,
+  saveEndpoint,
+} from '../services/llm/endpointStore.js'
+import {
+  ProviderFactory,
+  getDefaultProviderConfig,
+  isKnownProvider,
+  resolveProviderCredentials,
+} from '../services/llm/providerFactory.js'
+import { getPricingRegistry, resetPricingRegistry } from '../services/llm/pricing.js'
 
 const router = express.Router()
 
@@ -11,12 +24,14 @@ router.get('/status', async (req, res) => {
 
     // Also get available models
     const models = await ProviderFactory.getAllModels()
+    const defaultConfig = getDefaultProviderConfig()
 
     res.json({
       keys: status,
+      endpoints: getEndpointStatus(),
       models,
-      defaultProvider: process.env.DEFAULT_PROVIDER || 'anthropic',
-      defaultModel: process.env.DEFAULT_MODEL || 'claude-3-5-sonnet-20241022',
+      defaultProvider: defaultConfig.type,
+      defaultModel: defaultConfig.model,
     })
   } catch (error) {
     console.error('Error getting settings status:', error)
@@ -24,6 +39,11 @@ router.get('/status', async (req, res) => {
   }
 })
 
+// GET /api/settings/pricing - Per-model prices (USD per million tokens)
+router.get('/pricing', (req, res) => {
+  res.json(getPricingRegistry().list())
+})
+
 // GET /api/settings - Get current settings (with masked keys for security)
 router.get('/', (req, res) => {
   try {
@@ -51,7 +71,8 @@ router.put('/', async (req, res) => {
 
     await setKeys(updates)
 
-    // Clear provider cache to force reload with new keys
+    // Providers read credentials at construction; dropping the cache makes
+    // the next request pick up the new keys without a restart
     ProviderFactory.clearCache()
 
     const status = getKeyStatus()
@@ -66,49 +87,98 @@ router.put('/', async (req, res) => {
   }
 })
 
-// POST /api/settings/test - Test API key
-router.post('/test', async (req, res) => {
+// GET /api/settings/endpoints - Registered OpenAI-compatible endpoints (keys masked)
+router.get('/endpoints', (req, res) => {
+  res.json(getEndpointStatus())
+})
+
+// PUT /api/settings/endpoints/:name - Register or replace an endpoint
+router.put('/endpoints/:name', async (req, res) => {
+  const name = EndpointNameSchema.safeParse(req.params.name)
+  if (!name.success) {
+    return res.status(400).json({ error: 'Invalid endpoint name', details: name.error.flatten() })
+  }
+  const parsed = EndpointSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid endpoint', details: parsed.error.flatten() })
+  }
+
   try {
-    const { provider, apiKey, model } = req.body
+    await saveEndpoint(name.data, parsed.data)
+  } catch (error) {
+    console.error('Failed to save endpoint:', error)
+    return res.status(500).json({ error: 'Failed to save endpoint' })
+  }
 
-    if (!provider || !apiKey) {
-      return res.status(400).json({ error: 'Provider and apiKey are required' })
-    }
+  // Cached providers and prices were built from the previous settings
+  ProviderFactory.clearCache()
+  resetPricingRegistry()
+  res.json(getEndpointStatus().find((endpoint) => endpoint.name === name.data))
+})
 
-    // Temporarily set the key to test
-    const keyMap = {
-      openai: 'openaiApiKey',
-      anthropic: 'anthropicApiKey',
-      glm: 'glmApiKey',
-      deepseek: 'deepseekApiKey',
+// DELETE /api/settings/endpoints/:name - Remove an endpoint
+router.delete('/endpoints/:name', async (req, res) => {
+  try {
+    if (!(await deleteEndpoint(req.params.name))) {
+      return res.status(404).json({ error: 'Endpoint not found' })
     }
+  } catch (error) {
+    console.error('Failed to delete endpoint:', error)
+    return res.status(500).json({ error: 'Failed to delete endpoint' })
+  }
 
-    const keyName = keyMap[provider]
-    if (!keyName) {
-      return res.status(400).json({ error: `Invalid provider: ${provider}` })
-    }
+  ProviderFactory.clearCache()
+  resetPricingRegistry()
+  res.status(204).send()
+})
+
+// POST /api/settings/test - Test a provider with a minimal real completion
+// Uses the supplied apiKey/baseUrl when given, otherwise the saved config.
+// Nothing is persisted.
+router.post('/test', async (req, res) => {
+  const { provider, apiKey, baseUrl, model } = req.body
+
+  if (!provider || provider === 'mock' || !isKnownProvider(provider)) {
+    return res.status(400).json({ error: `Invalid provider: ${provider}` })
+  }
 
-    await setKeys({ [keyName]: apiKey })
+  const saved = resolveProviderCredentials(provider)
+  const testProvider = ProviderFactory.createProvider(provider, {
+    apiKey: apiKey || saved.apiKey,
+    baseURL: baseUrl || saved.baseURL,
+  })
 
-    // Try to create a provider and check if it's configured
-    const testProvider = ProviderFactory.getProvider({
-      type: provider,
-      model: model || 'test',
+  if (!testProvider.isConfigured()) {
+    return res.json({
+      success: false,
+      message: `${provider} is not configured`,
     })
+  }
 
-    const isConfigured = testProvider.isConfigured()
+  const testModel = model || (await testProvider.getModels())[0]?.id
+  const startedAt = Date.now()
+
+  try {
+    const response = await testProvider.complete({
+      messages: [{ role: 'user', content: 'ping' }],
+      model: testModel,
+      temperature: 0,
+      maxTokens: 8,
+    })
 
     res.json({
-      success: isConfigured,
-      message: isConfigured
-        ? `${provider} API key is valid`
-        : `${provider} API key is invalid or not configured`,
+      success: true,
+      model: response.model || testModel,
+      latencyMs: Date.now() - startedAt,
+      message: `${provider} responded successfully`,
     })
   } catch (error) {
-    console.error('Error testing API key:', error)
-    res.status(500).json({
+    console.error('Error testing provider:', error)
+    res.json({
       success: false,
-      error: error.message || 'Failed to test API key',
+      model: testModel,
+      latencyMs: Date.now() - startedAt,
+      error: error.message || 'Failed to test provider',
     })
   }
 })
@@ -7,10 +7,18 @@ import path from 'path'
 import { fileURLToPath } from 'url'
 
 // Import routes
-import meetingsRouter, { meetings } from '../routes/meetings.js'
+import meetingsRouter from '../routes/meetings.js'
 import rolesRouter from '../routes/roles.js'
 import memoryRouter from '../routes/memory.js'
-import { continueWithUserResponse } from '../controllers/meetingsController.js'
+import settingsRouter from '../routes/settings.js'
+import flowsRouter from '../routes/flows.js'
+import {
+  continueWithUserResponse,
+  pauseMeeting,
+  resumeMeeting,
+  cancelMeeting,
+} from '../controllers/meetingsController.js'
+import { getMeetingRepository } from '../services/meetings/meetingRepository.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -28,6 +36,7 @@ if (envPath) {
 const app = express()
 const server = createServer(app)
 const PORT = process.env.PORT || 3000
+const meetings = getMeetingRepository()
 
 // Middleware
 app.use(express.json())
@@ -59,6 +68,8 @@ app.get('/health', (req, res) => {
 app.use('/api/meetings', meetingsRouter)
 app.use('/api/roles', rolesRouter)
 app.use('/api/memory', memoryRouter)
+app.use('/api/settings', settingsRouter)
+app.use('/api/flows', flowsRouter)
 
 // Serve static files from frontend in production
 if (process.env.NODE_ENV === 'production') {
@@ -119,6 +130,7 @@ wss.on('connection', (ws, req) => {
                 content: data.response,
               }
               meeting.messages.push(userMessage)
+              await meetings.save(meeting)
 
               // Broadcast updated meeting to all clients
               broadcastToMeeting(ws.meetingId, {
@@ -139,6 +151,30 @@ wss.on('connection', (ws, req) => {
           }
           break
 
+        case 'PAUSE_MEETING':
+        case 'RESUME_MEETING':
+        case 'CANCEL_MEETING': {
+          const meetingId = data.meetingId || ws.meetingId
+          const meeting = meetingId && meetings.get(meetingId)
+          if (!meeting) {
+            ws.send(JSON.stringify({ type: 'ERROR', meetingId, error: 'Meeting not found' }))
+            break
+          }
+
+          const actions = {
+            PAUSE_MEETING: pauseMeeting,
+            RESUME_MEETING: resumeMeeting,
+            CANCEL_MEETING: cancelMeeting,
+          }
+          try {
+            const result = await actions[data.type](meeting, meetings)
+            ws.send(JSON.stringify({ type: 'CONTROL_ACK', command: data.type, meetingId, ...result }))
+          } catch (error) {
+            ws.send(JSON.stringify({ type: 'ERROR', command: data.type, meetingId, error: error.message }))
+          }
+          break
+        }
+
         default:
           console.log(`Unknown message type: ${data.type}`)
       }
@@ -176,7 +212,13 @@ function broadcastToMeeting(meetingId, data, excludeClientId) {
 // Make broadcast function available globally for use in controllers
 global.broadcastToMeeting = broadcastToMeeting
 
-// Start server
+// Start server once persisted meetings are loaded
+try {
+  await meetings.initialize()
+} catch (error) {
+  console.error('Failed to load persisted meetings:', error)
+}
+
 server.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`)
   console.log(`📡 WebSocket server running on ws://localhost:${PORT}/ws`)
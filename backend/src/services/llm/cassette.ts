@@ -0,0 +1,340 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { existsSync } from 'fs'
+import { fileURLToPath } from 'node:url'
+import { z } from 'zod'
+import { LLMProvider } from './providers/base.js'
+import type { CompletionChunk, CompletionParams, CompletionResponse, ModelInfo } from './providers/base.js'
+import type { Meeting, MeetingCassette, ReplayMismatch } from '../../models/index.js'
+
+export const CassetteSettingsSchema = z.object({
+  mode: z.enum(['record', 'replay']),
+  // Meeting whose cassette a replay serves
+  source: z.string().min(1).optional(),
+}).strict().refine((settings) => settings.mode !== 'replay' || settings.source, {
+  message: 'source is required for replay',
+  path: ['source'],
+})
+
+/**
+ * One provider call as it was made
+ */
+export interface CassetteEntry {
+  seq: number
+  role?: string
+  stage?: string
+  provider: string
+  streamed: boolean
+  params: Omit<CompletionParams, 'signal'>
+  response?: CompletionResponse
+  // Set instead of `response` when the call failed
+  error?: string
+  durationMs: number
+  recordedAt: string
+}
+
+export interface CassetteFile {
+  meetingId: string
+  createdAt: string
+  entries: CassetteEntry[]
+}
+
+export class CassetteMissError extends Error {
+  constructor(readonly role?: string, readonly stage?: string) {
+    super(`No recorded call left for ${role || 'unknown role'} in ${stage || 'unknown stage'}`)
+    this.name = 'CassetteMissError'
+  }
+}
+
+const SNIPPET_CHARS = 120
+
+function snippet(text = ''): string {
+  return text.length > SNIPPET_CHARS ? `${text.slice(0, SNIPPET_CHARS)}…` : text
+}
+
+/**
+ * Where a replayed prompt first differs from the recorded one, or null
+ */
+export function diffPrompts(recorded: CompletionParams['messages'], actual: CompletionParams['messages']): string | null {
+  const length = Math.max(recorded.length, actual.length)
+  for (let i = 0; i < length; i += 1) {
+    const before = recorded[i]
+    const after = actual[i]
+    if (before?.role === after?.role && before?.content === after?.content) continue
+    if (!before || !after) {
+      return `message ${i}: ${before ? 'removed' : 'added'} ${(before || after)!.role} "${snippet((before || after)!.content)}"`
+    }
+    let at = 0
+    while (at < before.content.length && before.content[at] === after.content[at]) at += 1
+    return `message ${i} (${after.role}) differs at char ${at}: "${snippet(before.content.slice(at))}" → "${snippet(after.content.slice(at))}"`
+  }
+  return null
+}
+
+/**
+ * The provider calls of one meeting
+ * Recording appends every call and rewrites the file; replaying serves each
+ * role's recorded calls per flow step in the order they were made.
+ */
+export class Cassette {
+  private used: Set<number> = new Set()
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(
+    private settings: MeetingCassette,
+    private file: CassetteFile,
+    private filePath: string
+  ) {}
+
+  get mode(): MeetingCassette['mode'] {
+    return this.settings.mode
+  }
+
+  /**
+   * Route a provider's calls through this cassette
+   */
+  wrap(provider: LLMProvider, providerType: string): LLMProvider {
+    return new CassetteProvider(provider, this, providerType)
+  }
+
+  record(entry: Omit<CassetteEntry, 'seq' | 'recordedAt'>): void {
+    this.file.entries.push({ seq: this.file.entries.length + 1, ...entry, recordedAt: new Date().toISOString() })
+    const snapshot = JSON.stringify(this.file, null, 2)
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        await fs.writeFile(this.filePath, snapshot, 'utf-8')
+      })
+      .catch((error) => {
+        console.error(`Failed to write cassette ${this.filePath}:`, error)
+      })
+  }
+
+  /**
+   * The next recorded call for the caller; prompt changes are noted as mismatches
+   */
+  take(params: CompletionParams): CassetteEntry {
+    const role = params.caller?.role
+    const stage = params.caller?.stage
+    const index = this.file.entries.findIndex((entry, i) => !this.used.has(i) && entry.role === role && entry.stage === stage)
+    if (index === -1) {
+      throw new CassetteMissError(role, stage)
+    }
+    this.used.add(index)
+
+    const entry = this.file.entries[index]
+    const diff = diffPrompts(entry.params.messages, params.messages)
+    if (diff) {
+      const mismatch: ReplayMismatch = { seq: entry.seq, role, stage, diff }
+      this.settings.mismatches = [...(this.settings.mismatches || []), mismatch]
+      console.warn(`Replayed prompt for ${role} in ${stage} changed since recording: ${diff}`)
+    }
+    return entry
+  }
+
+  async flush(): Promise<void> {
+    await this.writing
+  }
+}
+
+/**
+ * Records or replays the calls of a wrapped provider
+ */
+export class CassetteProvider extends LLMProvider {
+  readonly name: string
+  readonly type: LLMProvider['type']
+
+  constructor(
+    private inner: LLMProvider,
+    private cassette: Cassette,
+    private providerType: string
+  ) {
+    super()
+    this.name = inner.name
+    this.type = inner.type
+  }
+
+  async complete(params: CompletionParams): Promise<CompletionResponse> {
+    if (this.cassette.mode === 'replay') {
+      return this.replay(params)
+    }
+
+    const startedAt = Date.now()
+    try {
+      const response = await this.inner.complete(params)
+      this.record(params, false, startedAt, response)
+      return response
+    } catch (error) {
+      this.record(params, false, startedAt, undefined, error)
+      throw error
+    }
+  }
+
+  async *streamComplete(params: CompletionParams): AsyncGenerator<CompletionChunk> {
+    if (this.cassette.mode === 'replay') {
+      const response = this.replay(params)
+      yield { content: response.content, done: false }
+      yield { content: '', done: true, usage: response.usage }
+      return
+    }
+
+    const startedAt = Date.now()
+    let content = ''
+    let usage: CompletionResponse['usage']
+    try {
+      for await (const chunk of this.inner.streamComplete(params)) {
+        content += chunk.content
+        usage = chunk.usage || usage
+        yield chunk
+      }
+    } catch (error) {
+      this.record(params, true, startedAt, undefined, error)
+      throw error
+    }
+    this.record(params, true, startedAt, { content, usage, model: params.model || '' })
+  }
+
+  supportsStreaming(model?: string): boolean {
+    return this.inner.supportsStreaming(model)
+  }
+
+  estimateTokens(text: string, model?: string): number {
+    return this.inner.estimateTokens(text, model)
+  }
+
+  getModels(): ModelInfo[] {
+    return this.inner.getModels()
+  }
+
+  isConfigured(): boolean {
+    // Replays never reach the provider
+    return this.cassette.mode === 'replay' || this.inner.isConfigured()
+  }
+
+  private replay(params: CompletionParams): CompletionResponse {
+    const entry = this.cassette.take(params)
+    if (entry.error !== undefined) {
+      throw new Error(entry.error)
+    }
+    return entry.response!
+  }
+
+  private record(
+    params: CompletionParams,
+    streamed: boolean,
+    startedAt: number,
+    response?: CompletionResponse,
+    error?: unknown
+  ): void {
+    // A cancelled meeting's aborted call is not part of its history
+    if (params.signal?.aborted) return
+
+    const { signal: _signal, ...recorded } = params
+    this.cassette.record({
+      role: params.caller?.role,
+      stage: params.caller?.stage,
+      provider: this.providerType,
+      streamed,
+      params: recorded,
+      ...(response ? { response } : { error: error instanceof Error ? error.message : String(error) }),
+      durationMs: Date.now() - startedAt,
+    })
+  }
+}
+
+function resolveCassettesDir(): string {
+  if (process.env.CASSETTES_DIR) {
+    return process.env.CASSETTES_DIR
+  }
+
+  if (existsSync('./data')) {
+    return path.resolve('./data/cassettes')
+  }
+
+  if (existsSync('./backend/data')) {
+    return path.resolve('./backend/data/cassettes')
+  }
+
+  const currentDir = path.dirname(fileURLToPath(import.meta.url))
+  return path.resolve(currentDir, '../../../data/cassettes')
+}
+
+/**
+ * Open cassettes of running meetings
+ */
+export class CassetteStore {
+  private open: Map<string, Promise<Cassette>> = new Map()
+  // Closed cassettes still writing; reopening waits so no entry is lost
+  private flushing: Map<string, Promise<void>> = new Map()
+
+  constructor(private baseDir: string) {}
+
+  /**
+   * The cassette a meeting records to or replays from, if it has one
+   * A recording continues the meeting's existing file (e.g. after a retry).
+   */
+  async get(meeting: Meeting): Promise<Cassette | null> {
+    const settings = meeting.cassette
+    if (!settings) return null
+
+    let cassette = this.open.get(meeting.id)
+    if (!cassette) {
+      cassette = this.load(meeting.id, settings)
+      this.open.set(meeting.id, cassette)
+    }
+    return cassette
+  }
+
+  /**
+   * Finish writing a meeting's cassette and forget its replay position
+   */
+  async close(meetingId: string): Promise<void> {
+    const cassette = this.open.get(meetingId)
+    if (!cassette) return
+    this.open.delete(meetingId)
+
+    const flushed = cassette.then((opened) => opened.flush()).catch(() => {})
+    this.flushing.set(meetingId, flushed)
+    await flushed
+    if (this.flushing.get(meetingId) === flushed) {
+      this.flushing.delete(meetingId)
+    }
+  }
+
+  async read(meetingId: string): Promise<CassetteFile | null> {
+    const filePath = this.getPath(meetingId)
+    if (!existsSync(filePath)) return null
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as CassetteFile
+  }
+
+  private async load(meetingId: string, settings: MeetingCassette): Promise<Cassette> {
+    await this.flushing.get(meetingId)
+
+    if (settings.mode === 'replay') {
+      const file = await this.read(settings.source!)
+      if (!file) {
+        throw new Error(`No cassette recorded for meeting ${settings.source}`)
+      }
+      return new Cassette(settings, file, this.getPath(settings.source!))
+    }
+
+    const file = (await this.read(meetingId)) || { meetingId, createdAt: new Date().toISOString(), entries: [] }
+    return new Cassette(settings, file, this.getPath(meetingId))
+  }
+
+  private getPath(meetingId: string): string {
+    // Same rule as meeting files: ids are never trusted as path segments
+    const safeId = meetingId.replace(/[^a-zA-Z0-9_-]/g, '_')
+    return path.join(this.baseDir, `${safeId}.json`)
+  }
+}
+
+// Singleton instance
+let storeInstance: CassetteStore | null = null
+
+export function getCassetteStore(): CassetteStore {
+  if (!storeInstance) {
+    storeInstance = new CassetteStore(resolveCassettesDir())
+  }
+  return storeInstance
+}
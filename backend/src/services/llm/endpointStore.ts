@@ -0,0 +1,156 @@
+import fs from 'fs'
+import fsp from 'fs/promises'
+import path from 'path'
+import { existsSync } from 'fs'
+import { z } from 'zod'
+import { BUILTIN_PROVIDER_TYPES, PROVIDER_ID_PATTERN } from './providers/base.js'
+import type { ModelInfo } from './providers/base.js'
+import { maskSecret } from './keyStore.js'
+
+const EndpointModelSchema = z.union([
+  z.string().min(1),
+  z.object({
+    id: z.string().min(1),
+    name: z.string().optional(),
+    contextLength: z.number().int().positive().optional(),
+    supportsStreaming: z.boolean().optional(),
+    // USD per million tokens
+    pricing: z.object({
+      inputPerMillion: z.number().min(0),
+      outputPerMillion: z.number().min(0),
+    }).optional(),
+  }).strict(),
+])
+
+/**
+ * A user-registered OpenAI-compatible server
+ */
+export const EndpointSchema = z.object({
+  baseURL: z.string().url(),
+  // Omitted for servers that need no key (vLLM, LM Studio, ...)
+  apiKey: z.string().optional(),
+  // The first model is the endpoint's default
+  models: z.array(EndpointModelSchema).min(1),
+  headers: z.record(z.string()).optional(),
+  label: z.string().optional(),
+}).strict()
+
+export type EndpointConfig = z.infer<typeof EndpointSchema>
+
+export const EndpointNameSchema = z.string()
+  .regex(PROVIDER_ID_PATTERN, 'Use lower-case letters, digits, "-" or "_", starting with a letter')
+  .refine((name) => !(BUILTIN_PROVIDER_TYPES as readonly string[]).includes(name), {
+    message: 'Name is taken by a built-in provider',
+  })
+
+let cache: Record<string, EndpointConfig> | null = null
+
+function resolveEndpointsPath(): string {
+  if (process.env.ENDPOINTS_FILE) {
+    return process.env.ENDPOINTS_FILE
+  }
+
+  if (existsSync('./data')) {
+    return path.resolve('./data/endpoints.json')
+  }
+
+  if (existsSync('./backend/data')) {
+    return path.resolve('./backend/data/endpoints.json')
+  }
+
+  return path.resolve('./data/endpoints.json')
+}
+
+const endpointsPath = resolveEndpointsPath()
+
+function loadCache(): Record<string, EndpointConfig> {
+  if (cache !== null) return cache
+
+  cache = {}
+  if (!existsSync(endpointsPath)) return cache
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(endpointsPath, 'utf-8') || '{}')
+    for (const [name, config] of Object.entries(raw)) {
+      const parsed = EndpointSchema.safeParse(config)
+      if (EndpointNameSchema.safeParse(name).success && parsed.success) {
+        cache[name] = parsed.data
+      } else {
+        console.warn(`Ignoring invalid endpoint "${name}" in ${endpointsPath}`)
+      }
+    }
+  } catch (error) {
+    console.warn(`Failed to read endpoints from ${endpointsPath}:`, error)
+  }
+  return cache
+}
+
+async function persist(): Promise<void> {
+  const dir = path.dirname(endpointsPath)
+  if (!existsSync(dir)) {
+    await fsp.mkdir(dir, { recursive: true })
+  }
+  await fsp.writeFile(endpointsPath, JSON.stringify(cache, null, 2), 'utf-8')
+}
+
+/**
+ * Registered endpoint names, in registration order
+ */
+export function listEndpointNames(): string[] {
+  return Object.keys(loadCache())
+}
+
+export function getEndpoint(name: string): EndpointConfig | undefined {
+  const endpoints = loadCache()
+  return Object.hasOwn(endpoints, name) ? endpoints[name] : undefined
+}
+
+/**
+ * The endpoint's models as provider model entries
+ */
+export function getEndpointModels(name: string, endpoint: EndpointConfig): ModelInfo[] {
+  return endpoint.models.map((model) => {
+    const entry = typeof model === 'string' ? { id: model } : model
+    return {
+      id: entry.id,
+      name: entry.name || entry.id,
+      provider: name,
+      contextLength: entry.contextLength || 8192,
+      supportsStreaming: entry.supportsStreaming ?? true,
+      pricing: entry.pricing,
+    }
+  })
+}
+
+/**
+ * Register or replace an endpoint
+ * An omitted apiKey keeps the stored one; an empty string removes it.
+ */
+export async function saveEndpoint(name: string, config: EndpointConfig): Promise<void> {
+  const endpoints = loadCache()
+  const apiKey = config.apiKey === undefined ? endpoints[name]?.apiKey : config.apiKey || undefined
+  endpoints[name] = { ...config, apiKey }
+  await persist()
+}
+
+export async function deleteEndpoint(name: string): Promise<boolean> {
+  const endpoints = loadCache()
+  if (!Object.hasOwn(endpoints, name)) return false
+  delete endpoints[name]
+  await persist()
+  return true
+}
+
+/**
+ * Endpoints with their key and header values masked
+ */
+export function getEndpointStatus(): Array<Omit<EndpointConfig, 'apiKey'> & { name: string; masked?: string }> {
+  return Object.entries(loadCache()).map(([name, { apiKey, headers, ...endpoint }]) => ({
+    name,
+    ...endpoint,
+    headers: headers
+      ? Object.fromEntries(Object.entries(headers).map(([header, value]) => [header, maskSecret(value) || '']))
+      : undefined,
+    masked: maskSecret(apiKey),
+  }))
+}
@@ -3,7 +3,7 @@ import fsp from 'fs/promises'
 import path from 'path'
 import { existsSync } from 'fs'
 
-type KeyStoreData = {
+export type KeyStoreData = {
   openaiApiKey?: string
   anthropicApiKey?: string
   deepseekApiKey?: string
@@ -13,6 +13,19 @@ type KeyStoreData = {
   deepseekBaseUrl?: string
 }
 
+/**
+ * Environment variables consulted when a setting is absent from the key store
+ */
+const ENV_FALLBACKS: Record<keyof KeyStoreData, string> = {
+  openaiApiKey: 'OPENAI_API_KEY',
+  anthropicApiKey: 'ANTHROPIC_API_KEY',
+  deepseekApiKey: 'DEEPSEEK_API_KEY',
+  glmApiKey: 'GLM_API_KEY',
+  ollamaBaseUrl: 'OLLAMA_BASE_URL',
+  glmBaseUrl: 'GLM_BASE_URL',
+  deepseekBaseUrl: 'DEEPSEEK_BASE_URL',
+}
+
 let cache: KeyStoreData | null = null
 
 function resolveKeysPath(): string {
@@ -59,9 +72,29 @@ export function getKey(name: keyof KeyStoreData): string | undefined {
   return cache?.[name]
 }
 
+/**
+ * Resolve a setting from the key store first, then the environment
+ */
+export function resolveKey(name: keyof KeyStoreData): string | undefined {
+  return getKey(name) || process.env[ENV_FALLBACKS[name]] || undefined
+}
+
+/**
+ * Merge updates into the key store
+ * An empty string removes the stored value so the env fallback applies again.
+ */
 export async function setKeys(updates: KeyStoreData): Promise<void> {
   loadCache()
-  cache = { ...(cache || {}), ...updates }
+  const next: KeyStoreData = { ...(cache || {}) }
+  for (const [name, value] of Object.entries(updates) as Array<[keyof KeyStoreData, string | undefined]>) {
+    if (value === undefined) continue
+    if (value === '') {
+      delete next[name]
+    } else {
+      next[name] = value
+    }
+  }
+  cache = next
 
   const dir = path.dirname(keysPath)
   if (!existsSync(dir)) {
@@ -71,19 +104,37 @@ export async function setKeys(updates: KeyStoreData): Promise<void> {
   await fsp.writeFile(keysPath, JSON.stringify(cache, null, 2), 'utf-8')
 }
 
-export function getKeyStatus(): Record<string, { configured: boolean; masked?: string; value?: string }> {
+/**
+ * Show only the ends of a secret
+ */
+export function maskSecret(val?: string): string | undefined {
+  if (!val) return undefined
+  if (val.length <= 4) return '****'
+  return `${val.slice(0, 2)}***${val.slice(-2)}`
+}
+
+export function getKeyStatus(): Record<string, { configured: boolean; masked?: string; value?: string; source?: 'store' | 'env' }> {
   const data = getKeyStore()
-  const mask = (val?: string) => {
-    if (!val) return undefined
-    if (val.length <= 4) return '****'
-    return `${val.slice(0, 2)}***${val.slice(-2)}`
+  const status = (name: keyof KeyStoreData) => {
+    const resolved = resolveKey(name)
+    return {
+      configured: !!resolved,
+      masked: maskSecret(resolved),
+      source: resolved ? (data[name] ? 'store' as const : 'env' as const) : undefined,
+    }
   }
 
+  const ollamaBaseUrl = resolveKey('ollamaBaseUrl')
+
   return {
-    openai: { configured: !!data.openaiApiKey, masked: mask(data.openaiApiKey) },
-    anthropic: { configured: !!data.anthropicApiKey, masked: mask(data.anthropicApiKey) },
-    deepseek: { configured: !!data.deepseekApiKey, masked: mask(data.deepseekApiKey) },
-    glm: { configured: !!data.glmApiKey, masked: mask(data.glmApiKey) },
-    ollama: { configured: !!(data.ollamaBaseUrl || process.env.OLLAMA_BASE_URL), value: data.ollamaBaseUrl || process.env.OLLAMA_BASE_URL },
+    openai: status('openaiApiKey'),
+    anthropic: status('anthropicApiKey'),
+    deepseek: status('deepseekApiKey'),
+    glm: status('glmApiKey'),
+    ollama: {
+      configured: !!ollamaBaseUrl,
+      value: ollamaBaseUrl,
+      source: ollamaBaseUrl ? (data.ollamaBaseUrl ? 'store' : 'env') : undefined,
+    },
   }
 }
@@ -0,0 +1,109 @@
+import { ProviderFactory, type ProviderConfig } from './providerFactory.js'
+import { getEndpoint, getEndpointModels, listEndpointNames } from './endpointStore.js'
+import type { ModelInfo, ModelPricing } from './providers/base.js'
+
+/**
+ * Token counts of one completion, split by direction
+ */
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+// Providers billed per provider rather than per model (local inference is free)
+const PROVIDER_PRICING: Record<string, ModelPricing> = {
+  ollama: { inputPerMillion: 0, outputPerMillion: 0 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+}
+
+const PRICED_PROVIDERS: Array<ProviderConfig['type']> = ['openai', 'anthropic', 'glm', 'deepseek']
+
+/**
+ * Pricing registry keyed by provider/model
+ *
+ * Dated or suffixed model ids (e.g. gpt-4o-2024-08-06) fall back to the
+ * longest registered id they start with. Unknown models cost nothing and are
+ * reported once, so a missing price never blocks a meeting.
+ */
+export class PricingRegistry {
+  private prices: Map<string, ModelPricing> = new Map()
+  private warned: Set<string> = new Set()
+
+  constructor(models: ModelInfo[] = []) {
+    for (const model of models) {
+      if (model.pricing) {
+        this.register(model.provider, model.id, model.pricing)
+      }
+    }
+  }
+
+  register(provider: string, model: string, pricing: ModelPricing): void {
+    this.prices.set(`${provider}/${model}`, pricing)
+  }
+
+  get(provider: string, model: string): ModelPricing | undefined {
+    const exact = this.prices.get(`${provider}/${model}`)
+    if (exact) {
+      return exact
+    }
+
+    let best: { id: string; pricing: ModelPricing } | undefined
+    for (const [key, pricing] of this.prices) {
+      const id = key.slice(provider.length + 1)
+      if (key.startsWith(`${provider}/`) && model.startsWith(id) && (!best || id.length > best.id.length)) {
+        best = { id, pricing }
+      }
+    }
+    return best?.pricing || PROVIDER_PRICING[provider]
+  }
+
+  /**
+   * Cost in USD of a completion
+   */
+  estimateCost(provider: string, model: string, usage: TokenUsage): number {
+    const pricing = this.get(provider, model)
+    if (!pricing) {
+      const key = `${provider}/${model}`
+      if (!this.warned.has(key)) {
+        this.warned.add(key)
+        console.warn(`No pricing for ${key}, counting its cost as 0`)
+      }
+      return 0
+    }
+
+    return (
+      usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion
+    ) / 1_000_000
+  }
+
+  list(): Array<{ provider: string; model: string } & ModelPricing> {
+    return Array.from(this.prices, ([key, pricing]) => {
+      const [provider, ...model] = key.split('/')
+      return { provider, model: model.join('/'), ...pricing }
+    })
+  }
+}
+
+// Singleton instance
+let registryInstance: PricingRegistry | null = null
+
+export function getPricingRegistry(): PricingRegistry {
+  if (!registryInstance) {
+    // Model tables are static, so unconfigured providers can describe them
+    const models = PRICED_PROVIDERS.flatMap((type) => ProviderFactory.createProvider(type, {}).getModels())
+    // Endpoints list their own prices, if any
+    for (const name of listEndpointNames()) {
+      models.push(...getEndpointModels(name, getEndpoint(name)!))
+    }
+    registryInstance = new PricingRegistry(models)
+  }
+  return registryInstance
+}
+
+/**
+ * Rebuild the registry on next use, e.g. after an endpoint changed
+ */
+export function resetPricingRegistry(): void {
+  registryInstance = null
+}
@@ -6,8 +6,15 @@ import { AnthropicProvider } from './providers/anthropic.js'
 import { OllamaProvider } from './providers/ollama.js'
 import { GLMProvider } from './providers/glm.js'
 import { DeepSeekProvider } from './providers/deepseek.js'
-import type { LLMProvider } from './providers/base.js'
-import type { ModelInfo } from './providers/base.js'
+import { MockProvider, loadMockFixtures } from './providers/mock.js'
+import { OpenAICompatibleProvider } from './providers/openaiCompatible.js'
+import { getRoleManager } from '../persona/roleManager.js'
+import { resolveKey } from './keyStore.js'
+import { getEndpoint, getEndpointModels, listEndpointNames } from './endpointStore.js'
+import { getCircuitBreaker, resolveResiliencePolicy, ResilientProvider } from './resilience.js'
+import { z } from 'zod'
+import { BUILTIN_PROVIDER_TYPES, PROVIDER_ID_PATTERN } from './providers/base.js'
+import type { LLMProvider, ModelInfo, ProviderId } from './providers/base.js'
 
 // Load environment variables from root .env first, then cwd .env
 const envCandidates = [
@@ -23,12 +30,58 @@ if (envPath) {
  * Provider configuration
  */
 export interface ProviderConfig {
-  type: 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'
+  // Built-in provider or registered endpoint name
+  type: ProviderId
   model: string
   temperature?: number
   maxTokens?: number
 }
 
+/**
+ * Connection settings for a provider
+ */
+export interface ProviderCredentials {
+  apiKey?: string
+  baseURL?: string
+}
+
+/**
+ * Whether an id names a built-in provider or a registered endpoint
+ */
+export function isKnownProvider(type: string): type is ProviderId {
+  return (BUILTIN_PROVIDER_TYPES as readonly string[]).includes(type) || Boolean(getEndpoint(type))
+}
+
+/**
+ * Provider id accepted in API requests
+ */
+export const KnownProviderSchema = z.string()
+  .regex(PROVIDER_ID_PATTERN)
+  .refine(isKnownProvider, (type) => ({ message: `Unknown provider: ${type}` }))
+
+/**
+ * Resolve credentials for a provider type: key store first, then env
+ * Endpoints carry their own credentials.
+ */
+export function resolveProviderCredentials(type: ProviderConfig['type']): ProviderCredentials {
+  switch (type) {
+    case 'openai':
+      return { apiKey: resolveKey('openaiApiKey'), baseURL: process.env.OPENAI_BASE_URL }
+    case 'anthropic':
+      return { apiKey: resolveKey('anthropicApiKey') }
+    case 'ollama':
+      return { baseURL: resolveKey('ollamaBaseUrl') || 'http://localhost:11434' }
+    case 'glm':
+      return { apiKey: resolveKey('glmApiKey'), baseURL: resolveKey('glmBaseUrl') }
+    case 'deepseek':
+      return { apiKey: resolveKey('deepseekApiKey'), baseURL: resolveKey('deepseekBaseUrl') }
+    default: {
+      const endpoint = getEndpoint(type)
+      return endpoint ? { apiKey: endpoint.apiKey, baseURL: endpoint.baseURL } : {}
+    }
+  }
+}
+
 /**
  * Factory class for creating LLM providers
  */
@@ -37,6 +90,7 @@ export class ProviderFactory {
 
   /**
    * Get or create a provider instance
+   * Requests go through the provider's retry policy and circuit breaker.
    */
   static getProvider(config: ProviderConfig): LLMProvider {
     const cacheKey = `${config.type}:${config.model}`
@@ -45,42 +99,61 @@ export class ProviderFactory {
       return this.providers.get(cacheKey)!
     }
 
-    let provider: LLMProvider
+    const policy = resolveResiliencePolicy()
+    const provider = new ResilientProvider(
+      this.createProvider(config.type, resolveProviderCredentials(config.type), config.model),
+      getCircuitBreaker(config.type, policy),
+      policy,
+      config.type
+    )
+
+    this.providers.set(cacheKey, provider)
+    return provider
+  }
 
-    switch (config.type) {
+  /**
+   * Create an uncached provider from explicit credentials
+   * For the mock provider `model` names the fixture set; any other
+   * unknown type is looked up as a registered endpoint.
+   */
+  static createProvider(type: ProviderConfig['type'], credentials: ProviderCredentials, model?: string): LLMProvider {
+    switch (type) {
       case 'openai':
-        provider = new OpenAIProvider(
-          process.env.OPENAI_API_KEY,
-          process.env.OPENAI_BASE_URL,
+        return new OpenAIProvider(
+          credentials.apiKey,
+          credentials.baseURL,
           process.env.OPENAI_TIMEOUT ? Number(process.env.OPENAI_TIMEOUT) : undefined
         )
-        break
       case 'anthropic':
-        provider = new AnthropicProvider(process.env.ANTHROPIC_API_KEY)
-        break
+        return new AnthropicProvider(credentials.apiKey)
       case 'ollama':
-        provider = new OllamaProvider(
-          process.env.OLLAMA_BASE_URL || 'http://localhost:11434'
-        )
-        break
+        return new OllamaProvider(credentials.baseURL || 'http://localhost:11434')
       case 'glm':
-        provider = new GLMProvider({
-          apiKey: process.env.GLM_API_KEY || '',
-          baseURL: process.env.GLM_BASE_URL,
+        return new GLMProvider({
+          apiKey: credentials.apiKey || '',
+          baseURL: credentials.baseURL,
         })
-        break
       case 'deepseek':
-        provider = new DeepSeekProvider({
-          apiKey: process.env.DEEPSEEK_API_KEY || '',
-          baseURL: process.env.DEEPSEEK_BASE_URL,
+        return new DeepSeekProvider({
+          apiKey: credentials.apiKey || '',
+          baseURL: credentials.baseURL,
         })
-        break
-      default:
-        throw new Error(`Unsupported provider type: ${config.type}`)
+      case 'mock':
+        return new MockProvider(loadMockFixtures(model || resolveProviderModel('mock')))
+      default: {
+        const endpoint = getEndpoint(type)
+        if (!endpoint) {
+          throw new Error(`Unsupported provider type: ${type}`)
+        }
+        return new OpenAICompatibleProvider({
+          name: endpoint.label || type,
+          baseURL: credentials.baseURL || endpoint.baseURL,
+          apiKey: credentials.apiKey,
+          headers: endpoint.headers,
+          models: getEndpointModels(type, endpoint),
+        })
+      }
     }
-
-    this.providers.set(cacheKey, provider)
-    return provider
   }
 
   /**
@@ -90,17 +163,29 @@ export class ProviderFactory {
   static async getProviderWithFallback(
     configs: ProviderConfig[]
   ): Promise<{ provider: LLMProvider; config: ProviderConfig }> {
+    const [first] = this.getFallbackChain(configs)
+    if (!first) {
+      throw new Error('No configured provider available')
+    }
+    return first
+  }
+
+  /**
+   * The configured providers among `configs`, in order
+   */
+  static getFallbackChain(configs: ProviderConfig[]): Array<{ provider: LLMProvider; config: ProviderConfig }> {
+    const chain: Array<{ provider: LLMProvider; config: ProviderConfig }> = []
     for (const config of configs) {
       try {
         const provider = this.getProvider(config)
         if (provider.isConfigured()) {
-          return { provider, config }
+          chain.push({ provider, config })
         }
       } catch (error) {
         console.warn(`Provider ${config.type} not available:`, error)
       }
     }
-    throw new Error('No configured provider available')
+    return chain
   }
 
   /**
@@ -109,9 +194,11 @@ export class ProviderFactory {
   static async getAllModels(): Promise<ModelInfo[]> {
     const models: ModelInfo[] = []
 
-    // Try each provider type
-    const providerTypes: Array<'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'> =
-      ['openai', 'anthropic', 'ollama', 'glm', 'deepseek']
+    // Try each provider type, then the registered endpoints
+    const providerTypes: ProviderId[] = [
+      ...BUILTIN_PROVIDER_TYPES.filter((type) => type !== 'mock'),
+      ...listEndpointNames(),
+    ]
 
     for (const type of providerTypes) {
       try {
@@ -134,6 +221,15 @@ export class ProviderFactory {
     return models
   }
 
+  /**
+   * Drop the state cached providers keep for a meeting whose run ended
+   */
+  static releaseMeeting(meetingId: string): void {
+    for (const provider of this.providers.values()) {
+      provider.releaseMeeting(meetingId)
+    }
+  }
+
   /**
    * Clear cached providers (useful for testing)
    */
@@ -142,7 +238,9 @@ export class ProviderFactory {
   }
 }
 
-const PROVIDER_TYPES: Array<'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'> = [
+// Detected in this order when DEFAULT_PROVIDER is unset, followed by the
+// registered endpoints; mock is only used when named
+const PROVIDER_TYPES: Array<ProviderConfig['type']> = [
   'openai',
   'anthropic',
   'glm',
@@ -150,34 +248,27 @@ const PROVIDER_TYPES: Array<'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepsee
   'ollama',
 ]
 
-function isProviderConfigured(type: 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'): boolean {
-  switch (type) {
-    case 'openai':
-      return Boolean(process.env.OPENAI_API_KEY)
-    case 'anthropic':
-      return Boolean(process.env.ANTHROPIC_API_KEY)
-    case 'glm':
-      return Boolean(process.env.GLM_API_KEY)
-    case 'deepseek':
-      return Boolean(process.env.DEEPSEEK_API_KEY)
-    case 'ollama':
-      return Boolean(process.env.OLLAMA_BASE_URL || 'http://localhost:11434')
-    default:
-      return false
+export function isProviderConfigured(type: ProviderConfig['type']): boolean {
+  if (type === 'mock') return true
+  if (!(BUILTIN_PROVIDER_TYPES as readonly string[]).includes(type)) {
+    // Endpoints may run without a key (vLLM, LM Studio, ...)
+    return Boolean(getEndpoint(type))
   }
+  const credentials = resolveProviderCredentials(type)
+  return type === 'ollama' ? Boolean(credentials.baseURL) : Boolean(credentials.apiKey)
 }
 
-function resolveProviderType(): 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek' {
-  const fromEnv = process.env.DEFAULT_PROVIDER as 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek' | undefined
-  if (fromEnv && PROVIDER_TYPES.includes(fromEnv) && isProviderConfigured(fromEnv)) {
+function resolveProviderType(): ProviderConfig['type'] {
+  const fromEnv = process.env.DEFAULT_PROVIDER
+  if (fromEnv && isKnownProvider(fromEnv) && isProviderConfigured(fromEnv)) {
     return fromEnv
   }
 
-  const detected = PROVIDER_TYPES.find((type) => isProviderConfigured(type))
+  const detected = [...PROVIDER_TYPES, ...listEndpointNames()].find((type) => isProviderConfigured(type))
   return detected || 'openai'
 }
 
-function resolveProviderModel(type: 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'): string {
+function resolveProviderModel(type: ProviderConfig['type']): string {
   const explicit = process.env.DEFAULT_MODEL
   if (explicit) {
     return explicit
@@ -194,11 +285,26 @@ function resolveProviderModel(type: 'openai' | 'anthropic' | 'ollama' | 'glm' |
       return process.env.DEEPSEEK_MODEL || 'deepseek-chat'
     case 'ollama':
       return process.env.OLLAMA_MODEL || 'llama3.1:8b'
-    default:
-      return 'gpt-4o'
+    case 'mock':
+      // Fixture set in backend/data/mock
+      return process.env.MOCK_MODEL || 'default'
+    default: {
+      // An endpoint's first model
+      const endpoint = getEndpoint(type)
+      const [first] = endpoint ? getEndpointModels(type, endpoint) : []
+      return first?.id || 'gpt-4o'
+    }
   }
 }
 
+/**
+ * Get the provider type and model used when a role has no usable persona config
+ */
+export function getDefaultProviderConfig(): ProviderConfig {
+  const type = resolveProviderType()
+  return { type, model: resolveProviderModel(type) }
+}
+
 /**
  * Convenience function to get the default provider
  */
@@ -213,13 +319,46 @@ export function getDefaultProvider(): LLMProvider {
 }
 
 /**
- * Get a unified provider config for all roles from .env
+ * One provider in a role's chain
  */
-export async function getRoleProvider(_role: string): Promise<{ provider: LLMProvider; model: string; temperature: number; maxTokens: number }> {
-  const defaultType = resolveProviderType()
-  const defaultModel = resolveProviderModel(defaultType)
+export interface ProviderLink {
+  provider: LLMProvider
+  providerType: ProviderConfig['type']
+  model: string
+}
+
+/**
+ * Resolved provider settings for a role
+ */
+export interface RoleProviderConfig extends ProviderLink {
+  temperature: number
+  maxTokens: number
+  source: 'persona' | 'default' | 'override'
+  // Tried in order when the provider fails, with the same sampling settings
+  fallbacks: ProviderLink[]
+}
+
+/**
+ * Provider a meeting uses for a role instead of the role's own (set on retry)
+ */
+export interface ProviderOverride {
+  provider: ProviderConfig['type']
+  // Defaults to the provider's configured model
+  model?: string
+}
+
+function getDefaultSampling(): { temperature: number; maxTokens: number } {
   const defaultTemperature = Number(process.env.DEFAULT_TEMPERATURE || '0.7')
   const defaultMaxTokens = Number(process.env.DEFAULT_MAX_TOKENS || '2000')
+  return {
+    temperature: Number.isFinite(defaultTemperature) ? defaultTemperature : 0.7,
+    maxTokens: Number.isFinite(defaultMaxTokens) ? defaultMaxTokens : 2000,
+  }
+}
+
+function getDefaultRoleProvider(): RoleProviderConfig {
+  const defaultType = resolveProviderType()
+  const defaultModel = resolveProviderModel(defaultType)
 
   const provider = ProviderFactory.getProvider({
     type: defaultType,
@@ -228,8 +367,89 @@ export async function getRoleProvider(_role: string): Promise<{ provider: LLMPro
 
   return {
     provider,
+    providerType: defaultType,
     model: defaultModel,
-    temperature: Number.isFinite(defaultTemperature) ? defaultTemperature : 0.7,
-    maxTokens: Number.isFinite(defaultMaxTokens) ? defaultMaxTokens : 2000,
+    ...getDefaultSampling(),
+    source: 'default',
+    fallbacks: [],
+  }
+}
+
+/**
+ * Get the provider config for a role from its persona `model_config`
+ * Providers in `model_config.fallback` that are configured form the role's
+ * fallback chain; when none of the chain is configured the .env default is
+ * used. An override replaces the persona's chain and must be configured.
+ */
+export async function getRoleProvider(role: string, override?: ProviderOverride): Promise<RoleProviderConfig> {
+  if (override) {
+    if (!isProviderConfigured(override.provider)) {
+      throw new Error(`Provider ${override.provider} is not configured`)
+    }
+    const model = override.model || resolveProviderModel(override.provider)
+    return {
+      provider: ProviderFactory.getProvider({ type: override.provider, model }),
+      providerType: override.provider,
+      model,
+      ...getDefaultSampling(),
+      source: 'override',
+      fallbacks: [],
+    }
+  }
+
+  const roleManager = await getRoleManager()
+  const modelConfig = await roleManager.getModelConfig(role.toLowerCase())
+
+  if (!modelConfig) {
+    return getDefaultRoleProvider()
+  }
+
+  const chain = ProviderFactory.getFallbackChain([
+    { type: modelConfig.provider, model: modelConfig.model },
+    ...(modelConfig.fallback || []).map((link) => ({
+      type: link.provider,
+      model: link.model || resolveProviderModel(link.provider),
+    })),
+  ].filter((config) => isProviderConfigured(config.type)))
+    .map(({ provider, config }): ProviderLink => ({ provider, providerType: config.type, model: config.model }))
+
+  const [primary, ...fallbacks] = chain
+  if (!primary) {
+    console.warn(`Provider ${modelConfig.provider} not configured for role ${role}, using default provider`)
+    return getDefaultRoleProvider()
+  }
+  if (primary.providerType !== modelConfig.provider) {
+    console.warn(`Provider ${modelConfig.provider} not configured for role ${role}, using fallback ${primary.providerType}`)
+  }
+
+  return {
+    ...primary,
+    temperature: modelConfig.temperature,
+    maxTokens: modelConfig.maxTokens,
+    source: 'persona',
+    fallbacks,
+  }
+}
+
+/**
+ * Combine stage-level sampling hints with a role's resolved config
+ * Persona settings are authoritative: their temperature wins and their
+ * max_tokens caps the stage request. The env default only fills gaps.
+ */
+export function resolveSamplingParams(
+  config: RoleProviderConfig,
+  temperature?: number,
+  maxTokens?: number
+): { temperature: number; maxTokens: number } {
+  if (config.source === 'persona') {
+    return {
+      temperature: config.temperature,
+      maxTokens: Math.min(maxTokens ?? config.maxTokens, config.maxTokens),
+    }
+  }
+
+  return {
+    temperature: temperature ?? config.temperature,
+    maxTokens: maxTokens ?? config.maxTokens,
   }
 }
@@ -8,6 +8,42 @@ import type {
 } from './base.js'
 import { LLMProvider } from './base.js'
 
+type AnthropicTurn = { role: 'user' | 'assistant'; content: string }
+
+/**
+ * Map chat messages onto the Messages API
+ * System messages go to the top-level `system` parameter, in order, and
+ * consecutive turns of the same role are merged since the API expects
+ * user and assistant turns to alternate.
+ */
+export function toAnthropicMessages(messages: CompletionMessage[]): { system?: string; messages: AnthropicTurn[] } {
+  const system: string[] = []
+  const turns: AnthropicTurn[] = []
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      system.push(msg.content)
+      continue
+    }
+    const last = turns.at(-1)
+    if (last?.role === msg.role) {
+      last.content = `${last.content}\n\n${msg.content}`
+    } else {
+      turns.push({ role: msg.role, content: msg.content })
+    }
+  }
+
+  // A prompt made only of instructions still needs a user turn
+  if (turns.length === 0 && system.length > 0) {
+    return { messages: [{ role: 'user', content: system.join('\n\n') }] }
+  }
+
+  return {
+    system: system.length > 0 ? system.join('\n\n') : undefined,
+    messages: turns,
+  }
+}
+
 /**
  * Anthropic Provider Implementation
  * Supports Claude 3.5 Sonnet, Claude 3 Haiku, and other Anthropic models
@@ -23,6 +59,7 @@ export class AnthropicProvider extends LLMProvider {
       provider: 'anthropic',
       contextLength: 200000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 3, outputPerMillion: 15 },
     },
     {
       id: 'claude-3-5-sonnet-20240620',
@@ -30,6 +67,7 @@ export class AnthropicProvider extends LLMProvider {
       provider: 'anthropic',
       contextLength: 200000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 3, outputPerMillion: 15 },
     },
     {
       id: 'claude-3-opus-20240229',
@@ -37,6 +75,7 @@ export class AnthropicProvider extends LLMProvider {
       provider: 'anthropic',
       contextLength: 200000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 15, outputPerMillion: 75 },
     },
     {
       id: 'claude-3-sonnet-20240229',
@@ -44,6 +83,7 @@ export class AnthropicProvider extends LLMProvider {
       provider: 'anthropic',
       contextLength: 200000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 3, outputPerMillion: 15 },
     },
     {
       id: 'claude-3-haiku-20240307',
@@ -51,13 +91,15 @@ export class AnthropicProvider extends LLMProvider {
       provider: 'anthropic',
       contextLength: 200000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25 },
     },
   ]
 
   constructor(private apiKey?: string) {
     super()
     if (apiKey) {
-      this.client = new Anthropic({ apiKey })
+      // Retries happen in the resilience layer (see ../resilience.ts)
+      this.client = new Anthropic({ apiKey, maxRetries: 0 })
     }
   }
 
@@ -65,54 +107,21 @@ export class AnthropicProvider extends LLMProvider {
     return this.client !== null && !!this.apiKey
   }
 
-  private convertMessages(messages: CompletionMessage[]): Array<{
-    role: 'user' | 'assistant'
-    content: string
-  }> {
-    // Anthropic requires system message to be handled separately
-    // For now, prepend system message to first user message
-    const converted: Array<{ role: 'user' | 'assistant'; content: string }> = []
-    let systemMessage = ''
-
-    for (const msg of messages) {
-      if (msg.role === 'system') {
-        systemMessage = msg.content
-      } else if (msg.role === 'user') {
-        converted.push({
-          role: 'user',
-          content: systemMessage ? `${systemMessage}\n\n${msg.content}` : msg.content,
-        })
-        systemMessage = '' // Reset after using
-      } else {
-        converted.push(msg as { role: 'user' | 'assistant'; content: string })
-      }
-    }
-
-    return converted
-  }
-
   async complete(params: CompletionParams): Promise<CompletionResponse> {
     if (!this.client) {
       throw new Error('Anthropic client not configured. Please set ANTHROPIC_API_KEY.')
     }
 
     try {
-      const messages = this.convertMessages(params.messages)
+      const response = await this.client.messages.create(this.buildRequest(params), { signal: params.signal })
 
-      const response = await this.client.messages.create({
-        model: params.model || 'claude-3-5-sonnet-20241022',
-        messages: messages as Array<{ role: 'user' | 'assistant'; content: string }>,
-        temperature: params.temperature ?? 0.7,
-        max_tokens: params.maxTokens ?? 2000,
-      })
-
-      const content = response.content[0]
-      if (content.type !== 'text') {
+      const text = response.content.filter((block) => block.type === 'text')
+      if (text.length === 0) {
         throw new Error('Unexpected response type from Anthropic')
       }
 
       return {
-        content: content.text,
+        content: text.map((block) => block.text).join(''),
         usage: response.usage
           ? {
               promptTokens: response.usage.input_tokens,
@@ -136,28 +145,33 @@ export class AnthropicProvider extends LLMProvider {
     }
 
     try {
-      const messages = this.convertMessages(params.messages)
+      const stream = await this.client.messages.create(
+        { ...this.buildRequest(params), stream: true },
+        { signal: params.signal }
+      )
 
-      const stream = await this.client.messages.create({
-        model: params.model || 'claude-3-5-sonnet-20241022',
-        messages: messages as Array<{ role: 'user' | 'assistant'; content: string }>,
-        temperature: params.temperature ?? 0.7,
-        max_tokens: params.maxTokens ?? 2000,
-        stream: true,
-      })
+      // Input tokens arrive with message_start, the output count with message_delta
+      let promptTokens = 0
+      let completionTokens = 0
 
       for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta') {
+        if (chunk.type === 'message_start') {
+          promptTokens = chunk.message.usage.input_tokens
+          completionTokens = chunk.message.usage.output_tokens
+        } else if (chunk.type === 'content_block_delta') {
           if (chunk.delta.type === 'text_delta') {
             yield {
               content: chunk.delta.text,
               done: false,
             }
           }
+        } else if (chunk.type === 'message_delta') {
+          completionTokens = chunk.usage.output_tokens
         } else if (chunk.type === 'message_stop') {
           yield {
             content: '',
             done: true,
+            usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
           }
         }
       }
@@ -169,10 +183,16 @@ export class AnthropicProvider extends LLMProvider {
     }
   }
 
-  estimateTokens(text: string): number {
-    // Anthropic uses a custom tokenizer
-    // For now, use character-based estimation
-    return this.estimateTokensByChars(text)
+  private buildRequest(params: CompletionParams) {
+    const { system, messages } = toAnthropicMessages(params.messages)
+    return {
+      model: params.model || 'claude-3-5-sonnet-20241022',
+      ...(system ? { system } : {}),
+      messages,
+      temperature: params.temperature ?? 0.7,
+      max_tokens: params.maxTokens ?? 2000,
+      ...(params.stop?.length ? { stop_sequences: params.stop } : {}),
+    }
   }
 
   getModels(): ModelInfo[] {
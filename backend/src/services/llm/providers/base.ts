@@ -3,6 +3,23 @@
  * All LLM providers must implement this interface
  */
 
+import { countTokens } from '../tokenizer.js'
+
+/**
+ * Providers built into the backend
+ */
+export const BUILTIN_PROVIDER_TYPES = ['openai', 'anthropic', 'ollama', 'glm', 'deepseek', 'mock'] as const
+
+export type BuiltinProviderType = typeof BUILTIN_PROVIDER_TYPES[number]
+
+/**
+ * A built-in provider or the name of a registered OpenAI-compatible endpoint
+ */
+export type ProviderId = BuiltinProviderType | (string & {})
+
+// Endpoint names share the provider namespace, so ids stay short and URL-safe
+export const PROVIDER_ID_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/
+
 export interface CompletionMessage {
   role: 'system' | 'user' | 'assistant'
   content: string
@@ -13,6 +30,17 @@ export interface CompletionParams {
   temperature?: number
   maxTokens?: number
   model?: string
+  /** Generation ends before any of these strings */
+  stop?: string[]
+  /** Aborts the in-flight request (e.g. when a meeting is cancelled) */
+  signal?: AbortSignal
+  /** Meeting, role and flow step the request is for; scripted providers reply by it */
+  caller?: {
+    role: string
+    stage?: string
+    stageKind?: string
+    meetingId?: string
+  }
 }
 
 export interface CompletionResponse {
@@ -35,12 +63,21 @@ export interface CompletionChunk {
   }
 }
 
+/**
+ * List price in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
 export interface ModelInfo {
   id: string
   name: string
   provider: string
   contextLength: number
   supportsStreaming: boolean
+  pricing?: ModelPricing
 }
 
 /**
@@ -48,7 +85,7 @@ export interface ModelInfo {
  */
 export abstract class LLMProvider {
   abstract readonly name: string
-  abstract readonly type: 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'
+  abstract readonly type: BuiltinProviderType | 'openai-compatible'
 
   /**
    * Complete a prompt without streaming
@@ -61,10 +98,21 @@ export abstract class LLMProvider {
   abstract streamComplete(params: CompletionParams): AsyncGenerator<CompletionChunk>
 
   /**
-   * Estimate token count for a text
-   * This is an approximation and may not be accurate
+   * Whether streamComplete yields incremental output for the model
+   * Models not listed by the provider are assumed to stream.
    */
-  abstract estimateTokens(text: string): number
+  supportsStreaming(model?: string): boolean {
+    const info = this.getModels().find((m) => m.id === model)
+    return info ? info.supportsStreaming : true
+  }
+
+  /**
+   * Count tokens for a text with the model's encoding
+   * Models without a bundled tokenizer get the closest available encoding.
+   */
+  estimateTokens(text: string, model?: string): number {
+    return countTokens(model, text)
+  }
 
   /**
    * Get list of available models
@@ -77,12 +125,30 @@ export abstract class LLMProvider {
   abstract isConfigured(): boolean
 
   /**
-   * Simple character-based token estimation (fallback)
-   * Rough approximation: ~4 characters per token for English, ~2 for Chinese
+   * Drop state kept for a meeting once its run ends
    */
-  protected estimateTokensByChars(text: string): number {
-    const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length
-    const otherChars = text.length - chineseChars
-    return Math.ceil(chineseChars / 2 + otherChars / 4)
+  releaseMeeting(_meetingId: string): void {}
+
+  /**
+   * Reject as soon as the signal aborts, for clients without native cancellation
+   */
+  protected withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise
+    if (signal.aborted) return Promise.reject(new Error('Request aborted'))
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new Error('Request aborted'))
+      signal.addEventListener('abort', onAbort, { once: true })
+      promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort)
+          resolve(value)
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort)
+          reject(error)
+        }
+      )
+    })
   }
 }
@@ -0,0 +1,214 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'node:url'
+import type {
+  CompletionChunk,
+  CompletionParams,
+  CompletionResponse,
+  ModelInfo,
+} from './base.js'
+import { LLMProvider } from './base.js'
+
+/**
+ * One scripted reply
+ * A request gets the first unused reply whose filters all match it.
+ */
+export interface MockReply {
+  /** Upper-case role; omitted matches every role */
+  role?: string
+  /** Flow step id or stage kind; omitted matches every stage */
+  stage?: string
+  /** Text the last prompt message must contain */
+  includes?: string
+  content?: string
+  /** Fail the request with this message instead of replying */
+  error?: string
+  /** HTTP status reported with `error`, e.g. 429 or 503 */
+  status?: number
+  /** Overrides the fixture-wide latency */
+  latencyMs?: number
+  /** Reported usage; estimated from the text when omitted */
+  usage?: { promptTokens: number; completionTokens: number }
+  /** Answer every matching request instead of only the first */
+  repeat?: boolean
+}
+
+/**
+ * Scripted replies for the mock provider
+ * A transcript recorded from a real run (role, stage and content of each reply,
+ * in order) is a valid `replies` list and replays as it was recorded.
+ */
+export interface MockFixtures {
+  /** Delay before each reply */
+  latencyMs?: number
+  /** Delay between streamed chunks */
+  chunkDelayMs?: number
+  replies: MockReply[]
+  /** Reply when nothing matches; without it an unmatched request fails */
+  defaultContent?: string
+}
+
+/**
+ * A request the mock provider received, kept when `recordCalls` is set
+ */
+export interface MockCall {
+  role?: string
+  stage?: string
+  prompt: string
+  reply?: string
+  error?: string
+}
+
+const CHUNK_CHARS = 8
+
+function resolveFixturesDir(): string {
+  if (process.env.MOCK_FIXTURES_DIR) {
+    return process.env.MOCK_FIXTURES_DIR
+  }
+  // When running from backend/ or from the repository root
+  if (fs.existsSync('./data/mock')) {
+    return './data/mock'
+  }
+  if (fs.existsSync('./backend/data/mock')) {
+    return './backend/data/mock'
+  }
+  const currentDir = path.dirname(fileURLToPath(import.meta.url))
+  return path.resolve(currentDir, '../../../../data/mock')
+}
+
+/**
+ * Load a fixture set by name from MOCK_FIXTURES_DIR (default: backend/data/mock)
+ */
+export function loadMockFixtures(name: string): MockFixtures {
+  const filePath = path.join(resolveFixturesDir(), `${name}.json`)
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Mock fixtures not found: ${filePath}`)
+  }
+  const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as MockFixtures
+  if (!Array.isArray(fixtures.replies)) {
+    throw new Error(`Mock fixtures ${filePath} have no "replies" list`)
+  }
+  return fixtures
+}
+
+/**
+ * Deterministic offline provider
+ * Replies come from scripted fixtures keyed by the calling role and flow
+ * step, with simulated latency, token usage and injectable failures. The
+ * model id names the fixture set. One-off replies are used up per meeting,
+ * so every meeting served by the shared instance replays the whole script;
+ * a meeting's used replies are forgotten when its run ends.
+ */
+export class MockProvider extends LLMProvider {
+  readonly name = 'Mock'
+  readonly type = 'mock' as const
+  // Indexes of used one-off replies by meeting id ('' outside meetings)
+  private used: Map<string, Set<number>> = new Map()
+  private calls: MockCall[] = []
+
+  constructor(private fixtures: MockFixtures, private options: { recordCalls?: boolean } = {}) {
+    super()
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async complete(params: CompletionParams): Promise<CompletionResponse> {
+    const reply = await this.respond(params)
+    return {
+      content: reply.content,
+      usage: reply.usage,
+      model: params.model || 'default',
+    }
+  }
+
+  async *streamComplete(params: CompletionParams): AsyncGenerator<CompletionChunk> {
+    const reply = await this.respond(params)
+    const chars = Array.from(reply.content)
+
+    for (let i = 0; i < chars.length; i += CHUNK_CHARS) {
+      if (i > 0 && this.fixtures.chunkDelayMs) {
+        await this.delay(this.fixtures.chunkDelayMs, params.signal)
+      }
+      yield { content: chars.slice(i, i + CHUNK_CHARS).join(''), done: false }
+    }
+    yield { content: '', done: true, usage: reply.usage }
+  }
+
+  getModels(): ModelInfo[] {
+    return []
+  }
+
+  releaseMeeting(meetingId: string): void {
+    this.used.delete(meetingId)
+  }
+
+  /**
+   * Requests received so far, oldest first (empty unless `recordCalls` is set)
+   */
+  getCalls(): MockCall[] {
+    return [...this.calls]
+  }
+
+  private async respond(params: CompletionParams): Promise<{ content: string; usage: NonNullable<CompletionResponse['usage']> }> {
+    const prompt = params.messages.at(-1)?.content || ''
+    const call: MockCall = { role: params.caller?.role, stage: params.caller?.stage, prompt }
+    if (this.options.recordCalls) {
+      this.calls.push(call)
+    }
+
+    const reply = this.takeReply(params)
+    await this.delay(reply?.latencyMs ?? this.fixtures.latencyMs ?? 0, params.signal)
+
+    if (reply?.error) {
+      call.error = reply.error
+      throw new Error(reply.status ? `Mock API error (${reply.status}): ${reply.error}` : `Mock API error: ${reply.error}`)
+    }
+
+    const content = reply?.content ?? this.fixtures.defaultContent
+    if (content === undefined) {
+      call.error = 'no scripted reply'
+      throw new Error(`Mock API error: no scripted reply for ${call.role || 'unknown role'} in ${call.stage || 'unknown stage'}`)
+    }
+    call.reply = content
+
+    const promptTokens = reply?.usage?.promptTokens
+      ?? this.estimateTokens(params.messages.map((m) => m.content).join('\n'), params.model)
+    const completionTokens = reply?.usage?.completionTokens ?? this.estimateTokens(content, params.model)
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    }
+  }
+
+  private takeReply(params: CompletionParams): MockReply | undefined {
+    const caller = params.caller
+    const prompt = params.messages.at(-1)?.content || ''
+    const meetingKey = caller?.meetingId || ''
+    let used = this.used.get(meetingKey)
+    if (!used) {
+      used = new Set()
+      this.used.set(meetingKey, used)
+    }
+
+    const index = this.fixtures.replies.findIndex((reply, i) => {
+      if (used!.has(i)) return false
+      if (reply.role && reply.role.toUpperCase() !== caller?.role) return false
+      if (reply.stage && reply.stage !== caller?.stage && reply.stage !== caller?.stageKind) return false
+      return !reply.includes || prompt.includes(reply.includes)
+    })
+    if (index === -1) return undefined
+
+    const reply = this.fixtures.replies[index]
+    if (!reply.repeat) {
+      used.add(index)
+    }
+    return reply
+  }
+
+  private async delay(ms: number, signal?: AbortSignal): Promise<void> {
+    if (ms <= 0) return
+    await this.withAbort(new Promise((resolve) => setTimeout(resolve, ms)), signal)
+  }
+}
@@ -42,15 +42,16 @@ export class OllamaProvider extends LLMProvider {
     try {
       const messages = this.convertMessages(params.messages)
 
-      const response = await ollama.chat({
+      const response = await this.withAbort(ollama.chat({
         model: params.model || 'llama3.1',
         messages: messages,
         options: {
           temperature: params.temperature ?? 0.7,
           num_predict: params.maxTokens ?? 2000,
+          stop: params.stop,
         },
         stream: false,
-      })
+      }), params.signal)
 
       return {
         content: response.message.content,
@@ -81,9 +82,11 @@ export class OllamaProvider extends LLMProvider {
         options: {
           temperature: params.temperature ?? 0.7,
           num_predict: params.maxTokens ?? 2000,
+          stop: params.stop,
         },
         stream: true,
       })
+      params.signal?.addEventListener('abort', () => stream.abort(), { once: true })
 
       for await (const chunk of stream) {
         if (chunk.done) {
@@ -113,9 +116,9 @@ export class OllamaProvider extends LLMProvider {
     }
   }
 
-  estimateTokens(text: string): number {
-    // Ollama models vary, use character-based estimation
-    return this.estimateTokensByChars(text)
+  // Every Ollama model streams; getModels() would ask the server on each completion
+  supportsStreaming(): boolean {
+    return true
   }
 
   async getModels(): Promise<ModelInfo[]> {
@@ -23,6 +23,7 @@ export class OpenAIProvider extends LLMProvider {
       provider: 'openai',
       contextLength: 128000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 2.5, outputPerMillion: 10 },
     },
     {
       id: 'gpt-4o-mini',
@@ -30,6 +31,7 @@ export class OpenAIProvider extends LLMProvider {
       provider: 'openai',
       contextLength: 128000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 },
     },
     {
       id: 'gpt-4-turbo',
@@ -37,6 +39,7 @@ export class OpenAIProvider extends LLMProvider {
       provider: 'openai',
       contextLength: 128000,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 10, outputPerMillion: 30 },
     },
     {
       id: 'gpt-3.5-turbo',
@@ -44,6 +47,7 @@ export class OpenAIProvider extends LLMProvider {
       provider: 'openai',
       contextLength: 16385,
       supportsStreaming: true,
+      pricing: { inputPerMillion: 0.5, outputPerMillion: 1.5 },
     },
   ]
 
@@ -58,7 +62,8 @@ export class OpenAIProvider extends LLMProvider {
         apiKey,
         baseURL,
         timeout,
-        maxRetries: 3,
+        // Retries happen in the resilience layer (see ../resilience.ts)
+        maxRetries: 0,
       })
     }
   }
@@ -67,17 +72,6 @@ export class OpenAIProvider extends LLMProvider {
     return this.client !== null && !!this.apiKey
   }
 
-  private isRetryableNetworkError(error: unknown): boolean {
-    if (!error || typeof error !== 'object') return false
-    const maybe = error as { code?: string; cause?: { code?: string } }
-    const code = maybe.code || maybe.cause?.code
-    return code === 'ECONNABORTED' || code === 'ECONNRESET' || code === 'ETIMEDOUT'
-  }
-
-  private async sleep(ms: number): Promise<void> {
-    await new Promise((resolve) => setTimeout(resolve, ms))
-  }
-
   private formatError(error: unknown): string {
     if (error instanceof Error) {
       const maybe = error as Error & { code?: string; cause?: { code?: string } }
@@ -92,45 +86,34 @@ export class OpenAIProvider extends LLMProvider {
       throw new Error('OpenAI client not configured. Please set OPENAI_API_KEY.')
     }
 
-    let lastError: unknown
-    const maxAttempts = 3
-
-    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-      try {
-        const response = await this.client.chat.completions.create({
-          model: params.model || 'gpt-4o',
-          messages: params.messages as Array<{ role: string; content: string }>,
-          temperature: params.temperature ?? 0.7,
-          max_tokens: params.maxTokens ?? 2000,
-        })
+    try {
+      const response = await this.client.chat.completions.create({
+        model: params.model || 'gpt-4o',
+        messages: params.messages as Array<{ role: string; content: string }>,
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens ?? 2000,
+        ...(params.stop?.length ? { stop: params.stop } : {}),
+      }, { signal: params.signal })
 
-        const choice = response.choices[0]
-        if (!choice) {
-          throw new Error('No response from OpenAI')
-        }
+      const choice = response.choices[0]
+      if (!choice) {
+        throw new Error('No response from OpenAI')
+      }
 
-        return {
-          content: choice.message.content || '',
-          usage: response.usage
-            ? {
-                promptTokens: response.usage.prompt_tokens,
-                completionTokens: response.usage.completion_tokens,
-                totalTokens: response.usage.total_tokens,
-              }
-            : undefined,
-          model: response.model,
-        }
-      } catch (error) {
-        lastError = error
-        if (!this.isRetryableNetworkError(error) || attempt === maxAttempts) {
-          break
-        }
-        // Network jitter on upstream providers is common; retry with backoff.
-        await this.sleep(300 * attempt)
+      return {
+        content: choice.message.content || '',
+        usage: response.usage
+          ? {
+              promptTokens: response.usage.prompt_tokens,
+              completionTokens: response.usage.completion_tokens,
+              totalTokens: response.usage.total_tokens,
+            }
+          : undefined,
+        model: response.model,
       }
+    } catch (error) {
+      throw new Error(`OpenAI API error: ${this.formatError(error)}`)
     }
-
-    throw new Error(`OpenAI API error: ${this.formatError(lastError)}`)
   }
 
   async *streamComplete(params: CompletionParams): AsyncGenerator<CompletionChunk> {
@@ -144,8 +127,9 @@ export class OpenAIProvider extends LLMProvider {
         messages: params.messages as Array<{ role: string; content: string }>,
         temperature: params.temperature ?? 0.7,
         max_tokens: params.maxTokens ?? 2000,
+        ...(params.stop?.length ? { stop: params.stop } : {}),
         stream: true,
-      })
+      }, { signal: params.signal })
 
       for await (const chunk of stream) {
         const delta = chunk.choices[0]?.delta?.content || ''
@@ -162,12 +146,6 @@ export class OpenAIProvider extends LLMProvider {
     }
   }
 
-  estimateTokens(text: string): number {
-    // OpenAI uses tiktoken for accurate tokenization
-    // For now, use character-based estimation
-    return this.estimateTokensByChars(text)
-  }
-
   getModels(): ModelInfo[] {
     return this.models
   }
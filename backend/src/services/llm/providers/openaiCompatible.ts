@@ -0,0 +1,213 @@
+/**
+ * OpenAI-compatible Provider Implementation
+ * Any server exposing OpenAI-style `/chat/completions` (Qwen, Moonshot,
+ * vLLM, LM Studio, ...). GLM and DeepSeek are preset endpoints of it.
+ */
+
+import type {
+  CompletionMessage,
+  CompletionParams,
+  CompletionResponse,
+  CompletionChunk,
+  ModelInfo,
+} from './base.js'
+import { LLMProvider } from './base.js'
+
+export interface OpenAICompatibleConfig {
+  /** Display name used in errors and model lists */
+  name: string
+  baseURL: string
+  apiKey?: string
+  /** Key a hosted service needs; local servers usually run without one */
+  requiresKey?: boolean
+  /** Where the key is configured, shown when it is missing */
+  keyHint?: string
+  /** Extra request headers, e.g. an organization id */
+  headers?: Record<string, string>
+  /** The first model is used when a request names none */
+  models: ModelInfo[]
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+interface ChatUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+interface ChatResponse {
+  choices: Array<{
+    message: {
+      content: string
+    }
+    finish_reason: string
+  }>
+  usage?: ChatUsage
+  model: string
+}
+
+interface ChatStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string
+    }
+    finish_reason: string | null
+  }>
+  usage?: ChatUsage
+}
+
+function toUsage(usage?: ChatUsage): CompletionResponse['usage'] {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined
+}
+
+export class OpenAICompatibleProvider extends LLMProvider {
+  readonly name: string
+  readonly type: LLMProvider['type'] = 'openai-compatible'
+  private apiKey?: string
+  private baseURL: string
+  private config: OpenAICompatibleConfig
+
+  constructor(config: OpenAICompatibleConfig) {
+    super()
+    this.name = config.name
+    this.apiKey = config.apiKey
+    this.baseURL = config.baseURL.replace(/\/+$/, '')
+    this.config = config
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseURL) && (!this.config.requiresKey || Boolean(this.apiKey))
+  }
+
+  private convertMessages(messages: CompletionMessage[]): ChatMessage[] {
+    return messages.map((msg) => ({
+      role: msg.role as 'system' | 'user' | 'assistant',
+      content: msg.content,
+    }))
+  }
+
+  private async request(params: CompletionParams, stream: boolean): Promise<Response> {
+    if (!this.isConfigured()) {
+      const hint = this.config.keyHint ? ` Please set ${this.config.keyHint}.` : ''
+      throw new Error(`${this.name} API key not configured.${hint}`)
+    }
+
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...this.config.headers,
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: params.model || this.config.models[0]?.id,
+        messages: this.convertMessages(params.messages),
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens ?? 2000,
+        ...(params.stop?.length ? { stop: params.stop } : {}),
+        stream,
+      }),
+      signal: params.signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`${this.name} API error (${response.status}): ${errorText}`)
+    }
+    return response
+  }
+
+  async complete(params: CompletionParams): Promise<CompletionResponse> {
+    try {
+      const response = await this.request(params, false)
+      const data = (await response.json()) as ChatResponse
+
+      const choice = data.choices?.[0]
+      if (!choice) {
+        throw new Error(`No response from ${this.name}`)
+      }
+
+      return {
+        content: choice.message.content,
+        usage: toUsage(data.usage),
+        model: data.model || params.model || this.config.models[0]?.id || '',
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`${this.name} API error: ${error.message}`)
+      }
+      throw error
+    }
+  }
+
+  async *streamComplete(params: CompletionParams): AsyncGenerator<CompletionChunk> {
+    try {
+      const response = await this.request(params, true)
+
+      const reader = response.body?.getReader()
+      if (!reader) {
+        throw new Error('No response body')
+      }
+
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          const trimmed = line.trim()
+          if (!trimmed || !trimmed.startsWith('data:')) continue
+
+          const data = trimmed.slice(5).trim()
+          if (data === '[DONE]') {
+            yield { content: '', done: true }
+            continue
+          }
+
+          let chunk: ChatStreamChunk
+          try {
+            chunk = JSON.parse(data)
+          } catch {
+            // Skip invalid JSON
+            continue
+          }
+
+          const content = chunk.choices?.[0]?.delta?.content
+          // Servers may report usage on a final chunk without content
+          if (content || chunk.usage) {
+            yield {
+              content: content || '',
+              done: (chunk.choices?.[0]?.finish_reason ?? null) !== null,
+              usage: toUsage(chunk.usage),
+            }
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`${this.name} streaming error: ${error.message}`)
+      }
+      throw error
+    }
+  }
+
+  getModels(): ModelInfo[] {
+    return this.config.models
+  }
+}
@@ -0,0 +1,360 @@
+import { LLMProvider } from './providers/base.js'
+import type { CompletionChunk, CompletionParams, CompletionResponse, ModelInfo, ProviderId } from './providers/base.js'
+
+/**
+ * Retry, timeout and circuit-breaker settings shared by all providers
+ */
+export interface ResiliencePolicy {
+  /** Retries after the first attempt, for 429/5xx, timeouts and network errors */
+  maxRetries: number
+  /** Backoff before the first retry; doubles with every further retry */
+  baseDelayMs: number
+  maxDelayMs: number
+  /** Per-attempt timeout; for streams, the longest wait for the next chunk */
+  timeoutMs: number
+  /** Consecutive failed attempts that open a provider's circuit */
+  failureThreshold: number
+  /** How long an open circuit rejects requests before letting a probe through */
+  cooldownMs: number
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 60000,
+  failureThreshold: 5,
+  cooldownMs: 30000,
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(readonly provider: string, readonly timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs}ms`)
+    this.name = 'ProviderTimeoutError'
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly provider: string, readonly retryInMs: number) {
+    super(`${provider} circuit is open after repeated failures, retry in ${Math.ceil(retryInMs / 1000)}s`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+const NETWORK_ERROR_CODES = ['ECONNABORTED', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']
+// Providers rethrow network failures as plain errors, keeping only the message
+const NETWORK_ERROR_PATTERN = new RegExp(['fetch failed', 'socket hang up', 'connection error', ...NETWORK_ERROR_CODES].join('|'), 'i')
+
+/**
+ * HTTP status of a provider error
+ * SDK errors carry `status`; the fetch-based providers only put it in the message.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined
+  const maybe = error as { status?: unknown; cause?: { status?: unknown }; message?: unknown }
+  const status = maybe.status ?? maybe.cause?.status
+  if (typeof status === 'number') return status
+
+  const match = typeof maybe.message === 'string'
+    ? maybe.message.match(/\((\d{3})\)|(?:^|error: )(\d{3})\b/)
+    : null
+  return match ? Number(match[1] || match[2]) : undefined
+}
+
+/**
+ * Whether another attempt at the same provider may succeed
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderTimeoutError) return true
+  if (error instanceof CircuitOpenError) return false
+
+  const status = getErrorStatus(error)
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500
+  }
+
+  const maybe = error as { code?: string; cause?: { code?: string }; message?: string } | undefined
+  const code = maybe?.code || maybe?.cause?.code
+  if (code && NETWORK_ERROR_CODES.includes(code)) return true
+  return NETWORK_ERROR_PATTERN.test(maybe?.message || '')
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), with up to 50% jitter
+ */
+export function getBackoffDelay(attempt: number, policy: ResiliencePolicy, random = Math.random): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.round(delay / 2 + (delay / 2) * random())
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+/**
+ * Circuit breaker for one provider
+ *
+ * After `failureThreshold` consecutive failed attempts the circuit opens and
+ * requests fail fast. Once `cooldownMs` has passed one probe is let through:
+ * success closes the circuit, failure opens it again, and a probe the caller
+ * gave up on frees the slot for the next request.
+ */
+export class CircuitBreaker {
+  private failures = 0
+  private openedAt: number | null = null
+  private probing = false
+
+  constructor(
+    private failureThreshold: number,
+    private cooldownMs: number,
+    private now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed'
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half_open' : 'open'
+  }
+
+  /**
+   * Throws CircuitOpenError unless a request may go out now
+   */
+  acquire(provider: string): void {
+    const state = this.state
+    if (state === 'closed') return
+    if (state === 'half_open' && !this.probing) {
+      this.probing = true
+      return
+    }
+    const retryInMs = state === 'open' ? this.cooldownMs - (this.now() - this.openedAt!) : this.cooldownMs
+    throw new CircuitOpenError(provider, retryInMs)
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+    this.openedAt = null
+    this.probing = false
+  }
+
+  recordFailure(): void {
+    this.failures += 1
+    if (this.probing || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now()
+    }
+    this.probing = false
+  }
+
+  /**
+   * End an acquired request that says nothing about the provider's health
+   */
+  release(): void {
+    this.probing = false
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Error('Request aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Abort controller for one attempt that also follows the caller's signal
+ */
+function linkAbort(parent?: AbortSignal): { controller: AbortController; unlink: () => void } {
+  const controller = new AbortController()
+  const onAbort = () => controller.abort()
+  if (parent?.aborted) {
+    controller.abort()
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true })
+  }
+  return { controller, unlink: () => parent?.removeEventListener('abort', onAbort) }
+}
+
+/**
+ * Wraps a provider with per-attempt timeouts, exponential backoff on
+ * transient errors and its provider's circuit breaker
+ * `id` names the provider in errors; user endpoints share one `type`.
+ */
+export class ResilientProvider extends LLMProvider {
+  readonly name: string
+  readonly type: LLMProvider['type']
+
+  constructor(
+    private inner: LLMProvider,
+    private breaker: CircuitBreaker,
+    private policy: ResiliencePolicy = DEFAULT_RESILIENCE_POLICY,
+    private id: ProviderId = inner.type
+  ) {
+    super()
+    this.name = inner.name
+    this.type = inner.type
+  }
+
+  async complete(params: CompletionParams): Promise<CompletionResponse> {
+    for (let attempt = 0; ; attempt += 1) {
+      this.breaker.acquire(this.id)
+      const { controller, unlink } = linkAbort(params.signal)
+      try {
+        const response = await this.withDeadline(this.inner.complete({ ...params, signal: controller.signal }), controller)
+        this.breaker.recordSuccess()
+        return response
+      } catch (error) {
+        await this.handleFailure(error, attempt, params.signal)
+      } finally {
+        unlink()
+      }
+    }
+  }
+
+  /**
+   * Only a stream that fails before its first chunk is retried; output that
+   * already reached the caller cannot be taken back
+   */
+  async *streamComplete(params: CompletionParams): AsyncGenerator<CompletionChunk> {
+    for (let attempt = 0; ; attempt += 1) {
+      this.breaker.acquire(this.id)
+      const { controller, unlink } = linkAbort(params.signal)
+      const iterator = this.inner.streamComplete({ ...params, signal: controller.signal })
+      let started = false
+      let finished = false
+      let recorded = false
+      try {
+        while (true) {
+          const next = await this.withDeadline(iterator.next(), controller)
+          if (next.done) break
+          started = true
+          yield next.value
+        }
+        finished = true
+        recorded = true
+        this.breaker.recordSuccess()
+        return
+      } catch (error) {
+        if (started) {
+          if (isRetryableError(error) && !params.signal?.aborted) {
+            recorded = true
+            this.breaker.recordFailure()
+          }
+          throw error
+        }
+        recorded = true
+        await this.handleFailure(error, attempt, params.signal)
+      } finally {
+        // Stop the upstream request when the caller stops reading early
+        if (!finished) controller.abort()
+        if (!recorded) this.breaker.release()
+        unlink()
+      }
+    }
+  }
+
+  supportsStreaming(model?: string): boolean {
+    return this.inner.supportsStreaming(model)
+  }
+
+  estimateTokens(text: string, model?: string): number {
+    return this.inner.estimateTokens(text, model)
+  }
+
+  getModels(): ModelInfo[] {
+    return this.inner.getModels()
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  releaseMeeting(meetingId: string): void {
+    this.inner.releaseMeeting(meetingId)
+  }
+
+  /**
+   * Rethrows unless the error is transient and retries are left, then backs off
+   */
+  private async handleFailure(error: unknown, attempt: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      // Cancelled by the caller, which says nothing about the provider
+      this.breaker.release()
+      throw error
+    }
+
+    if (!isRetryableError(error)) {
+      // The provider answered, so it is reachable
+      this.breaker.recordSuccess()
+      throw error
+    }
+
+    this.breaker.recordFailure()
+    if (attempt >= this.policy.maxRetries) throw error
+
+    const delay = getBackoffDelay(attempt, this.policy)
+    console.warn(`${this.name} request failed (${error instanceof Error ? error.message : error}), retrying in ${delay}ms`)
+    await sleep(delay, signal)
+  }
+
+  private withDeadline<T>(promise: Promise<T>, controller: AbortController): Promise<T> {
+    if (this.policy.timeoutMs <= 0) return promise
+
+    let timer: ReturnType<typeof setTimeout>
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort()
+        reject(new ProviderTimeoutError(this.id, this.policy.timeoutMs))
+      }, this.policy.timeoutMs)
+    })
+    return Promise.race([promise, deadline]).finally(() => clearTimeout(timer))
+  }
+}
+
+function parseSetting(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+/**
+ * Policy from LLM_MAX_RETRIES, LLM_RETRY_BASE_MS, LLM_TIMEOUT_MS (0 disables),
+ * LLM_BREAKER_THRESHOLD and LLM_BREAKER_COOLDOWN_MS
+ */
+export function resolveResiliencePolicy(): ResiliencePolicy {
+  const defaults = DEFAULT_RESILIENCE_POLICY
+  return {
+    maxRetries: parseSetting(process.env.LLM_MAX_RETRIES) ?? defaults.maxRetries,
+    baseDelayMs: parseSetting(process.env.LLM_RETRY_BASE_MS) ?? defaults.baseDelayMs,
+    maxDelayMs: defaults.maxDelayMs,
+    timeoutMs: parseSetting(process.env.LLM_TIMEOUT_MS) ?? defaults.timeoutMs,
+    failureThreshold: Math.max(1, parseSetting(process.env.LLM_BREAKER_THRESHOLD) ?? defaults.failureThreshold),
+    cooldownMs: parseSetting(process.env.LLM_BREAKER_COOLDOWN_MS) ?? defaults.cooldownMs,
+  }
+}
+
+const breakers: Map<string, CircuitBreaker> = new Map()
+
+/**
+ * The circuit breaker shared by every model of a provider
+ */
+export function getCircuitBreaker(provider: string, policy: ResiliencePolicy = resolveResiliencePolicy()): CircuitBreaker {
+  let breaker = breakers.get(provider)
+  if (!breaker) {
+    breaker = new CircuitBreaker(policy.failureThreshold, policy.cooldownMs)
+    breakers.set(provider, breaker)
+  }
+  return breaker
+}
+
+/**
+ * State of every provider circuit that has seen a request
+ */
+export function getCircuitStates(): Record<string, CircuitState> {
+  return Object.fromEntries(Array.from(breakers, ([provider, breaker]) => [provider, breaker.state]))
+}
@@ -0,0 +1,278 @@
+import { emitMeetingEvent } from '../orchestrator/meetingEvents.js'
+
+/**
+ * How a completion should be scheduled
+ */
+export interface ScheduleOptions {
+  /** Provider type, used to pick the concurrency pool */
+  provider: string
+  /** Tasks of one meeting start in submission order */
+  meetingId?: string
+  /** May overlap other parallel tasks of the same meeting (e.g. blind speeches) */
+  parallel?: boolean
+  /** Role or purpose, for status reporting */
+  label?: string
+}
+
+export interface ProviderQueueStats {
+  limit: number
+  active: number
+  queued: number
+  averageWaitMs: number
+}
+
+export interface MeetingQueueStatus {
+  meetingId: string
+  pending: number
+  waiting: number
+  longestWaitMs: number
+}
+
+interface Waiter {
+  meetingId?: string
+  label?: string
+  enqueuedAt: number
+  start: () => void
+}
+
+interface ProviderPool {
+  limit: number
+  active: number
+  waiting: Waiter[]
+  served: number
+  totalWaitMs: number
+}
+
+interface MeetingLane {
+  // Settles when the last ordered task has finished
+  barrier: Promise<void>
+  // Parallel tasks started since the last ordered task
+  shared: Promise<void>[]
+  pending: number
+}
+
+const DEFAULT_PROVIDER_LIMITS: Record<string, number> = {
+  // A local Ollama instance usually serves one generation at a time
+  ollama: 1,
+}
+
+/**
+ * Concurrency scheduler for LLM completions
+ *
+ * Each provider has a pool with a fixed number of slots; tasks wait FIFO for a
+ * slot. Within a meeting, ordered tasks act as barriers: they start only after
+ * everything submitted before them has finished, while parallel tasks only wait
+ * for the preceding ordered task.
+ */
+export class CompletionScheduler {
+  private pools: Map<string, ProviderPool> = new Map()
+  private lanes: Map<string, MeetingLane> = new Map()
+
+  constructor(
+    private limits: Record<string, number> = {},
+    private defaultLimit = 2
+  ) {}
+
+  schedule<T>(options: ScheduleOptions, task: () => Promise<T>): Promise<T> {
+    if (!options.meetingId) {
+      return this.runWithSlot(options, task)
+    }
+
+    const lane = this.getLane(options.meetingId)
+    const ready = options.parallel
+      ? lane.barrier
+      : Promise.all([lane.barrier, ...lane.shared]).then(() => undefined)
+
+    lane.pending += 1
+    const result = ready.then(() => this.runWithSlot(options, task))
+    const settled = result.then(
+      () => undefined,
+      () => undefined
+    )
+
+    if (options.parallel) {
+      lane.shared.push(settled)
+    } else {
+      lane.barrier = settled
+      lane.shared = []
+    }
+
+    settled.then(() => {
+      lane.pending -= 1
+      if (lane.pending === 0 && this.lanes.get(options.meetingId!) === lane) {
+        this.lanes.delete(options.meetingId!)
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Snapshot of every provider pool
+   */
+  getStats(): Record<string, ProviderQueueStats> {
+    const stats: Record<string, ProviderQueueStats> = {}
+    for (const [provider, pool] of this.pools) {
+      stats[provider] = {
+        limit: pool.limit,
+        active: pool.active,
+        queued: pool.waiting.length,
+        averageWaitMs: pool.served > 0 ? Math.round(pool.totalWaitMs / pool.served) : 0,
+      }
+    }
+    return stats
+  }
+
+  /**
+   * Queue status of one meeting across all providers
+   */
+  getMeetingStatus(meetingId: string): MeetingQueueStatus {
+    const now = Date.now()
+    let waiting = 0
+    let longestWaitMs = 0
+
+    for (const pool of this.pools.values()) {
+      for (const waiter of pool.waiting) {
+        if (waiter.meetingId !== meetingId) continue
+        waiting += 1
+        longestWaitMs = Math.max(longestWaitMs, now - waiter.enqueuedAt)
+      }
+    }
+
+    return {
+      meetingId,
+      pending: this.lanes.get(meetingId)?.pending || 0,
+      waiting,
+      longestWaitMs,
+    }
+  }
+
+  private async runWithSlot<T>(options: ScheduleOptions, task: () => Promise<T>): Promise<T> {
+    const pool = this.getPool(options.provider)
+    await this.acquire(pool, options)
+
+    try {
+      return await task()
+    } finally {
+      this.release(pool)
+    }
+  }
+
+  private acquire(pool: ProviderPool, options: ScheduleOptions): Promise<void> {
+    const enqueuedAt = Date.now()
+
+    if (pool.active < pool.limit) {
+      pool.active += 1
+      pool.served += 1
+      return Promise.resolve()
+    }
+
+    if (options.meetingId) {
+      emitMeetingEvent({
+        type: 'QUEUE_STATUS',
+        meetingId: options.meetingId,
+        provider: options.provider,
+        role: options.label,
+        waiting: true,
+        queueDepth: pool.waiting.length + 1,
+        waitMs: 0,
+      })
+    }
+
+    return new Promise((resolve) => {
+      pool.waiting.push({
+        meetingId: options.meetingId,
+        label: options.label,
+        enqueuedAt,
+        start: () => {
+          const waitMs = Date.now() - enqueuedAt
+          pool.served += 1
+          pool.totalWaitMs += waitMs
+
+          if (options.meetingId) {
+            emitMeetingEvent({
+              type: 'QUEUE_STATUS',
+              meetingId: options.meetingId,
+              provider: options.provider,
+              role: options.label,
+              waiting: false,
+              queueDepth: pool.waiting.length,
+              waitMs,
+            })
+          }
+          resolve()
+        },
+      })
+    })
+  }
+
+  private release(pool: ProviderPool): void {
+    const next = pool.waiting.shift()
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next.start()
+    } else {
+      pool.active -= 1
+    }
+  }
+
+  private getPool(provider: string): ProviderPool {
+    let pool = this.pools.get(provider)
+    if (!pool) {
+      pool = {
+        limit: Math.max(1, this.limits[provider] ?? this.defaultLimit),
+        active: 0,
+        waiting: [],
+        served: 0,
+        totalWaitMs: 0,
+      }
+      this.pools.set(provider, pool)
+    }
+    return pool
+  }
+
+  private getLane(meetingId: string): MeetingLane {
+    let lane = this.lanes.get(meetingId)
+    if (!lane) {
+      lane = { barrier: Promise.resolve(), shared: [], pending: 0 }
+      this.lanes.set(meetingId, lane)
+    }
+    return lane
+  }
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+/**
+ * Per-provider limits from LLM_CONCURRENCY_<PROVIDER>, e.g. LLM_CONCURRENCY_OPENAI=4
+ */
+function resolveProviderLimits(): Record<string, number> {
+  const limits: Record<string, number> = { ...DEFAULT_PROVIDER_LIMITS }
+  const prefix = 'LLM_CONCURRENCY_'
+
+  for (const [name, value] of Object.entries(process.env)) {
+    if (!name.startsWith(prefix)) continue
+    const limit = parseLimit(value)
+    if (limit) {
+      limits[name.slice(prefix.length).toLowerCase()] = limit
+    }
+  }
+
+  return limits
+}
+
+// Singleton instance
+let schedulerInstance: CompletionScheduler | null = null
+
+export function getCompletionScheduler(): CompletionScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new CompletionScheduler(
+      resolveProviderLimits(),
+      parseLimit(process.env.LLM_CONCURRENCY) ?? 2
+    )
+  }
+  return schedulerInstance
+}
@@ -0,0 +1,92 @@
+import { getEncoding, type Tiktoken } from 'js-tiktoken'
+
+/**
+ * BPE encodings bundled with js-tiktoken (no network access needed)
+ */
+export type TokenEncoding = 'o200k_base' | 'cl100k_base'
+
+// First matching prefix wins, so longer ids come before their shorter stems
+const MODEL_ENCODINGS: Array<[prefix: string, encoding: TokenEncoding]> = [
+  ['gpt-4o', 'o200k_base'],
+  ['chatgpt-4o', 'o200k_base'],
+  ['gpt-4.1', 'o200k_base'],
+  ['gpt-4.5', 'o200k_base'],
+  ['gpt-5', 'o200k_base'],
+  ['o1', 'o200k_base'],
+  ['o3', 'o200k_base'],
+  ['o4', 'o200k_base'],
+  ['gpt-4', 'cl100k_base'],
+  ['gpt-3.5', 'cl100k_base'],
+  ['text-embedding', 'cl100k_base'],
+  // Claude's tokenizer is not public; cl100k_base is the closest offline match
+  ['claude', 'cl100k_base'],
+]
+
+// GLM, DeepSeek, Qwen and Llama tokenizers are not bundled either; o200k_base's
+// large multilingual vocabulary comes closest to them on Chinese text
+const DEFAULT_ENCODING: TokenEncoding = 'o200k_base'
+
+const CACHE_LIMIT = 2000
+
+/**
+ * Offline token counter with per-model encodings
+ * Encodings load on first use; counts of recently seen texts are cached
+ * since meeting history is re-counted before every turn.
+ */
+export class Tokenizer {
+  private encoders: Map<TokenEncoding, Tiktoken> = new Map()
+  private cache: Map<string, number> = new Map()
+
+  /**
+   * Encoding used for a model id (e.g. "gpt-4o", "openai/gpt-4o")
+   * Unknown or omitted models use the default encoding.
+   */
+  getEncodingName(model?: string): TokenEncoding {
+    const id = model?.toLowerCase().split('/').pop() || ''
+    return MODEL_ENCODINGS.find(([prefix]) => id.startsWith(prefix))?.[1] || DEFAULT_ENCODING
+  }
+
+  count(model: string | undefined, text: string): number {
+    if (!text) return 0
+
+    const encoding = this.getEncodingName(model)
+    const key = `${encoding}:${text}`
+    const cached = this.cache.get(key)
+    if (cached !== undefined) return cached
+
+    // Special-token markers in user text are counted as plain text
+    const tokens = this.getEncoder(encoding).encode(text, [], []).length
+    if (this.cache.size >= CACHE_LIMIT) {
+      this.cache.clear()
+    }
+    this.cache.set(key, tokens)
+    return tokens
+  }
+
+  private getEncoder(encoding: TokenEncoding): Tiktoken {
+    let encoder = this.encoders.get(encoding)
+    if (!encoder) {
+      encoder = getEncoding(encoding)
+      this.encoders.set(encoding, encoder)
+    }
+    return encoder
+  }
+}
+
+// Singleton instance
+let tokenizerInstance: Tokenizer | null = null
+
+export function getTokenizer(): Tokenizer {
+  if (!tokenizerInstance) {
+    tokenizerInstance = new Tokenizer()
+  }
+  return tokenizerInstance
+}
+
+/**
+ * Count the tokens `text` takes for `model`
+ * Pass no model for budgets that are not tied to one (e.g. memory context).
+ */
+export function countTokens(model: string | undefined, text: string): number {
+  return getTokenizer().count(model, text)
+}
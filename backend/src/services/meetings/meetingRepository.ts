@@ -0,0 +1,219 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { existsSync } from 'fs'
+import { fileURLToPath } from 'node:url'
+import type { Meeting } from '../../models/index.js'
+
+/**
+ * Runtime-only flags set by the controllers while a meeting is being processed.
+ * They describe the current process, so they are never written to disk.
+ */
+const TRANSIENT_KEYS = ['isProcessing', 'isUserContinuationRunning', 'pendingUserResponses'] as const
+
+/**
+ * Storage abstraction for meetings
+ *
+ * Reads are synchronous and served from an in-memory index so routes and the
+ * WebSocket handler can look meetings up cheaply; writes are persisted by the
+ * backing implementation.
+ */
+export interface MeetingRepository {
+  initialize(): Promise<void>
+  get(id: string): Meeting | undefined
+  has(id: string): boolean
+  list(): Meeting[]
+  save(meeting: Meeting): Promise<void>
+  delete(id: string): Promise<boolean>
+}
+
+/**
+ * Process-local repository, used for tests and ephemeral deployments
+ */
+export class InMemoryMeetingRepository implements MeetingRepository {
+  protected meetings: Map<string, Meeting> = new Map()
+
+  async initialize(): Promise<void> {}
+
+  get(id: string): Meeting | undefined {
+    return this.meetings.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.meetings.has(id)
+  }
+
+  list(): Meeting[] {
+    return Array.from(this.meetings.values())
+  }
+
+  async save(meeting: Meeting): Promise<void> {
+    this.meetings.set(meeting.id, meeting)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.meetings.delete(id)
+  }
+}
+
+/**
+ * File-backed repository - one JSON document per meeting
+ */
+export class FileMeetingRepository extends InMemoryMeetingRepository {
+  private writeChains: Map<string, Promise<void>> = new Map()
+  private initialized = false
+
+  constructor(private baseDir: string) {
+    super()
+  }
+
+  /**
+   * Load all meetings from disk and flag the ones a crash left running
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+    this.initialized = true
+
+    await fs.mkdir(this.baseDir, { recursive: true })
+    const files = await fs.readdir(this.baseDir)
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+
+      try {
+        const raw = await fs.readFile(path.join(this.baseDir, file), 'utf-8')
+        const meeting = JSON.parse(raw) as Meeting
+        this.meetings.set(meeting.id, meeting)
+      } catch (error) {
+        console.error(`Failed to load meeting file ${file}:`, error)
+      }
+    }
+
+    for (const meeting of this.meetings.values()) {
+      if (meeting.status === 'running' || meeting.status === 'awaiting_user') {
+        this.markInterrupted(meeting)
+        await this.save(meeting)
+      }
+    }
+  }
+
+  /**
+   * Update the index and persist the meeting
+   * Writes for the same meeting are chained so a slow write can never
+   * overwrite a newer snapshot.
+   */
+  async save(meeting: Meeting): Promise<void> {
+    this.meetings.set(meeting.id, meeting)
+
+    const previous = this.writeChains.get(meeting.id) || Promise.resolve()
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.writeAtomic(meeting))
+    this.writeChains.set(meeting.id, next)
+
+    try {
+      await next
+    } finally {
+      if (this.writeChains.get(meeting.id) === next) {
+        this.writeChains.delete(meeting.id)
+      }
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existed = this.meetings.delete(id)
+
+    await (this.writeChains.get(id) || Promise.resolve()).catch(() => undefined)
+
+    try {
+      await fs.unlink(this.getMeetingPath(id))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+    }
+
+    return existed
+  }
+
+  /**
+   * Write to a temp file then rename over the target, so readers never see
+   * a partially written document
+   */
+  private async writeAtomic(meeting: Meeting): Promise<void> {
+    const filePath = this.getMeetingPath(meeting.id)
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+
+    await fs.mkdir(this.baseDir, { recursive: true })
+    await fs.writeFile(tempPath, this.serialize(meeting), 'utf-8')
+    try {
+      await fs.rename(tempPath, filePath)
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined)
+      throw error
+    }
+  }
+
+  private serialize(meeting: Meeting): string {
+    const snapshot: Record<string, unknown> = { ...meeting }
+    for (const key of TRANSIENT_KEYS) {
+      delete snapshot[key]
+    }
+    return JSON.stringify(snapshot, null, 2)
+  }
+
+  private markInterrupted(meeting: Meeting): void {
+    const now = new Date().toISOString()
+    meeting.status = 'interrupted'
+    meeting.interruptedAt = now
+    meeting.error = '服务重启，会议在运行中被中断'
+    meeting.messages.push({
+      id: `msg-${Date.now()}-interrupted`,
+      timestamp: now,
+      role: 'SYSTEM',
+      type: 'system',
+      content: '会议因服务重启而中断',
+    })
+  }
+
+  private getMeetingPath(id: string): string {
+    // Meeting ids are generated server-side, but never trust them as path segments
+    const safeId = id.replace(/[^a-zA-Z0-9_-]/g, '_')
+    return path.join(this.baseDir, `${safeId}.json`)
+  }
+}
+
+function resolveMeetingsDir(): string {
+  if (process.env.MEETINGS_DIR) {
+    return process.env.MEETINGS_DIR
+  }
+
+  if (existsSync('./data')) {
+    return path.resolve('./data/meetings')
+  }
+
+  if (existsSync('./backend/data')) {
+    return path.resolve('./backend/data/meetings')
+  }
+
+  const currentDir = path.dirname(fileURLToPath(import.meta.url))
+  return path.resolve(currentDir, '../../../data/meetings')
+}
+
+// Singleton instance
+let repositoryInstance: MeetingRepository | null = null
+
+export function getMeetingRepository(): MeetingRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = process.env.MEETING_STORE === 'memory'
+      ? new InMemoryMeetingRepository()
+      : new FileMeetingRepository(resolveMeetingsDir())
+  }
+  return repositoryInstance
+}
+
+/**
+ * Swap the repository implementation (e.g. for tests or another backend)
+ */
+export function setMeetingRepository(repository: MeetingRepository): void {
+  repositoryInstance = repository
+}
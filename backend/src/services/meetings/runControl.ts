@@ -0,0 +1,138 @@
+/**
+ * Thrown when work is attempted for a meeting that has been cancelled
+ */
+export class MeetingCancelledError extends Error {
+  constructor(meetingId: string) {
+    super(`Meeting ${meetingId} was cancelled`)
+    this.name = 'MeetingCancelledError'
+  }
+}
+
+/**
+ * Rejected control request (wrong meeting state, nothing running, ...)
+ * `status` is the HTTP status the routes respond with.
+ */
+export class MeetingControlError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'MeetingControlError'
+  }
+}
+
+/**
+ * Control handle for one active run of a meeting
+ * Cancelling aborts the signal passed to in-flight provider requests; a pause
+ * request is only honoured by the runner at the next stage boundary.
+ */
+export class MeetingRunControl {
+  private controller = new AbortController()
+  private pauseRequested = false
+  private answerWaiter: ((answer: string | null) => void) | null = null
+
+  constructor(readonly meetingId: string) {}
+
+  get signal(): AbortSignal {
+    return this.controller.signal
+  }
+
+  get isCancelled(): boolean {
+    return this.controller.signal.aborted
+  }
+
+  get isPauseRequested(): boolean {
+    return this.pauseRequested
+  }
+
+  get isAwaitingUser(): boolean {
+    return this.answerWaiter !== null
+  }
+
+  requestPause(): void {
+    this.pauseRequested = true
+  }
+
+  cancel(): void {
+    this.controller.abort()
+  }
+
+  throwIfCancelled(): void {
+    if (this.isCancelled) {
+      throw new MeetingCancelledError(this.meetingId)
+    }
+  }
+
+  /**
+   * Block until the user answers, resolving null once the timeout passes
+   * Rejects with MeetingCancelledError if the meeting is cancelled meanwhile.
+   */
+  waitForUserAnswer(timeoutMs: number): Promise<string | null> {
+    this.throwIfCancelled()
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        this.answerWaiter = null
+        reject(new MeetingCancelledError(this.meetingId))
+      }
+      const settle = (answer: string | null) => {
+        clearTimeout(timer)
+        this.signal.removeEventListener('abort', onAbort)
+        this.answerWaiter = null
+        resolve(answer)
+      }
+      const timer = setTimeout(() => settle(null), timeoutMs)
+
+      this.answerWaiter = settle
+      this.signal.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  /**
+   * Hand the user's answer to a waiting run
+   * Returns false when the run is not waiting for one.
+   */
+  answerUser(answer: string): boolean {
+    if (!this.answerWaiter) {
+      return false
+    }
+    this.answerWaiter(answer)
+    return true
+  }
+}
+
+/**
+ * Registry of meetings currently being run by this process
+ */
+export class MeetingRunRegistry {
+  private controls: Map<string, MeetingRunControl> = new Map()
+
+  start(meetingId: string): MeetingRunControl {
+    const control = new MeetingRunControl(meetingId)
+    this.controls.set(meetingId, control)
+    return control
+  }
+
+  get(meetingId: string): MeetingRunControl | undefined {
+    return this.controls.get(meetingId)
+  }
+
+  /**
+   * Drop the control once its run has ended
+   * A newer run of the same meeting keeps its own control.
+   */
+  end(meetingId: string, control: MeetingRunControl): void {
+    if (this.controls.get(meetingId) === control) {
+      this.controls.delete(meetingId)
+    }
+  }
+}
+
+// Singleton instance
+let registryInstance: MeetingRunRegistry | null = null
+
+export function getMeetingRunRegistry(): MeetingRunRegistry {
+  if (!registryInstance) {
+    registryInstance = new MeetingRunRegistry()
+  }
+  return registryInstance
+}
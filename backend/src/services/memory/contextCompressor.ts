@@ -1,5 +1,6 @@
 import type { Message, Meeting } from '../../models/index.js'
 import type { CompressedMessage } from './types.js'
+import { countTokens } from '../llm/tokenizer.js'
 
 /**
  * Context Compressor - Compresses long message history
@@ -143,17 +144,11 @@ export class ContextCompressor {
   }
 
   /**
-   * Estimate total tokens
+   * Count total tokens
+   * The history is shared by every role, so no single model's encoding applies.
    */
   private estimateTotalTokens(messages: Message[]): number {
-    return messages.reduce((sum, m) => sum + this.estimateTokens(m.content), 0)
-  }
-
-  /**
-   * Estimate tokens for text
-   */
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4)
+    return messages.reduce((sum, m) => sum + countTokens(undefined, m.content), 0)
   }
 
   /**
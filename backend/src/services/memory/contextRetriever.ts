@@ -1,6 +1,7 @@
 import { getMarkdownStore } from './markdownStore.js'
 import type { MemoryQuery, MemoryRetrievalResult, ContextItem } from './types.js'
 import type { CompletionMessage } from '../llm/providers/base.js'
+import { countTokens } from '../llm/tokenizer.js'
 
 /**
  * Context Retriever - Retrieves relevant memories for new meetings
@@ -22,7 +23,7 @@ export class ContextRetriever {
     for (const summary of meetingSummaries) {
       const relevance = this.calculateRelevance(query, summary)
       if (relevance >= minRelevance) {
-        const tokens = this.estimateTokens(summary.content)
+        const tokens = countTokens(undefined, summary.content)
         if (totalTokens + tokens <= maxTokens) {
           items.push({
             type: 'meeting_summary',
@@ -41,7 +42,7 @@ export class ContextRetriever {
     for (const decision of decisions) {
       const relevance = this.calculateRelevance(query, decision)
       if (relevance >= minRelevance) {
-        const tokens = this.estimateTokens(decision.content)
+        const tokens = countTokens(undefined, decision.content)
         if (totalTokens + tokens <= maxTokens) {
           items.push({
             type: 'previous_decision',
@@ -60,7 +61,7 @@ export class ContextRetriever {
     for (const controversy of controversies) {
       const relevance = this.calculateRelevance(query, controversy)
       if (relevance >= minRelevance) {
-        const tokens = this.estimateTokens(controversy.content)
+        const tokens = countTokens(undefined, controversy.content)
         if (totalTokens + tokens <= maxTokens) {
           items.push({
             type: 'controversy',
@@ -79,7 +80,7 @@ export class ContextRetriever {
     for (const learning of learnings) {
       const relevance = this.calculateRelevance(query, learning)
       if (relevance >= minRelevance) {
-        const tokens = this.estimateTokens(learning.content)
+        const tokens = countTokens(undefined, learning.content)
         if (totalTokens + tokens <= maxTokens) {
           items.push({
             type: 'learning',
@@ -275,13 +276,6 @@ export class ContextRetriever {
     }
     return labels[type] || type
   }
-
-  /**
-   * Estimate tokens
-   */
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4)
-  }
 }
 
 // Singleton instance
@@ -1,6 +1,7 @@
 import { getMarkdownStore } from './markdownStore.js'
-import type { Meeting, Message } from '../../models/index.js'
+import type { Meeting, MeetingMinutes, Message } from '../../models/index.js'
 import type { MeetingSummaryMemory, DecisionSummaryMemory, ControversyMemory } from './types.js'
+import { formatVoteTally, getDissent } from '../orchestrator/votes.js'
 
 /**
  * Meeting Summarizer - Generates summaries after meetings
@@ -65,15 +66,20 @@ export class MeetingSummarizer {
   private async generateMeetingSummary(meeting: Meeting): Promise<MeetingSummaryMemory> {
     const summaryId = `meeting-summary-${new Date().toISOString().split('T')[0]}-${meeting.id}`
 
-    // Gather information
-    const participants = this.extractParticipants(meeting.messages)
-    const stages = this.extractStages(meeting.messages)
+    // Gather information, preferring CLERK's minutes over the transcript
+    const minutes = meeting.artifacts.minutes
+    const participants = minutes ? minutes.attendees : this.extractParticipants(meeting.messages)
+    const stages = minutes
+      ? minutes.stageSummaries.map((entry) => entry.stage)
+      : this.extractStages(meeting.messages)
     const duration = meeting.completedAt && meeting.startedAt
       ? Math.floor((new Date(meeting.completedAt).getTime() - new Date(meeting.startedAt).getTime()) / 1000)
       : undefined
 
     // Build summary content
-    const content = this.buildMeetingSummaryContent(meeting, participants, stages)
+    const content = minutes
+      ? this.buildMinutesContent(meeting, minutes)
+      : this.buildMeetingSummaryContent(meeting, participants, stages)
 
     const frontmatter = {
       id: summaryId,
@@ -164,6 +170,39 @@ export class MeetingSummarizer {
     return content
   }
 
+  /**
+   * Build meeting summary content from CLERK's minutes
+   */
+  private buildMinutesContent(meeting: Meeting, minutes: MeetingMinutes): string {
+    let content = `# 会议纪要：${meeting.topic}\n\n`
+
+    content += `## 出席角色\n${minutes.attendees.map((role) => `- **${role}**`).join('\n')}\n\n`
+    content += `## 议程\n${minutes.agenda.map((item, i) => `${i + 1}. ${item}`).join('\n')}\n\n`
+
+    if (minutes.stageSummaries.length > 0) {
+      content += '## 讨论过程\n\n'
+      for (const entry of minutes.stageSummaries) {
+        content += `### ${entry.stage}\n\n${entry.summary}\n\n`
+      }
+    }
+
+    content += `## 决定事项\n${minutes.decisions.map((item, i) => `${i + 1}. ${item}`).join('\n')}\n\n`
+
+    if (meeting.artifacts.finalDecision) {
+      content += `### 理由\n${meeting.artifacts.finalDecision.reasoning}\n\n`
+    }
+
+    if (minutes.actionItems.length > 0) {
+      content += '## 待办事项\n'
+      minutes.actionItems.forEach((action, i) => {
+        content += `${i + 1}. ${action.item}（负责：${action.owner}${action.due ? `，期限：${action.due}` : ''}）\n`
+      })
+      content += '\n'
+    }
+
+    return content
+  }
+
   /**
    * Build stage-by-stage summary
    */
@@ -218,11 +257,19 @@ export class MeetingSummarizer {
     // Determine category
     const category = this.categorizeDecision(meeting.topic, finalDecision)
 
-    const content = `# 决策：${finalDecision.decision}\n\n`
+    let content = `# 决策：${finalDecision.decision}\n\n`
       + `## 决策内容\n${finalDecision.decision}\n\n`
       + `## 决策理由\n${finalDecision.reasoning}\n\n`
       + `## 后续步骤\n${finalDecision.nextSteps?.map((s, i) => `${i + 1}. ${s}`).join('\n') || '暂无明确后续步骤'}\n`
 
+    // Keep where each minister stood, so dissent is not lost behind the decision
+    const vote = meeting.artifacts.vote
+    const dissent = vote ? getDissent(vote, finalDecision.chosenVoteOption) : []
+    if (vote) {
+      content += `\n## 表决结果\n${formatVoteTally(vote)}\n`
+        + `\n## 异议\n${dissent.map((d) => `- ${d.role}：${d.justification}`).join('\n') || '无'}\n`
+    }
+
     const frontmatter = {
       id: decisionId,
       type: 'decision' as const,
@@ -232,6 +279,7 @@ export class MeetingSummarizer {
       decisionMaker: 'PRIME',
       impact,
       category,
+      ...(vote ? { dissent: [...new Set(dissent.map((d) => d.role))] } : {}),
     }
 
     return {
@@ -52,8 +52,9 @@ export interface DecisionSummaryMemory {
     decisionMaker: string           // 决策者（通常是 PRIME）
     impact: 'high' | 'medium' | 'low'
     category: string                // 决策类别（政策/财政/运营等）
+    dissent?: string[]              // 表决中反对得分最高方案的角色
   }
-  content: string                  // 决策内容、理由、后续步骤
+  content: string                  // 决策内容、理由、后续步骤、表决与异议
 }
 
 /**
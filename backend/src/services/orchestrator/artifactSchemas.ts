@@ -0,0 +1,105 @@
+import { z } from 'zod'
+
+/**
+ * Zod schemas for stage artifacts
+ * They describe what the model must return and mirror the artifact types in
+ * models/index.ts; fields the orchestrator fills in itself (e.g. topic) are
+ * not requested from the model.
+ */
+
+const text = z.string().trim().min(1)
+const textList = z.array(text)
+// Question for the human running the meeting; empty or null means none
+const userQuestion = z.string().trim().nullable().optional()
+
+export const IssueBriefOutputSchema = z.object({
+  background: text,
+  keyConsiderations: textList.min(1),
+  constraints: textList.optional(),
+})
+
+export const SpeakPlanOutputSchema = z.object({
+  speakingOrder: textList.min(1),
+  rationale: text,
+})
+
+export const BrainAnalysisOutputSchema = z.object({
+  analysis: text,
+  consensus: textList,
+  disagreements: textList,
+  clarificationNeeded: z.object({
+    role: text,
+    question: text,
+  }).nullable().optional(),
+  shouldIntervene: z.boolean(),
+  userQuestion,
+})
+
+export const SummaryOutputSchema = z.object({
+  summary: text,
+  keyPoints: textList.min(1),
+  consensus: z.string().trim(),
+  disagreements: textList,
+  userQuestion,
+})
+
+export const FinalDecisionOutputSchema = z.object({
+  decision: text,
+  reasoning: text,
+  nextSteps: textList.min(1),
+  chosenOptionId: text.nullable().optional(),
+  chosenVoteOption: z.number().int().positive().nullable().optional(),
+})
+
+export const DecisionOptionsOutputSchema = z.object({
+  options: z.array(z.object({
+    title: text,
+    description: text,
+  })).min(2).max(4),
+})
+
+export const OptionScoresOutputSchema = z.object({
+  scores: z.array(z.object({
+    optionId: text,
+    score: z.number().min(1).max(10),
+    rationale: text,
+  })).min(1),
+})
+
+export const VoteOptionsOutputSchema = z.object({
+  options: textList.min(2).max(4),
+})
+
+export const BallotOutputSchema = z.object({
+  votes: z.array(z.object({
+    option: z.number().int().positive(),
+    stance: z.enum(['approve', 'reject', 'abstain']),
+    confidence: z.number().min(0).max(1),
+    justification: text,
+  })).min(1),
+})
+
+export const MinutesOutputSchema = z.object({
+  agenda: textList.min(1),
+  stageSummaries: z.array(z.object({
+    stage: text,
+    summary: text,
+  })),
+  decisions: textList.min(1),
+  actionItems: z.array(z.object({
+    item: text,
+    owner: text,
+    due: text.optional(),
+  })),
+})
+
+export type IssueBriefOutput = z.infer<typeof IssueBriefOutputSchema>
+export type SpeakPlanOutput = z.infer<typeof SpeakPlanOutputSchema>
+export type BrainAnalysisOutput = z.infer<typeof BrainAnalysisOutputSchema>
+export type SummaryOutput = z.infer<typeof SummaryOutputSchema>
+export type FinalDecisionOutput = z.infer<typeof FinalDecisionOutputSchema>
+export type DecisionOptionsOutput = z.infer<typeof DecisionOptionsOutputSchema>
+export type OptionScoresOutput = z.infer<typeof OptionScoresOutputSchema>
+export type VoteOptionsOutput = z.infer<typeof VoteOptionsOutputSchema>
+export type BallotOutput = z.infer<typeof BallotOutputSchema>
+export type MinutesOutput = z.infer<typeof MinutesOutputSchema>
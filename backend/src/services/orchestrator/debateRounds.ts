@@ -0,0 +1,67 @@
+import type { BrainAnalysis, DebateRound, Meeting, Message } from '../../models/index.js'
+import type { FlowStep } from './flowTemplates.js'
+
+export const DEFAULT_MAX_ROUNDS = 3
+export const DEFAULT_CONVERGENCE_THRESHOLD = 0.75
+
+/**
+ * Convergence of a discussion from BRAIN's analysis
+ * The share of consensus among all points raised; a discussion with no open
+ * points counts as converged.
+ */
+export function scoreConvergence(analysis: Pick<BrainAnalysis, 'consensus' | 'disagreements'>): number {
+  const consensus = analysis.consensus.length
+  const disagreements = analysis.disagreements.length
+  if (disagreements === 0) {
+    return 1
+  }
+  return consensus / (consensus + disagreements)
+}
+
+/**
+ * Number of the round a debate step runs next
+ */
+export function getNextRound(meeting: Meeting, stepId: string): number {
+  return (meeting.artifacts.debateRounds || []).filter((round) => round.stepId === stepId).length + 1
+}
+
+/**
+ * Record a finished round and decide whether the debate goes on
+ */
+export function recordDebateRound(
+  meeting: Meeting,
+  step: FlowStep,
+  analysis: Pick<BrainAnalysis, 'consensus' | 'disagreements'>
+): { round: DebateRound; repeat: boolean } {
+  const convergence = scoreConvergence(analysis)
+  const round: DebateRound = {
+    stepId: step.id,
+    round: getNextRound(meeting, step.id),
+    convergence,
+    consensus: analysis.consensus,
+    disagreements: analysis.disagreements,
+    converged: convergence >= (step.convergenceThreshold ?? DEFAULT_CONVERGENCE_THRESHOLD),
+  }
+  meeting.artifacts.debateRounds = [...(meeting.artifacts.debateRounds || []), round]
+  return { round, repeat: !round.converged && round.round < (step.maxRounds ?? DEFAULT_MAX_ROUNDS) }
+}
+
+/**
+ * Messages of a finished round, from its stage message up to the next stage
+ * A retried round counts from its latest attempt.
+ */
+export function getRoundMessages(messages: Message[], stepId: string, round: number): Message[] {
+  const isStage = (m: Message) => m.type === 'system' && typeof m.metadata?.stage === 'string'
+  let start = -1
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    if (isStage(messages[i]) && messages[i].metadata?.stage === stepId && messages[i].metadata?.round === round) {
+      start = i
+      break
+    }
+  }
+  if (start === -1) {
+    return []
+  }
+  const end = messages.findIndex((m, i) => i > start && isStage(m))
+  return messages.slice(start + 1, end === -1 ? undefined : end)
+}
@@ -0,0 +1,73 @@
+import type { DecisionMatrix, DecisionOption } from '../../models/index.js'
+
+/**
+ * Dimension each minister scores options on; higher scores are better
+ */
+export const MATRIX_DIMENSIONS: Record<string, string> = {
+  CRITIC: '风险（分高风险低）',
+  FINANCE: '成本与回报',
+  WORKS: '可行性',
+}
+
+/**
+ * Scoring roles among the participants, weighted by the step (default 1)
+ */
+export function getMatrixDimensions(roles: string[], weights: Record<string, number> = {}): DecisionMatrix['dimensions'] {
+  return roles
+    .filter((role) => MATRIX_DIMENSIONS[role])
+    .map((role) => ({ role, dimension: MATRIX_DIMENSIONS[role], weight: weights[role] ?? 1 }))
+}
+
+/**
+ * Give PRIME's options letter ids in order
+ */
+export function createDecisionOptions(options: { title: string; description: string }[]): DecisionOption[] {
+  return options.map((option, i) => ({ id: String.fromCharCode(65 + i), ...option }))
+}
+
+/**
+ * Weighted average per option and the option with the highest total
+ * Roles that did not score an option do not count towards its average.
+ */
+export function scoreDecisionMatrix(
+  options: DecisionOption[],
+  dimensions: DecisionMatrix['dimensions'],
+  scores: DecisionMatrix['scores']
+): DecisionMatrix {
+  const totals: Record<string, number> = {}
+  let recommendedOptionId: string | undefined
+
+  for (const option of options) {
+    let weighted = 0
+    let weights = 0
+    for (const { role, weight } of dimensions) {
+      const entry = scores.find((s) => s.optionId === option.id && s.role === role)
+      if (!entry) continue
+      weighted += entry.score * weight
+      weights += weight
+    }
+    if (weights === 0) continue
+
+    totals[option.id] = Math.round((weighted / weights) * 100) / 100
+    if (recommendedOptionId === undefined || totals[option.id] > totals[recommendedOptionId]) {
+      recommendedOptionId = option.id
+    }
+  }
+
+  return { options, dimensions, scores, totals, recommendedOptionId }
+}
+
+/**
+ * Matrix as text for PRIME's decision prompt
+ */
+export function formatDecisionMatrix(matrix: DecisionMatrix): string {
+  return matrix.options.map((option) => {
+    const scores = matrix.dimensions
+      .map(({ role, dimension, weight }) => {
+        const entry = matrix.scores.find((s) => s.optionId === option.id && s.role === role)
+        return entry ? `${role} ${dimension} ${entry.score}/10（权重 ${weight}，${entry.rationale}）` : `${role} 未评分`
+      })
+      .join('；')
+    return `方案 ${option.id}：${option.title} - ${option.description}\n  ${scores}\n  加权总分：${matrix.totals[option.id] ?? '无'}`
+  }).join('\n')
+}
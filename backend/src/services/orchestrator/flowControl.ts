@@ -1,22 +1,171 @@
-import { getMainBrainService, type DiscussionContext } from './mainBrain.js'
+import {
+  MainBrainService,
+  createInterventionRecord,
+  resolveInterventions,
+  type BrainInterventionType,
+  type DiscussionContext,
+} from './mainBrain.js'
 import { getRoleManager } from '../persona/roleManager.js'
-import { getRoleProvider } from '../llm/providerFactory.js'
+import { getRoleProvider, resolveSamplingParams, type ProviderLink, type RoleProviderConfig } from '../llm/providerFactory.js'
+import { getCompletionScheduler } from '../llm/scheduler.js'
+import { getCassetteStore } from '../llm/cassette.js'
+import { getPricingRegistry } from '../llm/pricing.js'
+import { countTokens } from '../llm/tokenizer.js'
+import { getMeetingRunRegistry, MeetingCancelledError } from '../meetings/runControl.js'
 import { getContextRetriever } from '../memory/contextRetriever.js'
 import { getContextCompressor } from '../memory/contextCompressor.js'
-import type { CompletionMessage } from '../llm/providers/base.js'
-import type { Message, Meeting } from '../../models/index.js'
-import { MeetingStage, getNextStage, canSkipStage, shouldSkipToDecision, STAGE_CONFIGS } from './stages.js'
+import { emitMeetingEvent } from './meetingEvents.js'
+import type { CompletionMessage, CompletionResponse, CompletionParams, LLMProvider } from '../llm/providers/base.js'
+import type { z } from 'zod'
+import { parseStructured, buildRepairPrompt } from './structuredOutput.js'
+import {
+  resolveSpeechLimits,
+  normalizeSpeech,
+  countChars,
+  truncateAtBoundary,
+  buildCondensePrompt,
+} from './speechPolicy.js'
+import {
+  MIN_OUTPUT_TOKENS,
+  getRoleOutputLimit,
+  getStageOutputLimit,
+  capOutputTokens,
+  addRoleUsage,
+} from './tokenAllowance.js'
+import { canAskUser, createUserQuestion, takeUnscheduledQuestion, withUserAnswers } from './userQuestions.js'
+import { orderBySpeakPlan } from './speakPlan.js'
+import { getNextRound, getRoundMessages, recordDebateRound } from './debateRounds.js'
+import { formatVoteTally, getVoteWeight, tallyVotes, VOTE_STANCE_LABELS } from './votes.js'
+import { createDecisionOptions, formatDecisionMatrix, getMatrixDimensions, scoreDecisionMatrix } from './decisionMatrix.js'
+import {
+  IssueBriefOutputSchema,
+  SpeakPlanOutputSchema,
+  BrainAnalysisOutputSchema,
+  SummaryOutputSchema,
+  FinalDecisionOutputSchema,
+  DecisionOptionsOutputSchema,
+  OptionScoresOutputSchema,
+  VoteOptionsOutputSchema,
+  BallotOutputSchema,
+  MinutesOutputSchema,
+} from './artifactSchemas.js'
+import type {
+  Message,
+  Meeting,
+  IssueBrief,
+  SpeakPlan,
+  BrainAnalysis,
+  Summary,
+  FinalDecision,
+  MeetingMinutes,
+  DecisionMatrix,
+  Ballot,
+  VoteTally,
+  SpeechLimits,
+  MessageUsage,
+  RoleUsage,
+  UserQuestion,
+} from '../../models/index.js'
+import { MeetingStage, getNextStage, canSkipStage, shouldSkipToDecision, type BudgetState } from './stages.js'
+import {
+  getFlowTemplateLoader,
+  getNextStep,
+  getDecisionStep,
+  isAfterDecision,
+  STAGE_KINDS,
+  type FlowStep,
+  type FlowTemplate,
+  type StageKind,
+} from './flowTemplates.js'
+
+/**
+ * Completion result annotated with the provider/model that actually served it
+ */
+type RoleCompletion = CompletionResponse & {
+  servedBy: {
+    provider: string
+    model: string
+    source: RoleProviderConfig['source'] | 'fallback'
+  }
+  metered: MessageUsage
+}
+
+/**
+ * A role's provider request failed; the runner records which role and
+ * provider so the meeting can be retried with another one
+ */
+export class RoleCompletionError extends Error {
+  constructor(
+    readonly role: string,
+    readonly provider: string,
+    readonly model: string,
+    cause: unknown
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause })
+    this.name = 'RoleCompletionError'
+  }
+}
+
+/**
+ * Which meeting a completion belongs to
+ * With a messageId the output is streamed as that message; parallel completions
+ * may run alongside each other instead of in meeting order.
+ */
+type CompletionTarget = {
+  meetingId: string
+  messageId?: string
+  parallel?: boolean
+}
+
+/**
+ * Validated structured reply; `data` is null when every repair attempt failed
+ */
+type StructuredCompletion<T> = {
+  data: T | null
+  content: string
+  tokens: number
+  servedBy: RoleCompletion['servedBy']
+  metered: MessageUsage
+}
+
+// How a live BRAIN intervention is introduced to the next speakers
+const INTERVENTION_LABELS: Record<BrainInterventionType, string> = {
+  question: '问题',
+  perspective: '新视角',
+  elaboration_request: '请阐述',
+  synthesis: '综合',
+}
+
+/**
+ * Executes one flow step; usage is added to the meeting by the caller
+ * `repeat` runs the same step again instead of moving on.
+ */
+type StageHandler = (
+  meeting: Meeting,
+  step: FlowStep,
+  ws?: WebSocket
+) => Promise<{ messages: Message[]; tokens: number; repeat?: boolean }>
 
 /**
  * Flow control for the meeting orchestrator
  * Handles PRIME+BRAIN collaboration and stage transitions
  */
 export class FlowControl {
-  private brain = getMainBrainService()
+  // BRAIN's completions go through completeForRole so they are metered
+  private brain = new MainBrainService((messages, temperature, maxTokens, meetingId) =>
+    this.completeForRole('brain', messages, temperature, maxTokens, meetingId ? { meetingId } : undefined)
+  )
   private roleManager = getRoleManager()
   private retriever = getContextRetriever()
   private compressor = getContextCompressor()
-  private static completionQueue: Promise<void> = Promise.resolve()
+  private scheduler = getCompletionScheduler()
+  private pricing = getPricingRegistry()
+  // Metered usage per meeting and role, drained into the meeting after each stage
+  private spend: Map<string, Map<string, RoleUsage>> = new Map()
+  // Step each meeting is executing, for output allowances
+  private activeSteps: Map<string, { meeting: Meeting; step: FlowStep }> = new Map()
+  // Provider fallbacks per meeting, added to the stage's messages when it ends
+  private fallbackNotices: Map<string, Message[]> = new Map()
 
   private shuffleRoles(roles: string[]): string[] {
     const shuffled = [...roles]
@@ -27,7 +176,13 @@ export class FlowControl {
     return shuffled
   }
 
-  private readonly speechCharLimit = 50
+  /**
+   * Speaking order for a discussion step: the speak plan, else random
+   */
+  private getSpeakingOrder(meeting: Meeting, roles: string[]): string[] {
+    const plan = meeting.artifacts.speakPlan
+    return plan ? orderBySpeakPlan(roles, plan) : this.shuffleRoles(roles)
+  }
 
   private getRoleFocusInstruction(role: string): string {
     const upperRole = role.toUpperCase()
@@ -43,17 +198,87 @@ export class FlowControl {
     }
   }
 
-  private withSpeechLimitInstruction(prompt: string): string {
-    return `${prompt}\n\n硬性要求：你的最终发言必须控制在${this.speechCharLimit}个中文字符以内，不要换行，不要分点。`
+  private getSpeechLimits(meeting: Meeting, role: string): SpeechLimits {
+    return resolveSpeechLimits(meeting.speechPolicy, role)
+  }
+
+  private withSpeechLimitInstruction(prompt: string, meeting: Meeting, role: string): string {
+    const { displayChars } = this.getSpeechLimits(meeting, role)
+    return `${prompt}\n\n硬性要求：你的最终发言必须控制在${displayChars}个中文字符以内，不要换行，不要分点。`
+  }
+
+  /**
+   * Fit text to a character limit
+   * Over-limit text is condensed by the speaker's own model rather than sliced;
+   * only if that fails or still overflows is it cut at a sentence boundary.
+   */
+  private async condenseToLimit(
+    meeting: Meeting,
+    role: string,
+    content: string,
+    maxChars: number,
+    parallel = false
+  ): Promise<{ content: string; condensed: boolean; tokens: number }> {
+    const normalized = normalizeSpeech(content)
+    if (countChars(normalized) <= maxChars) {
+      return { content: normalized, condensed: false, tokens: 0 }
+    }
+
+    let condensed = normalized
+    let tokens = 0
+    try {
+      const response = await this.completeForRole(
+        role.toLowerCase(),
+        [{ role: 'user', content: buildCondensePrompt(normalized, maxChars) }],
+        0.2,
+        Math.max(200, maxChars * 2),
+        { meetingId: meeting.id, parallel }
+      )
+      tokens = response.usage?.totalTokens || countTokens(response.servedBy.model, response.content)
+      condensed = normalizeSpeech(response.content) || normalized
+    } catch (error) {
+      if (error instanceof MeetingCancelledError) {
+        throw error
+      }
+      console.error(`Failed to condense ${role} statement:`, error)
+    }
+
+    return { content: truncateAtBoundary(condensed, maxChars), condensed: true, tokens }
   }
 
-  private enforceSpeechLimit(content: string): string {
-    const normalized = (content || '').replace(/\s+/g, ' ').trim()
-    const chars = Array.from(normalized)
-    if (chars.length <= this.speechCharLimit) {
-      return normalized
+  /**
+   * Chat text for a statement under the role's display limit
+   * A condensed statement keeps its original in metadata.originalContent.
+   */
+  private async fitSpeech(
+    meeting: Meeting,
+    role: string,
+    content: string,
+    parallel = false
+  ): Promise<{ content: string; metadata: Record<string, unknown>; tokens: number }> {
+    const { displayChars } = this.getSpeechLimits(meeting, role)
+    const fitted = await this.condenseToLimit(meeting, role, content, displayChars, parallel)
+    return {
+      content: fitted.content,
+      metadata: fitted.condensed ? { originalContent: content, condensed: true } : {},
+      tokens: fitted.tokens,
     }
-    return chars.slice(0, this.speechCharLimit).join('')
+  }
+
+  /**
+   * Bound an artifact's main text by the artifact limit, then fit the chat
+   * message derived from it by the display limit
+   */
+  private async fitArtifactText(
+    meeting: Meeting,
+    role: string,
+    text: string
+  ): Promise<{ text: string; speech: { content: string; metadata: Record<string, unknown> }; tokens: number }> {
+    const { artifactChars } = this.getSpeechLimits(meeting, role)
+    const bounded = await this.condenseToLimit(meeting, role, text, artifactChars)
+    const artifactText = bounded.condensed ? bounded.content : text.trim()
+    const speech = await this.fitSpeech(meeting, role, artifactText)
+    return { text: artifactText, speech, tokens: bounded.tokens + speech.tokens }
   }
 
   private getSelectedRoleIds(meeting: Meeting): string[] {
@@ -64,11 +289,20 @@ export class FlowControl {
     return [...new Set(selected.map((role) => role.toLowerCase()))]
   }
 
-  private getDiscussionRoles(meeting: Meeting): string[] {
+  /**
+   * Departments taking part in discussion steps
+   * `stepRoles` narrows them to the roles a flow step asks for, when selected.
+   */
+  private getDiscussionRoles(meeting: Meeting, stepRoles?: string[]): string[] {
     const roles = this.getSelectedRoleIds(meeting)
       .filter((role) => !['prime', 'brain', 'clerk'].includes(role))
       .map((role) => role.toUpperCase())
 
+    const stepSelection = stepRoles ? roles.filter((role) => stepRoles.includes(role)) : []
+    if (stepSelection.length > 0) {
+      return stepSelection
+    }
+
     if (roles.length > 0) {
       return roles
     }
@@ -79,137 +313,527 @@ export class FlowControl {
 
   /**
    * Get completion for a role with proper model config
+   * Runs through the completion scheduler; with a messageId, output is broadcast
+   * as MESSAGE_DELTA events and the caller emits MESSAGE_DONE once it is final.
+   * When the role's provider fails, the next provider in its fallback chain
+   * takes over and the switch is noted in the meeting. Calls made during a
+   * stage go through the meeting's cassette when it has one.
    */
   private async completeForRole(
     role: string,
     messages: CompletionMessage[],
     temperature?: number,
-    maxTokens?: number
-  ) {
-    const run = async () => {
-      const { provider, model, temperature: defaultTemp, maxTokens: defaultMaxTokens } =
-        await getRoleProvider(role)
+    maxTokens?: number,
+    target?: CompletionTarget
+  ): Promise<RoleCompletion> {
+    const control = target ? getMeetingRunRegistry().get(target.meetingId) : undefined
+    control?.throwIfCancelled()
+
+    const active = target ? this.activeSteps.get(target.meetingId) : undefined
+    if (active) {
+      maxTokens = capOutputTokens(maxTokens, this.getRemainingOutput(active.meeting, role))
+      messages = withUserAnswers(messages, active.meeting, active.step.id)
+    }
 
-      return provider.complete({
+    const roleConfig = await getRoleProvider(role, active?.meeting.providerOverrides?.[role.toUpperCase()])
+    const sampling = resolveSamplingParams(roleConfig, temperature, maxTokens)
+    const cassette = active ? await getCassetteStore().get(active.meeting) : null
+
+    const run = async (link: ProviderLink, isFallback: boolean): Promise<RoleCompletion> => {
+      // The meeting may have been cancelled while this call was queued
+      control?.throwIfCancelled()
+
+      const params: CompletionParams = {
         messages,
-        model,
-        temperature: temperature ?? defaultTemp,
-        maxTokens: maxTokens ?? defaultMaxTokens,
+        model: link.model,
+        signal: control?.signal,
+        caller: { role: role.toUpperCase(), stage: active?.step.id, stageKind: active?.step.kind, meetingId: active?.meeting.id },
+        ...sampling,
+      }
+
+      const provider = cassette ? cassette.wrap(link.provider, link.providerType) : link.provider
+      let response: CompletionResponse
+      try {
+        response = target?.messageId
+          ? await this.streamCompletion(provider, params, role, target)
+          : await provider.complete(params)
+      } catch (error) {
+        if (control?.isCancelled) {
+          throw new MeetingCancelledError(control.meetingId)
+        }
+        throw new RoleCompletionError(role.toUpperCase(), link.providerType, link.model, error)
+      }
+
+      const servedBy = {
+        provider: link.providerType,
+        model: response.model || link.model,
+        source: isFallback ? 'fallback' as const : roleConfig.source,
+      }
+      const metered = this.meter(servedBy.provider, servedBy.model, messages, response)
+      if (target) {
+        this.recordSpend(target.meetingId, role, metered)
+      }
+
+      return { ...response, servedBy, metered }
+    }
+
+    const chain = [roleConfig, ...roleConfig.fallbacks]
+    for (let i = 0; ; i += 1) {
+      try {
+        // Each provider in the chain waits for a slot in its own pool
+        return await this.scheduler.schedule(
+          {
+            provider: chain[i].providerType,
+            meetingId: target?.meetingId,
+            parallel: target?.parallel,
+            label: role.toUpperCase(),
+          },
+          () => run(chain[i], i > 0)
+        )
+      } catch (error) {
+        if (!(error instanceof RoleCompletionError) || i === chain.length - 1) {
+          throw error
+        }
+        console.warn(`${error.role} ${error.provider} failed, falling back to ${chain[i + 1].providerType}:`, error.message)
+        if (target) {
+          this.noteFallback(target.meetingId, error, chain[i + 1])
+        }
+      }
+    }
+  }
+
+  /**
+   * Record a switch to the next provider in a role's chain
+   */
+  private noteFallback(meetingId: string, error: RoleCompletionError, next: ProviderLink): void {
+    const notices = this.fallbackNotices.get(meetingId) || []
+    notices.push({
+      id: `msg-${Date.now()}-${error.role}-fallback-${notices.length + 1}`,
+      timestamp: new Date().toISOString(),
+      role: 'SYSTEM',
+      type: 'system',
+      content: `${error.role} 的 ${error.provider}（${error.model}）调用失败，改用 ${next.providerType}（${next.model}）。`,
+      metadata: {
+        fallback: {
+          role: error.role,
+          from: { provider: error.provider, model: error.model },
+          to: { provider: next.providerType, model: next.model },
+          error: error.message,
+        },
+      },
+    })
+    this.fallbackNotices.set(meetingId, notices)
+  }
+
+  /**
+   * Prompt/completion split and cost of one completion
+   * Providers that report no usage are estimated from the text.
+   */
+  private meter(
+    provider: string,
+    model: string,
+    messages: CompletionMessage[],
+    response: CompletionResponse
+  ): MessageUsage {
+    const promptTokens = response.usage?.promptTokens
+      ?? countTokens(model, messages.map((m) => m.content).join('\n'))
+    const completionTokens = response.usage?.completionTokens ?? countTokens(model, response.content)
+    return {
+      promptTokens,
+      completionTokens,
+      costUsd: this.pricing.estimateCost(provider, model, { promptTokens, completionTokens }),
+    }
+  }
+
+  private recordSpend(meetingId: string, role: string, usage: MessageUsage): void {
+    const ledger = this.spend.get(meetingId) || new Map<string, RoleUsage>()
+    const key = role.toUpperCase()
+    ledger.set(key, addRoleUsage(ledger.get(key), usage))
+    this.spend.set(meetingId, ledger)
+  }
+
+  /**
+   * Add usage metered since the last stage to the meeting's totals
+   */
+  private applySpend(meeting: Meeting): void {
+    const ledger = this.spend.get(meeting.id)
+    if (!ledger) return
+    this.spend.delete(meeting.id)
+
+    const roleUsage = { ...meeting.roleUsage }
+    for (const [role, spend] of ledger) {
+      const total = roleUsage[role]
+      roleUsage[role] = {
+        promptTokens: (total?.promptTokens || 0) + spend.promptTokens,
+        completionTokens: (total?.completionTokens || 0) + spend.completionTokens,
+        costUsd: (total?.costUsd || 0) + spend.costUsd,
+        calls: (total?.calls || 0) + spend.calls,
+      }
+      meeting.usagePromptTokens = (meeting.usagePromptTokens || 0) + spend.promptTokens
+      meeting.usageCompletionTokens = (meeting.usageCompletionTokens || 0) + spend.completionTokens
+      meeting.usageCostUsd = (meeting.usageCostUsd || 0) + spend.costUsd
+    }
+    meeting.roleUsage = roleUsage
+  }
+
+  /**
+   * Output tokens a role may still spend in the current step
+   * The lower of what is left of its meeting allowance and of the step's.
+   */
+  private getRemainingOutput(meeting: Meeting, role: string): number {
+    const key = role.toUpperCase()
+    const pendingForRole = this.spend.get(meeting.id)?.get(key)?.completionTokens || 0
+    const roleSpent = (meeting.roleUsage?.[key]?.completionTokens || 0) + pendingForRole
+    const roleRemaining = getRoleOutputLimit(meeting, key) - roleSpent
+
+    return Math.min(roleRemaining, this.getStageRemainingOutput(meeting))
+  }
+
+  /**
+   * Output tokens left in the current step's allowance (Infinity outside steps)
+   */
+  private getStageRemainingOutput(meeting: Meeting): number {
+    const active = this.activeSteps.get(meeting.id)
+    if (!active) {
+      return Infinity
+    }
+    const ledger = this.spend.get(meeting.id)
+    const stageSpent = Array.from(ledger?.values() || []).reduce((sum, usage) => sum + usage.completionTokens, 0)
+    return getStageOutputLimit(active.step) - stageSpent
+  }
+
+  private hasOutputAllowance(meeting: Meeting, role: string): boolean {
+    return this.getRemainingOutput(meeting, role) >= MIN_OUTPUT_TOKENS
+  }
+
+  /**
+   * Note left in place of a speech skipped for an exhausted allowance
+   */
+  private createAllowanceSkipMessage(role: string): Message {
+    return {
+      id: `msg-${Date.now()}-${role}-skipped`,
+      timestamp: new Date().toISOString(),
+      role: 'SYSTEM',
+      type: 'system',
+      content: `${role.toUpperCase()} 发言额度已用尽，本阶段跳过。`,
+      metadata: { allowanceExhausted: role.toUpperCase() },
+    }
+  }
+
+  /**
+   * Get a JSON reply validated against a schema
+   * Invalid replies are sent back to the model with the validation error, up to
+   * `maxRepairs` times. Token usage covers every attempt.
+   */
+  private async completeStructured<T>(
+    role: string,
+    messages: CompletionMessage[],
+    schema: z.ZodType<T>,
+    temperature: number,
+    maxTokens: number,
+    target: CompletionTarget,
+    maxRepairs = 2
+  ): Promise<StructuredCompletion<T>> {
+    const conversation = [...messages]
+    let tokens = 0
+    let metered: MessageUsage | undefined
+    let response: RoleCompletion | undefined
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt += 1) {
+      // JSON is not streamed: the chat only shows the validated result
+      response = await this.completeForRole(role, conversation, temperature, maxTokens, {
+        meetingId: target.meetingId,
+        parallel: target.parallel,
       })
+      tokens += response.usage?.totalTokens || countTokens(response.servedBy.model, response.content)
+      metered = addUsage(metered, response.metered)
+
+      const parsed = parseStructured(response.content, schema)
+      if (parsed.success) {
+        return { data: parsed.data, content: response.content, tokens, servedBy: response.servedBy, metered }
+      }
+
+      console.warn(`Invalid structured output from ${role} (attempt ${attempt + 1}): ${parsed.error}`)
+      conversation.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: buildRepairPrompt(parsed.error) }
+      )
     }
 
-    const task = FlowControl.completionQueue.then(run, run)
-    FlowControl.completionQueue = task.then(
-      () => undefined,
-      () => undefined
-    )
-    return task
+    return { data: null, content: response!.content, tokens, servedBy: response!.servedBy, metered: metered! }
   }
 
   /**
-   * Execute a stage with PRIME+BRAIN collaboration
+   * Stream a completion to meeting clients and collect the full response
+   * Providers without streaming degrade to a single delta; a stream that fails
+   * before producing output is retried once without streaming.
+   */
+  private async streamCompletion(
+    provider: LLMProvider,
+    params: CompletionParams,
+    role: string,
+    target: CompletionTarget
+  ): Promise<CompletionResponse> {
+    const emitDelta = (delta: string) => {
+      emitMeetingEvent({
+        type: 'MESSAGE_DELTA',
+        meetingId: target.meetingId,
+        messageId: target.messageId!,
+        role: role.toUpperCase(),
+        delta,
+      })
+    }
+
+    const completeWithSingleDelta = async (): Promise<CompletionResponse> => {
+      const response = await provider.complete(params)
+      if (response.content) {
+        emitDelta(response.content)
+      }
+      return response
+    }
+
+    if (!provider.supportsStreaming(params.model)) {
+      return completeWithSingleDelta()
+    }
+
+    let content = ''
+    let usage: CompletionResponse['usage']
+
+    try {
+      for await (const chunk of provider.streamComplete(params)) {
+        if (chunk.content) {
+          content += chunk.content
+          emitDelta(chunk.content)
+        }
+        if (chunk.usage) {
+          usage = chunk.usage
+        }
+      }
+    } catch (error) {
+      if (content || params.signal?.aborted) {
+        this.discardStreamedMessage(target)
+        throw error
+      }
+      console.warn(`Streaming failed for ${role}, retrying without streaming:`, error)
+      return completeWithSingleDelta()
+    }
+
+    return {
+      content,
+      usage,
+      model: params.model || '',
+    }
+  }
+
+  /**
+   * Publish the final version of a streamed message
+   * Content may differ from the concatenated deltas (e.g. after length limits).
+   */
+  private finishStreamedMessage(meeting: Meeting, message: Message): void {
+    emitMeetingEvent({
+      type: 'MESSAGE_DONE',
+      meetingId: meeting.id,
+      messageId: message.id,
+      message,
+    })
+  }
+
+  /**
+   * Tell clients to drop a streamed draft that will not become a message
+   */
+  private discardStreamedMessage(target: CompletionTarget): void {
+    emitMeetingEvent({
+      type: 'MESSAGE_DONE',
+      meetingId: target.meetingId,
+      messageId: target.messageId!,
+      discarded: true,
+    })
+  }
+
+  /**
+   * Stage executors keyed by stage kind
+   * Each executor records its own artifacts on the meeting.
+   */
+  private readonly stageHandlers: Record<StageKind, StageHandler> = {
+    [MeetingStage.ISSUE_BRIEF]: async (meeting) => {
+      const result = await this.executeIssueBrief(meeting)
+      meeting.artifacts.issueBrief = result.artifact
+      // A plan the user set before the run is kept as is
+      if (meeting.artifacts.speakPlan) {
+        return result
+      }
+      const plan = await this.executeSpeakPlan(meeting)
+      if (plan.artifact) {
+        meeting.artifacts.speakPlan = plan.artifact
+      }
+      return { messages: [...result.messages, ...plan.messages], tokens: result.tokens + plan.tokens }
+    },
+    [MeetingStage.DEPARTMENT_SPEECHES]: (meeting, step, ws) =>
+      this.executeDepartmentSpeeches(meeting, step, ws),
+    [MeetingStage.BRAIN_INTERVENTION]: async (meeting) => {
+      const result = await this.executeBrainIntervention(meeting)
+      meeting.artifacts.brainAnalysis = result.artifact
+      return result
+    },
+    [MeetingStage.PRIME_SUMMARY]: async (meeting) => {
+      const result = await this.executePrimeSummary(meeting)
+      meeting.artifacts.summary = result.artifact
+      return result
+    },
+    [MeetingStage.FOLLOW_UP_DISCUSSION]: (meeting, step, ws) =>
+      this.executeFollowUpDiscussion(meeting, step, ws),
+    [MeetingStage.DEBATE_ROUND]: (meeting, step, ws) =>
+      this.executeDebateRound(meeting, step, ws),
+    [MeetingStage.DECISION_MATRIX]: async (meeting, step) => {
+      const result = await this.executeDecisionMatrix(meeting, step)
+      if (result.artifact) {
+        meeting.artifacts.decisionMatrix = result.artifact
+      }
+      return result
+    },
+    [MeetingStage.VOTE]: async (meeting, step) => {
+      const result = await this.executeVote(meeting, step)
+      if (result.artifact) {
+        meeting.artifacts.vote = result.artifact
+      }
+      return result
+    },
+    [MeetingStage.PRIME_DECISION]: async (meeting) => {
+      const result = await this.executePrimeDecision(meeting)
+      meeting.artifacts.finalDecision = result.artifact
+      return result
+    },
+    [MeetingStage.CLERK_MINUTES]: async (meeting) => {
+      const result = await this.executeClerkMinutes(meeting)
+      meeting.artifacts.minutes = result.artifact
+      return result
+    },
+  }
+
+  /**
+   * Resolve a step of the meeting's flow template
+   * Stage kinds outside the template (e.g. the follow-up round triggered by a
+   * user response) run as ad-hoc steps.
+   */
+  private resolveStep(template: FlowTemplate, stageId: string): { step: FlowStep; inTemplate: boolean } | null {
+    const step = template.stages.find((s) => s.id === stageId)
+    if (step) {
+      return { step, inTemplate: true }
+    }
+    if ((STAGE_KINDS as readonly string[]).includes(stageId)) {
+      return { step: { id: stageId, kind: stageId as StageKind }, inTemplate: false }
+    }
+    return null
+  }
+
+  /**
+   * Execute a step of the meeting's flow with PRIME+BRAIN collaboration
+   * `stageId` is a step id of the meeting's flow template; the returned
+   * `newStage` is the next step id, or COMPLETED at the end of the flow.
    */
   async executeStage(
     meeting: Meeting,
-    stage: MeetingStage,
+    stageId: string,
     ws?: WebSocket
-  ): Promise<{ messages: Message[]; newStage: MeetingStage; degradation?: 'partial' | 'severe' }> {
+  ): Promise<{ messages: Message[]; newStage: string; degradation?: 'partial' | 'severe'; awaitUser?: UserQuestion }> {
     const messages: Message[] = []
+    const template = await getFlowTemplateLoader().resolve(meeting.flowTemplate)
+    const resolved = this.resolveStep(template, stageId)
+
+    if (!resolved) {
+      throw new Error(`Unknown stage "${stageId}" in flow template "${template.id}"`)
+    }
+
+    const { step, inTemplate } = resolved
+    const nextStage = inTemplate ? getNextStep(template, step.id) : getNextStage(step.kind)
+    // Steps after the decision (minutes) wrap up instead of leading back to it
+    const afterDecision = inTemplate
+      ? isAfterDecision(template, step.id)
+      : step.kind === MeetingStage.CLERK_MINUTES
 
     // Check budget constraints
-    const usage = meeting.usage
-    const budget = meeting.budget
+    const budget: BudgetState = {
+      usage: meeting.usage,
+      budget: meeting.budget,
+      costUsd: meeting.usageCostUsd,
+      maxCostUsd: meeting.budgetMaxCostUsd,
+    }
 
     // If budget exceeded, skip to decision
-    if (shouldSkipToDecision(usage, budget) && stage !== MeetingStage.PRIME_DECISION) {
+    if (shouldSkipToDecision(budget) && step.kind !== MeetingStage.PRIME_DECISION) {
+      const decisionStage = inTemplate ? getDecisionStep(template)?.id || MeetingStage.COMPLETED : MeetingStage.PRIME_DECISION
       return {
         messages,
-        newStage: MeetingStage.PRIME_DECISION,
+        newStage: afterDecision ? nextStage : decisionStage,
         degradation: 'severe',
       }
     }
 
     // Check if stage should be skipped
-    if (canSkipStage(stage, usage, budget) && stage !== MeetingStage.PRIME_DECISION) {
+    if (canSkipStage(step.kind, budget, step.canDegrade) && step.kind !== MeetingStage.PRIME_DECISION) {
       return {
         messages,
-        newStage: getNextStage(stage),
+        newStage: nextStage,
         degradation: 'partial',
       }
     }
 
     // Add stage transition message
-    const stageMessage = {
+    const stageMessage: Message = {
       id: `msg-${Date.now()}`,
       timestamp: new Date().toISOString(),
-      role: 'SYSTEM' as const,
-      type: 'system' as const,
-      content: `进入阶段: ${stage}`,
+      role: 'SYSTEM',
+      type: 'system',
+      content: `进入阶段: ${step.id}`,
+      metadata: {
+        stage: step.id,
+        stageKind: step.kind,
+        stageLabel: step.label,
+        flowTemplate: template.id,
+        ...(step.kind === MeetingStage.DEBATE_ROUND ? { round: getNextRound(meeting, step.id) } : {}),
+      },
     }
     messages.push(stageMessage)
 
     // Execute stage-specific logic
-    let newStage = stage
-    let degradation: 'partial' | 'severe' | undefined = undefined
-
-    switch (stage) {
-      case MeetingStage.ISSUE_BRIEF:
-        const issueBrief = await this.executeIssueBrief(meeting)
-        messages.push(...issueBrief.messages)
-        meeting.artifacts.issueBrief = issueBrief.artifact
-        meeting.usage += issueBrief.tokens
-        newStage = getNextStage(stage)
-        break
-
-      case MeetingStage.DEPARTMENT_SPEECHES:
-        const deptSpeeches = await this.executeDepartmentSpeeches(meeting, ws)
-        messages.push(...deptSpeeches.messages)
-        meeting.usage += deptSpeeches.tokens
-        newStage = getNextStage(stage)
-        break
-
-      case MeetingStage.BRAIN_INTERVENTION:
-        const brainIntervention = await this.executeBrainIntervention(meeting)
-        messages.push(...brainIntervention.messages)
-        meeting.artifacts.brainAnalysis = brainIntervention.artifact
-        meeting.usage += brainIntervention.tokens
-        newStage = getNextStage(stage)
-        break
-
-      case MeetingStage.PRIME_SUMMARY:
-        const summary = await this.executePrimeSummary(meeting)
-        messages.push(...summary.messages)
-        meeting.artifacts.summary = summary.artifact
-        meeting.usage += summary.tokens
-        newStage = getNextStage(stage)
-        break
-
-      case MeetingStage.FOLLOW_UP_DISCUSSION:
-        const followUp = await this.executeFollowUpDiscussion(meeting, ws)
-        messages.push(...followUp.messages)
-        meeting.usage += followUp.tokens
-        newStage = getNextStage(stage)
-        break
-
-      case MeetingStage.PRIME_DECISION:
-        const decision = await this.executePrimeDecision(meeting)
-        messages.push(...decision.messages)
-        meeting.artifacts.finalDecision = decision.artifact
-        meeting.usage += decision.tokens
-        newStage = MeetingStage.COMPLETED
-        break
+    let result: Awaited<ReturnType<StageHandler>>
+    let fallbackNotices: Message[] = []
+    this.activeSteps.set(meeting.id, { meeting, step })
+    try {
+      result = await this.stageHandlers[step.kind](meeting, step, ws)
+    } finally {
+      // Failed or cancelled stages still spent what they metered
+      this.activeSteps.delete(meeting.id)
+      this.applySpend(meeting)
+      fallbackNotices = this.fallbackNotices.get(meeting.id) || []
+      this.fallbackNotices.delete(meeting.id)
+    }
+    messages.push(...fallbackNotices, ...result.messages)
+    meeting.usage += result.tokens
 
-      default:
-        newStage = getNextStage(stage)
+    // Speeches in this step may answer earlier BRAIN interventions
+    if (meeting.artifacts.brainInterventions) {
+      resolveInterventions(meeting.artifacts.brainInterventions, [...meeting.messages, ...messages])
     }
 
-    return { messages, newStage, degradation }
+    const newStage = result.repeat ? step.id : nextStage
+
+    // A question asked in this step is answered before the next step runs
+    const asked = takeUnscheduledQuestion(meeting)
+    if (asked && newStage === MeetingStage.COMPLETED) {
+      asked.status = 'skipped'
+    } else if (asked) {
+      asked.forStage = newStage
+      return { messages, newStage, awaitUser: asked }
+    }
+
+    return { messages, newStage }
   }
 
   /**
    * Execute Issue Brief stage
    */
-  private async executeIssueBrief(meeting: Meeting): Promise<{ messages: Message[]; artifact: any; tokens: number }> {
+  private async executeIssueBrief(meeting: Meeting): Promise<{ messages: Message[]; artifact: IssueBrief; tokens: number }> {
     const systemPrompt = await (await this.roleManager).getSystemPrompt('prime')
 
     // Retrieve relevant context from memory
@@ -219,50 +843,123 @@ export class FlowControl {
       minRelevance: 0.6,
     })
 
-    const userPrompt = this.withSpeechLimitInstruction(`请为以下议题创建简报:
+    const limits = this.getSpeechLimits(meeting, 'PRIME')
+    const userPrompt = `请为以下议题创建简报:
 
 议题: ${meeting.topic}
 ${meeting.description ? `描述: ${meeting.description}` : ''}
 
 ${contextPackage.tokens > 0 ? `\n相关背景:\n${contextPackage.content}\n` : ''}(注：以上为历史相关决策和经验，供参考)
-`)
 
-    const response = await this.completeForRole(
+请只返回如下 JSON：
+{
+  "background": "议题背景，${limits.artifactChars}字以内",
+  "keyConsiderations": ["需要各部门重点考虑的问题，每项20字以内"],
+  "constraints": ["已知约束条件，可为空数组"]
+}`
+
+    const messageId = `msg-${Date.now()}-prime-brief`
+    const response = await this.completeStructured(
       'prime',
       [
         { role: 'system', content: systemPrompt || '' },
         { role: 'user', content: userPrompt },
       ],
+      IssueBriefOutputSchema,
       0.4,
-      1000 // Increased to accommodate context
+      1000, // Increased to accommodate context
+      { meetingId: meeting.id }
     )
 
+    const artifact: IssueBrief = response.data
+      ? { topic: meeting.topic, ...response.data }
+      : { topic: meeting.topic, background: response.content, keyConsiderations: [] }
+    const fitted = await this.fitArtifactText(meeting, 'PRIME', artifact.background)
+    artifact.background = fitted.text
+
     const message: Message = {
-      id: `msg-${Date.now()}`,
+      id: messageId,
       timestamp: new Date().toISOString(),
       role: 'PRIME',
       type: 'statement',
-      content: this.enforceSpeechLimit(response.content),
-    }
-
-    const artifact = {
-      topic: meeting.topic,
-      background: response.content,
-      keyConsiderations: [],
+      content: fitted.speech.content,
+      metadata: { servedBy: response.servedBy, usage: response.metered, ...fitted.speech.metadata },
     }
+    this.finishStreamedMessage(meeting, message)
 
     return {
       messages: [message],
       artifact,
-      tokens: response.usage?.totalTokens || this.estimateTokens(response.content),
+      tokens: response.tokens + fitted.tokens,
     }
   }
 
+  /**
+   * Plan who speaks when, based on the brief and each department's expertise
+   */
+  private async executeSpeakPlan(meeting: Meeting): Promise<{ messages: Message[]; artifact?: SpeakPlan; tokens: number }> {
+    const roles = this.getDiscussionRoles(meeting)
+    if (roles.length < 2) {
+      return { messages: [], tokens: 0 }
+    }
+
+    const roleManager = await this.roleManager
+    const systemPrompt = await roleManager.getSystemPrompt('prime')
+    const roleProfiles = roles
+      .map((role) => {
+        const info = roleManager.getRole(role.toLowerCase())
+        return info
+          ? `- ${role}（${info.title}）：专长 ${info.expertise.join('、') || '未注明'}；立场 ${info.stance}`
+          : `- ${role}`
+      })
+      .join('\n')
+    const brief = meeting.artifacts.issueBrief
+
+    const userPrompt = `议题: ${meeting.topic}
+${brief ? `\n简报: ${brief.background}\n关键问题: ${brief.keyConsiderations.join('；')}\n` : ''}
+参会部门：
+${roleProfiles}
+
+请作为总理安排部门发言顺序：与议题关系最密切、能为后续发言提供依据的部门先发言。只返回如下 JSON：
+{
+  "speakingOrder": ["${roles.join('", "')}"],
+  "rationale": "安排理由，100字以内"
+}`
+
+    const response = await this.completeStructured(
+      'prime',
+      [
+        { role: 'system', content: systemPrompt || '' },
+        { role: 'user', content: userPrompt },
+      ],
+      SpeakPlanOutputSchema,
+      0.3,
+      400,
+      { meetingId: meeting.id }
+    )
+
+    const artifact: SpeakPlan = response.data
+      ? { speakingOrder: orderBySpeakPlan(roles, response.data), rationale: response.data.rationale, setBy: 'PRIME' }
+      : { speakingOrder: roles, rationale: '未能生成发言计划，按默认顺序发言', setBy: 'PRIME' }
+
+    const message: Message = {
+      id: `msg-${Date.now()}-prime-speak-plan`,
+      timestamp: new Date().toISOString(),
+      role: 'PRIME',
+      type: 'statement',
+      content: `发言顺序：${artifact.speakingOrder.join(' → ')}`,
+      metadata: { servedBy: response.servedBy, usage: response.metered },
+    }
+    this.finishStreamedMessage(meeting, message)
+
+    return { messages: [message], artifact, tokens: response.tokens }
+  }
+
   /**
    * Execute Department Speeches stage
    */
-  private async executeDepartmentSpeeches(meeting: Meeting, ws?: WebSocket): Promise<{ messages: Message[]; tokens: number }> {
-    const roles = this.shuffleRoles(this.getDiscussionRoles(meeting))
+  private async executeDepartmentSpeeches(meeting: Meeting, step: FlowStep, ws?: WebSocket): Promise<{ messages: Message[]; tokens: number }> {
+    const roles = this.getSpeakingOrder(meeting, this.getDiscussionRoles(meeting, step.roles))
     const messages: Message[] = []
     let totalTokens = 0
 
@@ -290,25 +987,24 @@ ${contextPackage.tokens > 0 ? `\n相关背景:\n${contextPackage.content}\n` : '
       })
       .join('\n\n')
 
-    for (const role of roles) {
+    const speak = async (role: string, discussionSoFar: string, parallel: boolean, openInterventions = '', maxTokens = 800) => {
+      if (maxTokens < MIN_OUTPUT_TOKENS || !this.hasOutputAllowance(meeting, role)) {
+        return { message: this.createAllowanceSkipMessage(role), tokens: 0 }
+      }
+
       const systemPrompt = await (await this.roleManager).getSystemPrompt(role.toLowerCase())
       const roleFocus = this.getRoleFocusInstruction(role)
-      const liveDiscussionSoFar = [
-        baseDiscussionSoFar,
-        ...messages.map((m) => `${m.role}: ${m.content}`),
-      ]
-        .filter(Boolean)
-        .join('\n\n')
       const userPrompt = this.withSpeechLimitInstruction(`议题: ${meeting.topic}
 
 角色要求:
 ${roleFocus}
 
 已发言内容:
-${liveDiscussionSoFar}
+${discussionSoFar}${openInterventions}
 
-请结合以上发言，提供你的完整意见和建议。`)
+请结合以上发言，提供你的完整意见和建议。`, meeting, role)
 
+      const messageId = `msg-${Date.now()}-${role}`
       const response = await this.completeForRole(
         role.toLowerCase(),
         [
@@ -316,44 +1012,205 @@ ${liveDiscussionSoFar}
           { role: 'user', content: userPrompt },
         ],
         0.6,
-        800
+        maxTokens,
+        { meetingId: meeting.id, messageId, parallel }
       )
 
+      const speech = await this.fitSpeech(meeting, role, response.content, parallel)
       const message: Message = {
-        id: `msg-${Date.now()}-${role}`,
+        id: messageId,
         timestamp: new Date().toISOString(),
         role,
         type: 'statement',
-        content: this.enforceSpeechLimit(response.content),
+        content: speech.content,
+        metadata: { servedBy: response.servedBy, usage: response.metered, ...speech.metadata },
       }
+      this.finishStreamedMessage(meeting, message)
+
+      return {
+        message,
+        tokens: (response.usage?.totalTokens || countTokens(response.servedBy.model, response.content)) + speech.tokens,
+      }
+    }
+
+    // Blind mode: every department speaks independently, so all speeches can run at once
+    if (meeting.blindMode) {
+      // None of them sees the others' spend, so each gets an equal share of the step's allowance
+      const share = Math.min(800, Math.floor(this.getStageRemainingOutput(meeting) / roles.length))
+      const speeches = await Promise.all(
+        roles.map((role) => speak(role, baseDiscussionSoFar, true, '', share))
+      )
+      for (const speech of speeches) {
+        messages.push(speech.message)
+        totalTokens += speech.tokens
+      }
+      return { messages, tokens: totalTokens }
+    }
 
+    for (const [index, role] of roles.entries()) {
+      const liveDiscussionSoFar = [
+        baseDiscussionSoFar,
+        ...messages.filter((m) => m.type !== 'system').map((m) => `${m.role}: ${m.content}`),
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+
+      const openInterventions = this.formatOpenInterventions(meeting, role, messages)
+      const { message, tokens } = await speak(role, liveDiscussionSoFar, false, openInterventions)
       messages.push(message)
-      totalTokens += response.usage?.totalTokens || this.estimateTokens(response.content)
+      totalTokens += tokens
+
+      // BRAIN may step in after each speech that later speakers will hear;
+      // the last one is analyzed by the BRAIN intervention stage
+      const intervention = index < roles.length - 1
+        ? await this.evaluateLiveIntervention(meeting, messages, roles)
+        : { messages: [], tokens: 0 }
+      messages.push(...intervention.messages)
+      totalTokens += intervention.tokens
+
+      // Send WebSocket update if available
+      if (ws) {
+        for (const sent of [message, ...intervention.messages]) {
+          ws.send(JSON.stringify({
+            type: 'MESSAGE',
+            meetingId: meeting.id,
+            message: sent,
+          }))
+        }
+      }
+    }
+
+    return { messages, tokens: totalTokens }
+  }
+
+  /**
+   * JSON field inviting the model to ask the user, when the meeting allows it
+   */
+  private getUserQuestionField(meeting: Meeting): string {
+    return canAskUser(meeting)
+      ? ',\n  "userQuestion": "仅当缺少只有会议发起人才能提供的信息时，向其提出的一个问题；否则为 null"'
+      : ''
+  }
+
+  /**
+   * Put a question to the user; the runner waits for the answer after this step
+   */
+  private askUser(meeting: Meeting, role: string, question: string): Message {
+    const record = createUserQuestion(role, question)
+    meeting.userQuestions = [...(meeting.userQuestions || []), record]
+
+    const message: Message = {
+      id: `msg-${Date.now()}-${role.toLowerCase()}-ask-user`,
+      timestamp: record.askedAt,
+      role: record.askedBy,
+      type: 'question',
+      content: question,
+      metadata: { userQuestionId: record.id },
+    }
+    this.finishStreamedMessage(meeting, message)
+    return message
+  }
+
+  /**
+   * BRAIN interventions from this step still waiting for the speaker's answer
+   */
+  private formatOpenInterventions(meeting: Meeting, role: string, stageMessages: Message[]): string {
+    const interventions = meeting.artifacts.brainInterventions || []
+    resolveInterventions(interventions, [...meeting.messages, ...stageMessages])
+
+    const open = interventions.filter((item) =>
+      !item.resolved &&
+      (!item.targetRole || item.targetRole === role) &&
+      stageMessages.some((m) => m.id === item.id)
+    )
+    if (open.length === 0) {
+      return ''
+    }
+    return `\n\n主脑（BRAIN）的介入，请在发言中回应:\n${open
+      .map((item) => `- ${INTERVENTION_LABELS[item.type]}: ${item.content}`)
+      .join('\n')}`
+  }
+
+  /**
+   * Let BRAIN evaluate the discussion after a department speech
+   * Elaboration requests are answered by their target role right away;
+   * questions and perspectives are put to the next speakers.
+   */
+  private async evaluateLiveIntervention(
+    meeting: Meeting,
+    stageMessages: Message[],
+    participatingRoles: string[]
+  ): Promise<{ messages: Message[]; tokens: number }> {
+    const none = { messages: [], tokens: 0 }
+    if (!this.hasOutputAllowance(meeting, 'BRAIN')) {
+      return none
+    }
+
+    const context: DiscussionContext = {
+      meetingId: meeting.id,
+      topic: meeting.topic,
+      messages: [...meeting.messages, ...stageMessages],
+      currentStage: this.activeSteps.get(meeting.id)?.step.id || MeetingStage.DEPARTMENT_SPEECHES,
+      participatingRoles,
+      remainingBudget: meeting.budget - meeting.usage,
+    }
+    if (!(await this.brain.shouldIntervene(context))) {
+      return none
+    }
 
-      // Send WebSocket update if available
-      if (ws) {
-        ws.send(JSON.stringify({
-          type: 'MESSAGE',
-          meetingId: meeting.id,
-          message,
-        }))
-      }
+    const intervention = await this.brain.decideIntervention(context)
+    if (!intervention) {
+      return none
+    }
+    const message = this.brain.createBrainMessage(intervention)
+    const record = createInterventionRecord(intervention, message)
+    if (!record) {
+      return none
+    }
+    meeting.artifacts.brainInterventions = [...(meeting.artifacts.brainInterventions || []), record]
+    this.finishStreamedMessage(meeting, message)
+
+    const messages = [message]
+    let tokens = intervention.tokens || countTokens(undefined, intervention.content)
+    const targetRole = intervention.targetRole
+    if (
+      intervention.type === 'elaboration_request' &&
+      targetRole &&
+      participatingRoles.includes(targetRole) &&
+      this.hasOutputAllowance(meeting, targetRole)
+    ) {
+      const answer = await this.getClarification(meeting, targetRole, intervention.content, [...stageMessages, message])
+      messages.push(answer.message)
+      tokens += answer.tokens
     }
 
-    return { messages, tokens: totalTokens }
+    return { messages, tokens }
   }
 
   /**
    * Execute BRAIN Intervention stage - Analyze discussions and identify issues
    */
-  private async executeBrainIntervention(meeting: Meeting): Promise<{ messages: Message[]; artifact: any; tokens: number }> {
+  private async executeBrainIntervention(
+    meeting: Meeting,
+    stageMessages: Message[] = [],
+    discussionLabel = '第一轮部门发言'
+  ): Promise<{ messages: Message[]; artifact: BrainAnalysis; tokens: number }> {
     const messages: Message[] = []
+
+    if (!this.hasOutputAllowance(meeting, 'BRAIN')) {
+      return {
+        messages: [this.createAllowanceSkipMessage('BRAIN')],
+        artifact: { analysis: '', consensus: [], disagreements: [] },
+        tokens: 0,
+      }
+    }
     const participatingRoles = this.getDiscussionRoles(meeting)
 
     // Build context for BRAIN
+    const discussion = [...meeting.messages, ...stageMessages]
     const context: DiscussionContext = {
       topic: meeting.topic,
-      messages: meeting.messages,
+      messages: discussion,
       currentStage: 'brain_intervention',
       participatingRoles,
       remainingBudget: meeting.budget - meeting.usage,
@@ -363,81 +1220,91 @@ ${liveDiscussionSoFar}
     const systemPrompt = `你是内阁主脑（BRAIN），负责分析和引导讨论。
 
 你的任务：
-1. 分析第一轮部门发言
+1. 分析${discussionLabel}
 2. 识别共识点和分歧点
 3. 找出需要澄清的关键问题
 4. 如有必要，指定某个角色对特定问题进行阐述
 
 请以JSON格式回复分析结果。`
 
-    const recentDiscussion = meeting.messages
+    const recentDiscussion = discussion
       .filter(m => participatingRoles.includes(m.role))
       .map(m => `${m.role}: ${m.content}`)
       .join('\n\n')
 
-    const userPrompt = this.withSpeechLimitInstruction(`议题: ${meeting.topic}
+    const userPrompt = `议题: ${meeting.topic}
 
-第一轮部门发言：
+${discussionLabel}：
 ${recentDiscussion}
 
-请分析以上讨论，并返回：
+请分析以上讨论，并只返回如下 JSON：
 {
-  "analysis": "对整体讨论的分析",
+  "analysis": "对整体讨论的分析，${this.getSpeechLimits(meeting, 'BRAIN').artifactChars}字以内",
   "consensus": ["共识点1", "共识点2"],
   "disagreements": ["分歧点1", "分歧点2"],
   "clarificationNeeded": {
-    "role": "CRITIC|FINANCE|WORKS",
+    "role": "${participatingRoles.join('|')}",
     "question": "需要该角色澄清的问题"
   },
-  "shouldIntervene": true|false
+  "shouldIntervene": true|false${this.getUserQuestionField(meeting)}
 }
 
-如果没有需要澄清的问题，将 shouldIntervene 设为 false，clarificationNeeded 设为 null。`)
+如果没有需要澄清的问题，将 shouldIntervene 设为 false，clarificationNeeded 设为 null。`
+
+    const messageId = `msg-${Date.now()}-brain`
 
     try {
-      const response = await this.completeForRole(
+      const response = await this.completeStructured(
         'brain',
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
+        BrainAnalysisOutputSchema,
         0.3,
-        1000
+        1000,
+        { meetingId: meeting.id }
       )
+      const analysis = response.data
+      const fitted = await this.fitArtifactText(meeting, 'BRAIN', analysis?.analysis || response.content)
+      let tokens = response.tokens + fitted.tokens
 
       const message: Message = {
-        id: `msg-${Date.now()}-brain`,
+        id: messageId,
         timestamp: new Date().toISOString(),
         role: 'BRAIN',
         type: 'statement',
-        content: this.enforceSpeechLimit(response.content),
+        content: fitted.speech.content,
+        metadata: { servedBy: response.servedBy, usage: response.metered, ...fitted.speech.metadata },
       }
+      this.finishStreamedMessage(meeting, message)
 
       messages.push(message)
 
-      // Parse JSON response
-      const jsonMatch = response.content.match(/```json\n?([\s\S]*?)\n?```/) ||
-                         response.content.match(/\{[\s\S]*\}/)
-      let analysis = null
-      if (jsonMatch) {
-        try {
-          analysis = JSON.parse(jsonMatch[1] || jsonMatch[0])
-        } catch {
-          // Failed to parse, continue
-        }
-      }
-
       // If clarification needed, get the response
-      if (analysis?.shouldIntervene && analysis?.clarificationNeeded?.role) {
-        const targetRole = analysis.clarificationNeeded.role
-        if (participatingRoles.includes(String(targetRole).toUpperCase())) {
-          const clarification = await this.getClarification(meeting, targetRole, analysis.clarificationNeeded.question)
+      if (analysis?.shouldIntervene && analysis.clarificationNeeded) {
+        const targetRole = analysis.clarificationNeeded.role.toUpperCase()
+        const record = createInterventionRecord({
+          type: 'elaboration_request',
+          content: analysis.clarificationNeeded.question,
+          targetRole,
+        }, message)
+        if (record) {
+          meeting.artifacts.brainInterventions = [...(meeting.artifacts.brainInterventions || []), record]
+        }
+        if (participatingRoles.includes(targetRole) && this.hasOutputAllowance(meeting, targetRole)) {
+          const clarification = await this.getClarification(meeting, targetRole, analysis.clarificationNeeded.question, stageMessages)
           messages.push(clarification.message)
+          tokens += clarification.tokens
         }
       }
 
-      const artifact = {
-        analysis: response.content,
+      if (analysis?.userQuestion && canAskUser(meeting)) {
+        messages.push(this.askUser(meeting, 'BRAIN', analysis.userQuestion))
+      }
+
+      const artifact: BrainAnalysis = {
+        analysis: fitted.text,
         parsed: analysis,
         consensus: analysis?.consensus || [],
         disagreements: analysis?.disagreements || [],
@@ -446,9 +1313,12 @@ ${recentDiscussion}
       return {
         messages,
         artifact,
-        tokens: response.usage?.totalTokens || this.estimateTokens(response.content),
+        tokens,
       }
     } catch (error) {
+      if (error instanceof MeetingCancelledError) {
+        throw error
+      }
       console.error('BRAIN intervention error:', error)
       // Fallback
       const fallbackMessage: Message = {
@@ -469,9 +1339,14 @@ ${recentDiscussion}
   /**
    * Get clarification from a role
    */
-  private async getClarification(meeting: Meeting, role: string, question: string): Promise<{ message: Message; tokens: number }> {
+  private async getClarification(
+    meeting: Meeting,
+    role: string,
+    question: string,
+    stageMessages: Message[] = []
+  ): Promise<{ message: Message; tokens: number }> {
     const systemPrompt = await (await this.roleManager).getSystemPrompt(role.toLowerCase())
-    const discussion = meeting.messages
+    const discussion = [...meeting.messages, ...stageMessages]
       .filter(m => ['CRITIC', 'FINANCE', 'WORKS', 'BRAIN'].includes(m.role))
       .map(m => `${m.role}: ${m.content}`)
       .join('\n\n')
@@ -484,8 +1359,9 @@ ${discussion}
 BRAIN 请你澄清以下问题：
 ${question}
 
-请提供详细回答。`)
+请提供详细回答。`, meeting, role)
 
+    const messageId = `msg-${Date.now()}-${role}-clarification`
     const response = await this.completeForRole(
       role.toLowerCase(),
       [
@@ -493,27 +1369,31 @@ ${question}
         { role: 'user', content: userPrompt },
       ],
       0.5,
-      800
+      800,
+      { meetingId: meeting.id, messageId }
     )
 
+    const speech = await this.fitSpeech(meeting, role, response.content)
     const message: Message = {
-      id: `msg-${Date.now()}-${role}-clarification`,
+      id: messageId,
       timestamp: new Date().toISOString(),
       role: role.toUpperCase(),
       type: 'statement',
-      content: this.enforceSpeechLimit(response.content),
+      content: speech.content,
+      metadata: { servedBy: response.servedBy, usage: response.metered, ...speech.metadata },
     }
+    this.finishStreamedMessage(meeting, message)
 
     return {
       message,
-      tokens: response.usage?.totalTokens || this.estimateTokens(response.content),
+      tokens: (response.usage?.totalTokens || countTokens(response.servedBy.model, response.content)) + speech.tokens,
     }
   }
 
   /**
    * Execute PRIME Summary stage
    */
-  private async executePrimeSummary(meeting: Meeting): Promise<{ messages: Message[]; artifact: any; tokens: number }> {
+  private async executePrimeSummary(meeting: Meeting): Promise<{ messages: Message[]; artifact: Summary; tokens: number }> {
     const systemPrompt = await (await this.roleManager).getSystemPrompt('prime')
     const participatingRoles = this.getDiscussionRoles(meeting)
 
@@ -528,54 +1408,66 @@ ${question}
       ? `\n\n主脑分析结果：\n${JSON.stringify(brainAnalysis, null, 2)}`
       : ''
 
-    const userPrompt = this.withSpeechLimitInstruction(`议题: ${meeting.topic}
+    const userPrompt = `议题: ${meeting.topic}
 
 各部门发言及主脑分析：
 ${discussion}${analysisContext}
 
-请作为总理，提供一份结构化总结，包含：
-1. **核心观点**：各部门的主要观点
-2. **共识点**：各方达成一致的地方
-3. **分歧点**：需要进一步讨论的问题
-4. **后续方向**：第二轮讨论需要聚焦的重点
-
-请用清晰的标题和段落组织回答。`)
-
-    const response = await this.completeForRole(
+请作为总理，提供一份结构化总结，并只返回如下 JSON：
+{
+  "summary": "总结正文，涵盖核心观点与后续方向，${this.getSpeechLimits(meeting, 'PRIME').artifactChars}字以内",
+  "keyPoints": ["各部门的主要观点"],
+  "consensus": "各方达成一致的地方",
+  "disagreements": ["需要进一步讨论的分歧点"]${this.getUserQuestionField(meeting)}
+}`
+
+    const messageId = `msg-${Date.now()}-prime-summary`
+    const response = await this.completeStructured(
       'prime',
       [
         { role: 'system', content: systemPrompt || '' },
         { role: 'user', content: userPrompt },
       ],
+      SummaryOutputSchema,
       0.4,
-      1500
+      1500,
+      { meetingId: meeting.id }
     )
 
+    const { userQuestion, ...summary } = response.data || { summary: response.content }
+    const artifact: Summary = { ...summary, structure: 'PRIME总结' }
+    const fitted = await this.fitArtifactText(meeting, 'PRIME', artifact.summary)
+    artifact.summary = fitted.text
+
     const message: Message = {
-      id: `msg-${Date.now()}-prime-summary`,
+      id: messageId,
       timestamp: new Date().toISOString(),
       role: 'PRIME',
       type: 'statement',
-      content: this.enforceSpeechLimit(response.content),
+      content: fitted.speech.content,
+      metadata: { servedBy: response.servedBy, usage: response.metered, ...fitted.speech.metadata },
     }
+    this.finishStreamedMessage(meeting, message)
 
-    const artifact = {
-      summary: response.content,
-      structure: 'PRIME总结',
+    const messages = [message]
+    if (userQuestion && canAskUser(meeting)) {
+      messages.push(this.askUser(meeting, 'PRIME', userQuestion))
     }
 
     return {
-      messages: [message],
+      messages,
       artifact,
-      tokens: response.usage?.totalTokens || this.estimateTokens(response.content),
+      tokens: response.tokens + fitted.tokens,
     }
   }
 
   /**
    * Execute Follow-up Discussion stage (Round 2)
+   * Later rounds of a debate step run through here too, answering the
+   * previous round's speeches instead of PRIME's summary.
    */
-  private async executeFollowUpDiscussion(meeting: Meeting, ws?: WebSocket): Promise<{ messages: Message[]; tokens: number }> {
-    const roles = this.shuffleRoles(this.getDiscussionRoles(meeting))
+  private async executeFollowUpDiscussion(meeting: Meeting, step: FlowStep, ws?: WebSocket): Promise<{ messages: Message[]; tokens: number }> {
+    const roles = this.getSpeakingOrder(meeting, this.getDiscussionRoles(meeting, step.roles))
     const messages: Message[] = []
     let totalTokens = 0
 
@@ -583,25 +1475,23 @@ ${discussion}${analysisContext}
       return { messages, tokens: 0 }
     }
 
-    const primeSummary = meeting.messages.find(m => m.id.includes('prime-summary'))
-    const brainAnalysis = meeting.artifacts.brainAnalysis
-
-    // Build focused discussion points
-    const discussionPoints = brainAnalysis?.disagreements?.length > 0
-      ? `需要重点讨论的分歧点：\n${brainAnalysis.disagreements.map((d, i) => `${i + 1}. ${d}`).join('\n')}`
-      : '基于群主总结，请判断是否需要补充观点。'
+    const prompt = step.kind === MeetingStage.DEBATE_ROUND
+      ? this.getDebateRoundPrompt(meeting, step, roles)
+      : this.getFollowUpPrompt(meeting)
 
     for (const role of roles) {
+      if (!this.hasOutputAllowance(meeting, role)) {
+        messages.push(this.createAllowanceSkipMessage(role))
+        continue
+      }
+
       const roleSystemPrompt = await (await this.roleManager).getSystemPrompt(role.toLowerCase())
       const roleFocus = this.getRoleFocusInstruction(role)
       const latestUserMessage = [...meeting.messages].reverse().find((m) => m.role === 'USER')
 
       const followupPrompt = this.withSpeechLimitInstruction(`议题: ${meeting.topic}
 
-群主总结：
-${primeSummary?.content || '（无）'}
-
-${discussionPoints}
+${prompt.context}
 
 用户最新追加意见：
 ${latestUserMessage?.content || '（无）'}
@@ -609,12 +1499,10 @@ ${latestUserMessage?.content || '（无）'}
 角色要求：
 ${roleFocus}
 
-请判断是否需要继续发言：
-- 如果需要补充或回应分歧点，请直接给出你的发言。
-- 如果群主总结已充分涵盖你的观点，请仅回复 "NO_RESPONSE"。
-
-注意：第二轮重点是对分歧点的回应和补充。`)
+${prompt.instructions}`, meeting, role)
 
+      const messageId = `msg-${Date.now()}-${role}-followup`
+      const streamTarget = { meetingId: meeting.id, messageId }
       const followup = await this.completeForRole(
         role.toLowerCase(),
         [
@@ -622,28 +1510,37 @@ ${roleFocus}
           { role: 'user', content: followupPrompt },
         ],
         0.5,
-        800
+        800,
+        streamTarget
       )
 
-      const content = this.enforceSpeechLimit(followup.content.trim())
+      const followupTokens = followup.usage?.totalTokens || countTokens(followup.servedBy.model, followup.content)
+      // Only the opening of a reply signals a pass; later mentions are part of a real speech
+      const opening = Array.from(normalizeSpeech(followup.content))
+        .slice(0, this.getSpeechLimits(meeting, role).displayChars)
+        .join('')
       const noResponseSignals = ['NO_RESPONSE', '不发言', '无需补充', '无补充', '不需要补充', '总结已涵盖', '无新增观点']
-      const shouldSkip = noResponseSignals.some((signal) => content.includes(signal))
+      const shouldSkip = noResponseSignals.some((signal) => opening.includes(signal))
 
       if (shouldSkip) {
-        totalTokens += followup.usage?.totalTokens || this.estimateTokens(content)
+        this.discardStreamedMessage(streamTarget)
+        totalTokens += followupTokens
         continue
       }
 
+      const speech = await this.fitSpeech(meeting, role, followup.content)
       const followupMessage: Message = {
-        id: `msg-${Date.now()}-${role}-followup`,
+        id: messageId,
         timestamp: new Date().toISOString(),
         role,
         type: 'statement',
-        content,
+        content: speech.content,
+        metadata: { servedBy: followup.servedBy, usage: followup.metered, ...speech.metadata },
       }
+      this.finishStreamedMessage(meeting, followupMessage)
 
       messages.push(followupMessage)
-      totalTokens += followup.usage?.totalTokens || this.estimateTokens(content)
+      totalTokens += followupTokens + speech.tokens
 
       // Send WebSocket update if available
       if (ws) {
@@ -658,52 +1555,545 @@ ${roleFocus}
     return { messages, tokens: totalTokens }
   }
 
+  /**
+   * Follow-up prompt answering PRIME's latest summary and BRAIN's disagreements
+   */
+  private getFollowUpPrompt(meeting: Meeting): { context: string; instructions: string } {
+    // Multi-round flows summarise more than once; respond to the latest summary
+    const primeSummary = [...meeting.messages].reverse().find(m => m.id.includes('prime-summary'))
+    const brainAnalysis = meeting.artifacts.brainAnalysis
+
+    // Build focused discussion points
+    const discussionPoints = brainAnalysis?.disagreements?.length > 0
+      ? `需要重点讨论的分歧点：\n${brainAnalysis.disagreements.map((d, i) => `${i + 1}. ${d}`).join('\n')}`
+      : '基于群主总结，请判断是否需要补充观点。'
+
+    return {
+      context: `群主总结：
+${primeSummary?.content || '（无）'}
+
+${discussionPoints}`,
+      instructions: `请判断是否需要继续发言：
+- 如果需要补充或回应分歧点，请直接给出你的发言。
+- 如果群主总结已充分涵盖你的观点，请仅回复 "NO_RESPONSE"。
+
+注意：第二轮重点是对分歧点的回应和补充。`,
+    }
+  }
+
+  /**
+   * Debate prompt answering the previous round's speeches and disagreements
+   */
+  private getDebateRoundPrompt(meeting: Meeting, step: FlowStep, roles: string[]): { context: string; instructions: string } {
+    const roundNumber = getNextRound(meeting, step.id)
+    const previous = (meeting.artifacts.debateRounds || [])
+      .filter((round) => round.stepId === step.id)
+      .at(-1)
+    const speeches = getRoundMessages(meeting.messages, step.id, roundNumber - 1)
+      .filter((m) => m.type === 'statement' && roles.includes(m.role))
+      .map((m) => `${m.role}: ${m.content}`)
+      .join('\n\n')
+
+    const discussionPoints = previous?.disagreements.length
+      ? `上一轮的分歧点：\n${previous.disagreements.map((d, i) => `${i + 1}. ${d}`).join('\n')}`
+      : '上一轮未发现明确分歧，请判断是否需要补充观点。'
+
+    return {
+      context: `第 ${roundNumber - 1} 轮辩论发言：
+${speeches || '（无）'}
+
+${discussionPoints}`,
+      instructions: `请判断是否需要继续发言：
+- 如果需要回应分歧点或上一轮的发言，请直接给出你的发言。
+- 如果上一轮发言已充分涵盖你的观点，请仅回复 "NO_RESPONSE"。
+
+注意：这是第 ${roundNumber} 轮辩论，重点是回应上一轮的分歧，推动各方观点收敛。`,
+    }
+  }
+
+  /**
+   * Execute one round of a debate step
+   * The first round opens with department speeches, later rounds answer the
+   * previous round's disagreements; BRAIN then scores convergence and the step
+   * repeats until it converges or reaches its round cap.
+   */
+  private async executeDebateRound(meeting: Meeting, step: FlowStep, ws?: WebSocket): Promise<{ messages: Message[]; tokens: number; repeat: boolean }> {
+    const roundNumber = getNextRound(meeting, step.id)
+    const speeches = roundNumber === 1
+      ? await this.executeDepartmentSpeeches(meeting, step, ws)
+      : await this.executeFollowUpDiscussion(meeting, step, ws)
+
+    // Without BRAIN there is no convergence score, so the debate ends here
+    if (!this.hasOutputAllowance(meeting, 'BRAIN')) {
+      return {
+        messages: [...speeches.messages, this.createAllowanceSkipMessage('BRAIN')],
+        tokens: speeches.tokens,
+        repeat: false,
+      }
+    }
+
+    const analysis = await this.executeBrainIntervention(meeting, speeches.messages, `第 ${roundNumber} 轮辩论发言`)
+    meeting.artifacts.brainAnalysis = analysis.artifact
+    const { round, repeat } = recordDebateRound(meeting, step, analysis.artifact)
+
+    const percent = Math.round(round.convergence * 100)
+    const outcome = round.converged
+      ? '各方观点已收敛，结束辩论。'
+      : repeat ? '继续下一轮辩论。' : '已达轮数上限，结束辩论。'
+    const verdict: Message = {
+      id: `msg-${Date.now()}-debate-round`,
+      timestamp: new Date().toISOString(),
+      role: 'SYSTEM',
+      type: 'system',
+      content: `第 ${round.round} 轮收敛度 ${percent}%（共识 ${round.consensus.length} 项，分歧 ${round.disagreements.length} 项），${outcome}`,
+      metadata: { debateRound: round },
+    }
+
+    return {
+      messages: [...speeches.messages, ...analysis.messages, verdict],
+      tokens: speeches.tokens + analysis.tokens,
+      repeat,
+    }
+  }
+
+  /**
+   * Execute Decision Matrix stage
+   * PRIME draws up alternatives, then each minister scores every option on
+   * its own dimension (see MATRIX_DIMENSIONS); the step can weight roles.
+   */
+  private async executeDecisionMatrix(meeting: Meeting, step: FlowStep): Promise<{ messages: Message[]; artifact?: DecisionMatrix; tokens: number }> {
+    const dimensions = getMatrixDimensions(
+      this.getSpeakingOrder(meeting, this.getDiscussionRoles(meeting, step.roles)),
+      step.weights
+    )
+    if (dimensions.length === 0) {
+      return { messages: [], tokens: 0 }
+    }
+
+    const messages: Message[] = []
+    const primePrompt = await (await this.roleManager).getSystemPrompt('prime')
+    const summary = meeting.artifacts.summary
+    const discussion = meeting.messages
+      .filter((m) => m.type !== 'system')
+      .map((m) => `${m.role}: ${m.content}`)
+      .join('\n\n')
+
+    const proposal = await this.completeStructured(
+      'prime',
+      [
+        { role: 'system', content: primePrompt || '' },
+        {
+          role: 'user',
+          content: `议题: ${meeting.topic}
+${summary ? `\n会议总结: ${summary.summary}\n` : ''}
+讨论内容:
+${discussion}
+
+请根据讨论拟定 2 至 4 个互相区别、可以落地的备选方案。只返回如下 JSON：
+{
+  "options": [
+    { "title": "方案名称，20字以内", "description": "方案要点，60字以内" }
+  ]
+}`,
+        },
+      ],
+      DecisionOptionsOutputSchema,
+      0.4,
+      800,
+      { meetingId: meeting.id }
+    )
+    let tokens = proposal.tokens
+
+    if (!proposal.data) {
+      messages.push({
+        id: `msg-${Date.now()}-decision-matrix-skipped`,
+        timestamp: new Date().toISOString(),
+        role: 'SYSTEM',
+        type: 'system',
+        content: '未能拟定备选方案，跳过方案评分。',
+      })
+      return { messages, tokens }
+    }
+
+    const options = createDecisionOptions(proposal.data.options)
+    const optionList = options.map((option) => `${option.id}. ${option.title}：${option.description}`).join('\n')
+    const proposalMessage: Message = {
+      id: `msg-${Date.now()}-prime-options`,
+      timestamp: new Date().toISOString(),
+      role: 'PRIME',
+      type: 'statement',
+      content: `备选方案：\n${optionList}`,
+      metadata: { servedBy: proposal.servedBy, usage: proposal.metered },
+    }
+    this.finishStreamedMessage(meeting, proposalMessage)
+    messages.push(proposalMessage)
+
+    const scores: DecisionMatrix['scores'] = []
+    for (const { role, dimension } of dimensions) {
+      if (!this.hasOutputAllowance(meeting, role)) {
+        messages.push(this.createAllowanceSkipMessage(role))
+        continue
+      }
+
+      const rolePrompt = await (await this.roleManager).getSystemPrompt(role.toLowerCase())
+      const response = await this.completeStructured(
+        role.toLowerCase(),
+        [
+          { role: 'system', content: rolePrompt || '' },
+          {
+            role: 'user',
+            content: `议题: ${meeting.topic}
+
+备选方案：
+${optionList}
+
+请只从「${dimension}」的角度为每个方案打 1 到 10 分（分数越高越好），并给出一句话理由。只返回如下 JSON：
+{
+  "scores": [
+    { "optionId": "${options[0].id}", "score": 7, "rationale": "理由，30字以内" }
+  ]
+}`,
+          },
+        ],
+        OptionScoresOutputSchema,
+        0.3,
+        500,
+        { meetingId: meeting.id }
+      )
+      tokens += response.tokens
+
+      // Scores for unknown options, or repeated ones, are dropped
+      const roleScores = (response.data?.scores || [])
+        .map((entry) => ({ ...entry, optionId: entry.optionId.toUpperCase() }))
+        .filter((entry, i, all) =>
+          options.some((option) => option.id === entry.optionId)
+          && all.findIndex((other) => other.optionId === entry.optionId) === i)
+      if (roleScores.length === 0) {
+        continue
+      }
+      scores.push(...roleScores.map((entry) => ({ ...entry, role })))
+
+      const message: Message = {
+        id: `msg-${Date.now()}-${role}-scores`,
+        timestamp: new Date().toISOString(),
+        role,
+        type: 'statement',
+        content: roleScores.map((entry) => `方案${entry.optionId} ${entry.score} 分：${entry.rationale}`).join('；'),
+        metadata: { servedBy: response.servedBy, usage: response.metered },
+      }
+      this.finishStreamedMessage(meeting, message)
+      messages.push(message)
+    }
+
+    const artifact = scoreDecisionMatrix(options, dimensions, scores)
+    const recommended = artifact.recommendedOptionId
+    messages.push({
+      id: `msg-${Date.now()}-decision-matrix`,
+      timestamp: new Date().toISOString(),
+      role: 'SYSTEM',
+      type: 'system',
+      content: recommended
+        ? `方案评分：方案${recommended}加权得分最高（${artifact.totals[recommended]} 分）`
+        : '方案评分：没有有效评分',
+    })
+
+    return { messages, artifact, tokens }
+  }
+
+  /**
+   * Execute Vote stage
+   * PRIME puts options to the vote, then each minister votes on every option;
+   * the weighted tally goes to PRIME's decision.
+   */
+  private async executeVote(meeting: Meeting, step: FlowStep): Promise<{ messages: Message[]; artifact?: VoteTally; tokens: number }> {
+    const roles = this.getSpeakingOrder(meeting, this.getDiscussionRoles(meeting, step.roles))
+    if (roles.length === 0) {
+      return { messages: [], tokens: 0 }
+    }
+
+    const messages: Message[] = []
+    const primePrompt = await (await this.roleManager).getSystemPrompt('prime')
+    const discussion = meeting.messages
+      .filter((m) => m.type !== 'system')
+      .map((m) => `${m.role}: ${m.content}`)
+      .join('\n\n')
+
+    const proposal = await this.completeStructured(
+      'prime',
+      [
+        { role: 'system', content: primePrompt || '' },
+        {
+          role: 'user',
+          content: `议题: ${meeting.topic}\n\n讨论内容:\n${discussion}\n\n请根据讨论提出 2 至 4 个互相区别的备选方案供各部门表决。只返回如下 JSON：
+{
+  "options": ["方案一，30字以内", "方案二，30字以内"]
+}`,
+        },
+      ],
+      VoteOptionsOutputSchema,
+      0.3,
+      400,
+      { meetingId: meeting.id }
+    )
+    let tokens = proposal.tokens
+
+    if (!proposal.data) {
+      messages.push({
+        id: `msg-${Date.now()}-vote-skipped`,
+        timestamp: new Date().toISOString(),
+        role: 'SYSTEM',
+        type: 'system',
+        content: '未能提出表决方案，跳过表决。',
+      })
+      return { messages, tokens }
+    }
+
+    const options = proposal.data.options
+    const optionList = options.map((option, i) => `${i + 1}. ${option}`).join('\n')
+    const proposalMessage: Message = {
+      id: `msg-${Date.now()}-prime-vote-options`,
+      timestamp: new Date().toISOString(),
+      role: 'PRIME',
+      type: 'statement',
+      content: `请各部门表决：\n${optionList}`,
+      metadata: { servedBy: proposal.servedBy, usage: proposal.metered },
+    }
+    this.finishStreamedMessage(meeting, proposalMessage)
+    messages.push(proposalMessage)
+
+    const ballots: Ballot[] = []
+    for (const role of roles) {
+      if (!this.hasOutputAllowance(meeting, role)) {
+        messages.push(this.createAllowanceSkipMessage(role))
+        continue
+      }
+
+      const rolePrompt = await (await this.roleManager).getSystemPrompt(role.toLowerCase())
+      const response = await this.completeStructured(
+        role.toLowerCase(),
+        [
+          { role: 'system', content: rolePrompt || '' },
+          {
+            role: 'user',
+            content: `议题: ${meeting.topic}
+
+待表决方案：
+${optionList}
+
+角色要求：
+${this.getRoleFocusInstruction(role)}
+
+请对每个方案投票：approve（赞成）、reject（反对）或 abstain（弃权），给出 0 到 1 的信心和一句话理由。只返回如下 JSON：
+{
+  "votes": [
+    { "option": 1, "stance": "approve|reject|abstain", "confidence": 0.8, "justification": "理由，30字以内" }
+  ]
+}`,
+          },
+        ],
+        BallotOutputSchema,
+        0.3,
+        400,
+        { meetingId: meeting.id }
+      )
+      tokens += response.tokens
+
+      // Votes on options that do not exist, or repeated votes, are dropped
+      const votes = (response.data?.votes || []).filter((vote, i, all) =>
+        vote.option <= options.length && all.findIndex((other) => other.option === vote.option) === i)
+      if (votes.length === 0) {
+        continue
+      }
+
+      const ballot: Ballot = { role, weight: getVoteWeight(meeting, role), votes }
+      ballots.push(ballot)
+
+      const message: Message = {
+        id: `msg-${Date.now()}-${role}-vote`,
+        timestamp: new Date().toISOString(),
+        role,
+        type: 'statement',
+        content: votes.map((vote) => `方案${vote.option}${VOTE_STANCE_LABELS[vote.stance]}：${vote.justification}`).join('；'),
+        metadata: { servedBy: response.servedBy, usage: response.metered, ballot },
+      }
+      this.finishStreamedMessage(meeting, message)
+      messages.push(message)
+    }
+
+    const artifact = tallyVotes(options, ballots)
+    const leading = artifact.leading ? artifact.results[artifact.leading - 1] : undefined
+    messages.push({
+      id: `msg-${Date.now()}-vote-tally`,
+      timestamp: new Date().toISOString(),
+      role: 'SYSTEM',
+      type: 'system',
+      content: leading
+        ? `表决结果：方案${artifact.leading}得分最高（赞成 ${leading.approve.toFixed(2)}，反对 ${leading.reject.toFixed(2)}）`
+        : '表决结果：没有有效投票',
+    })
+
+    return { messages, artifact, tokens }
+  }
+
   /**
    * Execute Prime Decision stage
    */
-  private async executePrimeDecision(meeting: Meeting): Promise<{ messages: Message[]; artifact: any; tokens: number }> {
+  private async executePrimeDecision(meeting: Meeting): Promise<{ messages: Message[]; artifact: FinalDecision; tokens: number }> {
     const systemPrompt = await (await this.roleManager).getSystemPrompt('prime')
 
     // Build full context
     const discussion = meeting.messages.map((m) => `${m.role}: ${m.content}`).join('\n\n')
-    const userPrompt = this.withSpeechLimitInstruction(`基于以下讨论，请做出最终决定:\n\n议题: ${meeting.topic}\n\n讨论内容:\n${discussion}\n\n请提供:\n1. 决定\n2. 理由\n3. 后续步骤`)
-
-    const response = await this.completeForRole(
+    const vote = meeting.artifacts.vote
+    const tally = vote
+      ? `\n\n部门表决结果（如不采纳得分最高的选项，请在理由中说明）:\n${formatVoteTally(vote)}`
+      : ''
+    const matrix = meeting.artifacts.decisionMatrix
+    const matrixText = matrix
+      ? `\n\n备选方案评分（各部门按本部门维度 1-10 分评分）:\n${formatDecisionMatrix(matrix)}`
+      : ''
+    const userPrompt = `基于以下讨论，请做出最终决定:\n\n议题: ${meeting.topic}\n\n讨论内容:\n${discussion}${matrixText}${tally}\n\n请只返回如下 JSON：
+{
+  "decision": "最终决定，${this.getSpeechLimits(meeting, 'PRIME').artifactChars}字以内",
+  "reasoning": "决定理由",
+  "nextSteps": ["后续步骤"]${matrix ? `,
+  "chosenOptionId": "采纳的方案编号（${matrix.options.map((option) => option.id).join('|')}），都不采纳时为 null"` : ''}${vote ? `,
+  "chosenVoteOption": 采纳的表决选项编号（1-${vote.options.length}），都不采纳时为 null` : ''}
+}`
+
+    const messageId = `msg-${Date.now()}-prime-decision`
+    const response = await this.completeStructured(
       'prime',
       [
         { role: 'system', content: systemPrompt || '' },
         { role: 'user', content: userPrompt },
       ],
+      FinalDecisionOutputSchema,
       0.4,
-      1000
+      1000,
+      { meetingId: meeting.id }
     )
 
+    const { chosenOptionId, chosenVoteOption, ...decision } = response.data || {
+      decision: response.content,
+      reasoning: '基于各部门意见的综合决策',
+      nextSteps: [],
+    }
+    const artifact: FinalDecision = decision
+    // Only an option of the matrix can be referenced
+    const chosen = chosenOptionId?.toUpperCase()
+    if (chosen && matrix?.options.some((option) => option.id === chosen)) {
+      artifact.chosenOptionId = chosen
+    }
+    if (chosenVoteOption && vote && chosenVoteOption <= vote.options.length) {
+      artifact.chosenVoteOption = chosenVoteOption
+    }
+    const fitted = await this.fitArtifactText(meeting, 'PRIME', artifact.decision)
+    artifact.decision = fitted.text
+
     const message: Message = {
-      id: `msg-${Date.now()}`,
+      id: messageId,
       timestamp: new Date().toISOString(),
       role: 'PRIME',
       type: 'statement',
-      content: this.enforceSpeechLimit(response.content),
-    }
-
-    const artifact = {
-      decision: response.content,
-      reasoning: '基于各部门意见的综合决策',
-      nextSteps: [],
+      content: fitted.speech.content,
+      metadata: { servedBy: response.servedBy, usage: response.metered, ...fitted.speech.metadata },
     }
+    this.finishStreamedMessage(meeting, message)
 
     return {
       messages: [message],
       artifact,
-      tokens: response.usage?.totalTokens || this.estimateTokens(response.content),
+      tokens: response.tokens + fitted.tokens,
     }
   }
 
   /**
-   * Estimate tokens (rough approximation)
+   * Execute CLERK Minutes stage - formal record of the meeting
+   * Attendees come from the transcript; the rest is written by CLERK.
    */
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4)
+  private async executeClerkMinutes(meeting: Meeting): Promise<{ messages: Message[]; artifact: MeetingMinutes; tokens: number }> {
+    const systemPrompt = await (await this.roleManager).getSystemPrompt('clerk')
+    const attendees = [...new Set(
+      meeting.messages
+        .filter((m) => m.type !== 'system' && m.role !== 'USER')
+        .map((m) => m.role)
+    )]
+
+    // Transcript grouped by step, in the order the steps ran
+    const transcript = meeting.messages
+      .map((m) => {
+        if (m.type === 'system') {
+          return typeof m.metadata?.stage === 'string' ? `\n## ${m.metadata.stage}` : ''
+        }
+        const original = typeof m.metadata?.originalContent === 'string' ? m.metadata.originalContent : m.content
+        return `${m.role}: ${original}`
+      })
+      .filter(Boolean)
+      .join('\n')
+
+    const decision = meeting.artifacts.finalDecision
+    const userPrompt = `议题: ${meeting.topic}
+
+会议记录：
+${transcript}
+
+最终决定：${decision?.decision || '（无）'}
+后续步骤：${decision?.nextSteps?.join('；') || '（无）'}
+
+请作为书记官整理正式会议纪要，并只返回如下 JSON：
+{
+  "agenda": ["议程事项"],
+  "stageSummaries": [{ "stage": "阶段 id（与会议记录中的 ## 标题一致）", "summary": "该阶段要点" }],
+  "decisions": ["会议作出的决定"],
+  "actionItems": [{ "item": "待办事项", "owner": "负责角色（${attendees.join('|') || 'PRIME'}）", "due": "期限，可省略" }]
+}`
+
+    const messageId = `msg-${Date.now()}-clerk-minutes`
+    const response = await this.completeStructured(
+      'clerk',
+      [
+        { role: 'system', content: systemPrompt || '' },
+        { role: 'user', content: userPrompt },
+      ],
+      MinutesOutputSchema,
+      0.2,
+      1500,
+      { meetingId: meeting.id }
+    )
+
+    const artifact: MeetingMinutes = response.data
+      ? { attendees, ...response.data }
+      : {
+          attendees,
+          agenda: [meeting.topic],
+          stageSummaries: [],
+          decisions: decision ? [decision.decision] : [],
+          actionItems: (decision?.nextSteps || []).map((item) => ({ item, owner: 'PRIME' })),
+        }
+
+    const message: Message = {
+      id: messageId,
+      timestamp: new Date().toISOString(),
+      role: 'CLERK',
+      type: 'statement',
+      content: `会议纪要已记录：${artifact.decisions.length} 项决定，${artifact.actionItems.length} 项待办。`,
+      metadata: { servedBy: response.servedBy, usage: response.metered },
+    }
+    this.finishStreamedMessage(meeting, message)
+
+    return {
+      messages: [message],
+      artifact,
+      tokens: response.tokens,
+    }
+  }
+}
+
+function addUsage(total: MessageUsage | undefined, usage: MessageUsage): MessageUsage {
+  return {
+    promptTokens: (total?.promptTokens || 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens || 0) + usage.completionTokens,
+    costUsd: (total?.costUsd || 0) + usage.costUsd,
   }
 }
 
@@ -0,0 +1,198 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { existsSync } from 'fs'
+import { fileURLToPath } from 'node:url'
+import YAML from 'yaml'
+import { z } from 'zod'
+import { MeetingStage, getStageFlow } from './stages.js'
+
+/**
+ * Stage kinds a flow step can execute
+ */
+export const STAGE_KINDS = [
+  MeetingStage.ISSUE_BRIEF,
+  MeetingStage.DEPARTMENT_SPEECHES,
+  MeetingStage.BRAIN_INTERVENTION,
+  MeetingStage.PRIME_SUMMARY,
+  MeetingStage.FOLLOW_UP_DISCUSSION,
+  MeetingStage.DEBATE_ROUND,
+  MeetingStage.DECISION_MATRIX,
+  MeetingStage.VOTE,
+  MeetingStage.PRIME_DECISION,
+  MeetingStage.CLERK_MINUTES,
+] as const
+
+export type StageKind = typeof STAGE_KINDS[number]
+
+export const DEFAULT_FLOW_TEMPLATE = 'standard'
+
+/**
+ * Flow step schema
+ * Step ids are persisted as the meeting's current stage and appear in stage
+ * messages, so they must be unique word characters.
+ */
+export const FlowStepSchema = z.object({
+  id: z.string()
+    .regex(/^[a-z][a-z0-9_]*$/, 'Step id must be lowercase letters, digits and underscores')
+    .refine((id) => id !== MeetingStage.COMPLETED && id !== MeetingStage.FAILED, 'Step id is reserved'),
+  kind: z.nativeEnum(MeetingStage)
+    .refine((kind): kind is StageKind => (STAGE_KINDS as readonly string[]).includes(kind), 'Not an executable stage kind'),
+  label: z.string().optional(),
+  // Discussion roles for speech steps; defaults to the meeting's selected departments
+  roles: z.array(z.string().transform((role) => role.toUpperCase())).optional(),
+  // Overrides STAGE_CONFIGS[kind].canDegrade
+  canDegrade: z.boolean().optional(),
+  // Overrides STAGE_CONFIGS[kind].maxTokens (output tokens of the whole step)
+  maxTokens: z.number().int().positive().optional(),
+  // Debate steps: round cap and the convergence score that ends the debate early
+  maxRounds: z.number().int().positive().optional(),
+  convergenceThreshold: z.number().min(0).max(1).optional(),
+  // Decision matrix steps: weight of each scoring role in the total
+  weights: z.record(z.number().min(0))
+    .transform((weights) => Object.fromEntries(
+      Object.entries(weights).map(([role, weight]) => [role.toUpperCase(), weight])
+    ))
+    .optional(),
+})
+
+export const FlowTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_-]*$/),
+  name: z.string(),
+  description: z.string().optional(),
+  stages: z.array(FlowStepSchema).min(1),
+}).superRefine((template, ctx) => {
+  const seen = new Set<string>()
+  for (const step of template.stages) {
+    if (seen.has(step.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate step id: ${step.id}` })
+    }
+    seen.add(step.id)
+  }
+})
+
+export type FlowStep = Omit<z.infer<typeof FlowStepSchema>, 'kind'> & { kind: StageKind }
+export type FlowTemplate = Omit<z.infer<typeof FlowTemplateSchema>, 'stages'> & { stages: FlowStep[] }
+
+/**
+ * Built-in pipeline, used when no template files are available
+ */
+function createBuiltinTemplate(): FlowTemplate {
+  return {
+    id: DEFAULT_FLOW_TEMPLATE,
+    name: '标准议政',
+    stages: getStageFlow().map((stage) => ({ id: stage, kind: stage as StageKind })),
+  }
+}
+
+/**
+ * Step after `stepId`, or COMPLETED at the end of the flow
+ */
+export function getNextStep(template: FlowTemplate, stepId: string): string {
+  const index = template.stages.findIndex((step) => step.id === stepId)
+  const next = index >= 0 ? template.stages[index + 1] : undefined
+  return next ? next.id : MeetingStage.COMPLETED
+}
+
+/**
+ * Step a meeting jumps to when its budget is exhausted
+ */
+export function getDecisionStep(template: FlowTemplate): FlowStep | undefined {
+  return [...template.stages].reverse().find((step) => step.kind === MeetingStage.PRIME_DECISION)
+}
+
+/**
+ * Whether a step comes after the decision (e.g. minutes), so it wraps up a
+ * decided meeting rather than leading to the decision
+ */
+export function isAfterDecision(template: FlowTemplate, stepId: string): boolean {
+  const decision = getDecisionStep(template)
+  if (!decision) return false
+  const index = template.stages.findIndex((step) => step.id === stepId)
+  return index > template.stages.indexOf(decision)
+}
+
+/**
+ * Flow template loader - loads and validates YAML/JSON templates
+ */
+export class FlowTemplateLoader {
+  private flowsDir: string
+  private cache: Map<string, FlowTemplate> | null = null
+
+  constructor(flowsDir?: string) {
+    if (flowsDir) {
+      this.flowsDir = flowsDir
+    } else if (process.env.FLOWS_DIR) {
+      this.flowsDir = process.env.FLOWS_DIR
+    } else if (existsSync('./data/flows')) {
+      this.flowsDir = './data/flows'
+    } else if (existsSync('./backend/data/flows')) {
+      this.flowsDir = './backend/data/flows'
+    } else {
+      const currentDir = path.dirname(fileURLToPath(import.meta.url))
+      this.flowsDir = path.resolve(currentDir, '../../../data/flows')
+    }
+  }
+
+  /**
+   * Load all templates, keyed by id
+   * Invalid files are logged and skipped.
+   */
+  async loadAll(): Promise<Map<string, FlowTemplate>> {
+    if (this.cache) {
+      return this.cache
+    }
+
+    const templates = new Map<string, FlowTemplate>()
+    const files = existsSync(this.flowsDir) ? await fs.readdir(this.flowsDir) : []
+
+    for (const file of files.sort()) {
+      if (!/\.(ya?ml|json)$/.test(file)) continue
+
+      try {
+        const raw = await fs.readFile(path.join(this.flowsDir, file), 'utf-8')
+        const data = file.endsWith('.json') ? JSON.parse(raw) : YAML.parse(raw)
+        const template = FlowTemplateSchema.parse(data) as FlowTemplate
+        templates.set(template.id, template)
+      } catch (error) {
+        console.error(`Failed to load flow template ${file}:`, error)
+      }
+    }
+
+    if (!templates.has(DEFAULT_FLOW_TEMPLATE)) {
+      templates.set(DEFAULT_FLOW_TEMPLATE, createBuiltinTemplate())
+    }
+
+    this.cache = templates
+    return templates
+  }
+
+  async list(): Promise<FlowTemplate[]> {
+    return Array.from((await this.loadAll()).values())
+  }
+
+  async get(id: string): Promise<FlowTemplate | undefined> {
+    return (await this.loadAll()).get(id)
+  }
+
+  /**
+   * Template for a meeting, falling back to the default one
+   */
+  async resolve(id?: string): Promise<FlowTemplate> {
+    const templates = await this.loadAll()
+    return templates.get(id || DEFAULT_FLOW_TEMPLATE) || templates.get(DEFAULT_FLOW_TEMPLATE)!
+  }
+
+  clearCache(): void {
+    this.cache = null
+  }
+}
+
+// Singleton instance
+let loaderInstance: FlowTemplateLoader | null = null
+
+export function getFlowTemplateLoader(): FlowTemplateLoader {
+  if (!loaderInstance) {
+    loaderInstance = new FlowTemplateLoader()
+  }
+  return loaderInstance
+}
@@ -1,7 +1,12 @@
-import { getRoleProvider } from '../llm/providerFactory.js'
-import type { CompletionMessage } from '../llm/providers/base.js'
+import { getRoleProvider, resolveSamplingParams } from '../llm/providerFactory.js'
+import { getCompletionScheduler } from '../llm/scheduler.js'
+import type { CompletionMessage, CompletionResponse } from '../llm/providers/base.js'
 import { getRoleManager } from '../persona/roleManager.js'
-import type { Message } from '../../models/index.js'
+import { MeetingCancelledError } from '../meetings/runControl.js'
+import type { Message, BrainIntervention as BrainInterventionRecord } from '../../models/index.js'
+
+// Roles whose messages never answer an intervention
+const NON_DEPARTMENT_ROLES = ['SYSTEM', 'USER', 'PRIME', 'BRAIN', 'CLERK']
 
 /**
  * BRAIN intervention types
@@ -16,12 +21,26 @@ export interface BrainIntervention {
   content: string
   targetRole?: string
   reasoning?: string
+  // Tokens spent producing the intervention
+  tokens?: number
 }
 
+/**
+ * Completion function BRAIN calls through instead of its own provider
+ * Lets the orchestrator meter BRAIN's spend against the meeting.
+ */
+export type BrainCompleter = (
+  messages: CompletionMessage[],
+  temperature?: number,
+  maxTokens?: number,
+  meetingId?: string
+) => Promise<CompletionResponse>
+
 /**
  * Discussion context for BRAIN analysis
  */
 export interface DiscussionContext {
+  meetingId?: string
   topic: string
   messages: Message[]
   currentStage: string
@@ -33,39 +52,44 @@ export interface DiscussionContext {
  * Main Brain Service - implements BRAIN's active discussion guidance
  */
 export class MainBrainService {
+  constructor(private complete?: BrainCompleter) {}
+
   /**
    * Get completion for BRAIN with proper model config
    */
   private async completeForBrain(
     messages: CompletionMessage[],
     temperature?: number,
-    maxTokens?: number
-  ) {
-    const { provider, model, temperature: defaultTemp, maxTokens: defaultMaxTokens } =
-      await getRoleProvider('brain')
-
-    return provider.complete({
-      messages,
-      model,
-      temperature: temperature ?? defaultTemp,
-      maxTokens: maxTokens ?? defaultMaxTokens,
-    })
+    maxTokens?: number,
+    meetingId?: string
+  ): Promise<CompletionResponse> {
+    if (this.complete) {
+      return this.complete(messages, temperature, maxTokens, meetingId)
+    }
+
+    const roleConfig = await getRoleProvider('brain')
+
+    return getCompletionScheduler().schedule(
+      { provider: roleConfig.providerType, label: 'BRAIN' },
+      () => roleConfig.provider.complete({
+        messages,
+        model: roleConfig.model,
+        ...resolveSamplingParams(roleConfig, temperature, maxTokens),
+      })
+    )
   }
 
   /**
    * Analyze discussion and determine if intervention is needed
+   * BRAIN weighs in after every department statement while budget remains;
+   * decideIntervention then lets the model decide whether to say anything.
    */
   async shouldIntervene(context: DiscussionContext): Promise<boolean> {
-    // Simple heuristic: intervene after every 3-4 department statements
-    // In production, use more sophisticated analysis
-
-    const recentMessages = context.messages.slice(-5)
-    const departmentStatements = recentMessages.filter(
-      (m) => m.type === 'statement' && !['PRIME', 'BRAIN', 'CLERK'].includes(m.role)
-    )
-
-    // Intervene if 3+ departments have spoken
-    return departmentStatements.length >= 3
+    const latest = context.messages.at(-1)
+    return Boolean(latest) &&
+      latest!.type === 'statement' &&
+      !NON_DEPARTMENT_ROLES.includes(latest!.role) &&
+      context.remainingBudget > 0
   }
 
   /**
@@ -83,7 +107,8 @@ export class MainBrainService {
           { role: 'user', content: userPrompt },
         ],
         0.3,
-        500
+        500,
+        context.meetingId
       )
 
       // Parse the response to extract the question
@@ -93,6 +118,7 @@ export class MainBrainService {
         type: 'question',
         content,
         reasoning: 'Identified information gap or unclear aspect',
+        tokens: response.usage?.totalTokens,
       }
     } catch (error) {
       console.error('Failed to generate BRAIN question:', error)
@@ -115,7 +141,8 @@ export class MainBrainService {
           { role: 'user', content: userPrompt },
         ],
         0.3,
-        500
+        500,
+        context.meetingId
       )
 
       const content = response.content.trim()
@@ -125,6 +152,7 @@ export class MainBrainService {
         content,
         targetRole,
         reasoning: `Requested ${targetRole} to expand on their point`,
+        tokens: response.usage?.totalTokens,
       }
     } catch (error) {
       console.error('Failed to generate elaboration request:', error)
@@ -147,7 +175,8 @@ export class MainBrainService {
           { role: 'user', content: userPrompt },
         ],
         0.4,
-        600
+        600,
+        context.meetingId
       )
 
       const content = response.content.trim()
@@ -156,6 +185,7 @@ export class MainBrainService {
         type: 'perspective',
         content,
         reasoning: 'Identified missing viewpoint or consideration',
+        tokens: response.usage?.totalTokens,
       }
     } catch (error) {
       console.error('Failed to generate perspective:', error)
@@ -178,7 +208,8 @@ export class MainBrainService {
           { role: 'user', content: userPrompt },
         ],
         0.3,
-        1000
+        1000,
+        context.meetingId
       )
 
       const content = response.content.trim()
@@ -187,6 +218,7 @@ export class MainBrainService {
         type: 'synthesis',
         content,
         reasoning: 'Synthesized discussion for clarity',
+        tokens: response.usage?.totalTokens,
       }
     } catch (error) {
       console.error('Failed to generate synthesis:', error)
@@ -232,10 +264,12 @@ Be concise and specific.`
           { role: 'user', content: decisionPrompt },
         ],
         0.2,
-        300
+        300,
+        context.meetingId
       )
 
       const content = response.content.trim()
+      const tokens = response.usage?.totalTokens
 
       if (content.toUpperCase() === 'NONE') {
         return null
@@ -248,6 +282,7 @@ Be concise and specific.`
           type: 'question',
           content: question,
           reasoning: 'Clarification needed',
+          tokens,
         }
       } else if (content.startsWith('ELABORATE:')) {
         const match = content.match(/ELABORATE:\s*(\w+):\s*(.+)/)
@@ -257,6 +292,7 @@ Be concise and specific.`
             content: match[2],
             targetRole: match[1].toUpperCase(),
             reasoning: `Requested ${match[1]} to elaborate`,
+            tokens,
           }
         }
       } else if (content.startsWith('PERSPECTIVE:')) {
@@ -265,6 +301,7 @@ Be concise and specific.`
           type: 'perspective',
           content: perspective,
           reasoning: 'New perspective introduced',
+          tokens,
         }
       }
 
@@ -273,8 +310,12 @@ Be concise and specific.`
         type: 'question',
         content,
         reasoning: 'Clarification needed',
+        tokens,
       }
     } catch (error) {
+      if (error instanceof MeetingCancelledError) {
+        throw error
+      }
       console.error('Failed to decide intervention:', error)
       return null
     }
@@ -368,7 +409,7 @@ Be objective and comprehensive.`
     if (intervention.type === 'elaboration_request') type = 'elaboration_request'
 
     return {
-      id: `msg-${Date.now()}`,
+      id: `msg-${Date.now()}-brain-intervention`,
       timestamp: now,
       role: 'BRAIN',
       type,
@@ -381,6 +422,48 @@ Be objective and comprehensive.`
   }
 }
 
+/**
+ * Record an intervention as a meeting artifact, keyed by its message id
+ */
+export function createInterventionRecord(
+  intervention: BrainIntervention,
+  message: Message
+): BrainInterventionRecord | null {
+  if (intervention.type === 'synthesis') {
+    return null
+  }
+  return {
+    id: message.id,
+    timestamp: message.timestamp,
+    type: intervention.type,
+    content: intervention.content,
+    targetRole: intervention.targetRole,
+    resolved: false,
+  }
+}
+
+/**
+ * Mark interventions answered by later speeches
+ * A targeted intervention is resolved once its target role speaks after it;
+ * an open question or perspective once any department does.
+ */
+export function resolveInterventions(interventions: BrainInterventionRecord[], messages: Message[]): void {
+  for (const intervention of interventions) {
+    if (intervention.resolved) {
+      continue
+    }
+    const index = messages.findIndex((m) => m.id === intervention.id)
+    if (index === -1) {
+      continue
+    }
+    intervention.resolved = messages.slice(index + 1).some((m) =>
+      m.type !== 'system' &&
+      !NON_DEPARTMENT_ROLES.includes(m.role) &&
+      (!intervention.targetRole || m.role === intervention.targetRole)
+    )
+  }
+}
+
 // Singleton instance
 let brainInstance: MainBrainService | null = null
 
@@ -0,0 +1,43 @@
+import type { Message } from '../../models/index.js'
+
+/**
+ * Incremental events pushed to meeting clients between MEETING_UPDATED snapshots
+ * Deltas are keyed by the id the message will carry once it is final.
+ */
+export type MeetingEvent =
+  | {
+      type: 'MESSAGE_DELTA'
+      meetingId: string
+      messageId: string
+      role: string
+      delta: string
+    }
+  | {
+      type: 'MESSAGE_DONE'
+      meetingId: string
+      messageId: string
+      message?: Message
+      discarded?: boolean
+    }
+  | {
+      type: 'QUEUE_STATUS'
+      meetingId: string
+      provider: string
+      role?: string
+      waiting: boolean
+      queueDepth: number
+      waitMs: number
+    }
+
+type Broadcaster = (meetingId: string, data: unknown) => void
+
+/**
+ * Broadcast an event to clients joined to the meeting
+ * No-op when the WebSocket server is not running (e.g. in tests)
+ */
+export function emitMeetingEvent(event: MeetingEvent): void {
+  const broadcast = (globalThis as { broadcastToMeeting?: Broadcaster }).broadcastToMeeting
+  if (broadcast) {
+    broadcast(event.meetingId, event)
+  }
+}
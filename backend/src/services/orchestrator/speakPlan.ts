@@ -0,0 +1,22 @@
+import { z } from 'zod'
+import type { SpeakPlan } from '../../models/index.js'
+
+/**
+ * Speaking order the user sets before a run; role ids are upper-cased
+ */
+export const SpeakPlanSchema = z.object({
+  speakingOrder: z.array(z.string().trim().min(1).transform((role) => role.toUpperCase())).min(1),
+  rationale: z.string().trim().optional(),
+}).strict()
+
+/**
+ * Order roles by a speak plan
+ * Planned roles come first in plan order; roles the plan leaves out keep
+ * their original order after them, and planned roles not taking part are
+ * dropped.
+ */
+export function orderBySpeakPlan(roles: string[], plan: Pick<SpeakPlan, 'speakingOrder'>): string[] {
+  const planned = [...new Set(plan.speakingOrder.map((role) => role.toUpperCase()))]
+    .filter((role) => roles.includes(role))
+  return [...planned, ...roles.filter((role) => !planned.includes(role))]
+}
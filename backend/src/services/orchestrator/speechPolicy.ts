@@ -0,0 +1,73 @@
+import { z } from 'zod'
+import type { SpeechLimits, SpeechPolicy } from '../../models/index.js'
+
+export const DEFAULT_SPEECH_POLICY: SpeechLimits = {
+  displayChars: 50,
+  artifactChars: 400,
+}
+
+const limit = z.number().int().min(10).max(5000)
+
+const SpeechLimitsSchema = z.object({
+  displayChars: limit.optional(),
+  artifactChars: limit.optional(),
+}).strict()
+
+export const SpeechPolicySchema: z.ZodType<SpeechPolicy> = SpeechLimitsSchema.extend({
+  roles: z.record(SpeechLimitsSchema).optional(),
+}).strict().transform((policy) => ({
+  ...policy,
+  roles: policy.roles
+    ? Object.fromEntries(Object.entries(policy.roles).map(([role, limits]) => [role.toUpperCase(), limits]))
+    : undefined,
+}))
+
+/**
+ * Limits for one role: role override, then meeting policy, then defaults
+ */
+export function resolveSpeechLimits(policy: SpeechPolicy | undefined, role: string): SpeechLimits {
+  const override = policy?.roles?.[role.toUpperCase()]
+  return {
+    displayChars: override?.displayChars ?? policy?.displayChars ?? DEFAULT_SPEECH_POLICY.displayChars,
+    artifactChars: override?.artifactChars ?? policy?.artifactChars ?? DEFAULT_SPEECH_POLICY.artifactChars,
+  }
+}
+
+/**
+ * Collapse whitespace so a statement reads as one paragraph
+ */
+export function normalizeSpeech(content: string): string {
+  return (content || '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Length in characters (code points, so CJK and emoji count as one)
+ */
+export function countChars(content: string): number {
+  return Array.from(content).length
+}
+
+/**
+ * Last-resort cut when condensing fails
+ * Prefers the last sentence end within the limit and marks the cut with an ellipsis.
+ */
+export function truncateAtBoundary(content: string, maxChars: number): string {
+  const chars = Array.from(content)
+  if (chars.length <= maxChars) {
+    return content
+  }
+
+  const head = chars.slice(0, maxChars - 1).join('')
+  const boundary = Math.max(...['。', '！', '？', '；', '. ', '! ', '? ', '; '].map((mark) => head.lastIndexOf(mark)))
+  const cut = boundary >= head.length / 2 ? head.slice(0, boundary + 1) : head
+  return `${cut.trimEnd()}…`
+}
+
+/**
+ * Prompt asking the speaker's model to condense its own statement
+ */
+export function buildCondensePrompt(content: string, maxChars: number): string {
+  return `请将以下发言压缩到${maxChars}个字符以内，保留结论和最关键的理由，不要添加新观点，不要换行，只输出压缩后的发言：
+
+${content}`
+}
@@ -11,7 +11,11 @@ export enum MeetingStage {
   BRAIN_INTERVENTION = 'brain_intervention',  // BRAIN 分析争议点
   PRIME_SUMMARY = 'prime_summary',        // 群主总结
   FOLLOW_UP_DISCUSSION = 'follow_up_discussion',  // 第二轮：补充讨论
+  DEBATE_ROUND = 'debate_round',          // 多轮辩论：发言 + BRAIN 收敛评估
+  DECISION_MATRIX = 'decision_matrix',    // 备选方案评分矩阵
+  VOTE = 'vote',                          // 部门表决
   PRIME_DECISION = 'prime_decision',      // 最终决策
+  CLERK_MINUTES = 'clerk_minutes',        // 会议纪要
   COMPLETED = 'completed',
   FAILED = 'failed',
 }
@@ -63,11 +67,35 @@ export const STAGE_CONFIGS: Record<MeetingStage, StageConfig> = {
     maxTokens: 3000,
     canDegrade: true,
   },
+  [MeetingStage.DEBATE_ROUND]: {
+    stage: MeetingStage.DEBATE_ROUND,
+    requiredRoles: ['CRITIC', 'FINANCE', 'WORKS', 'BRAIN'],
+    maxTokens: 4000,  // 每轮的额度
+    canDegrade: true,
+  },
+  [MeetingStage.DECISION_MATRIX]: {
+    stage: MeetingStage.DECISION_MATRIX,
+    requiredRoles: ['PRIME', 'CRITIC', 'FINANCE', 'WORKS'],
+    maxTokens: 2500,
+    canDegrade: true,
+  },
+  [MeetingStage.VOTE]: {
+    stage: MeetingStage.VOTE,
+    requiredRoles: ['PRIME', 'CRITIC', 'FINANCE', 'WORKS'],
+    maxTokens: 2000,
+    canDegrade: true,
+  },
   [MeetingStage.PRIME_DECISION]: {
     stage: MeetingStage.PRIME_DECISION,
     requiredRoles: ['PRIME'],
     maxTokens: 1500,
   },
+  [MeetingStage.CLERK_MINUTES]: {
+    stage: MeetingStage.CLERK_MINUTES,
+    requiredRoles: ['CLERK'],
+    maxTokens: 2000,
+    canDegrade: true,
+  },
   [MeetingStage.COMPLETED]: {
     stage: MeetingStage.COMPLETED,
     requiredRoles: [],
@@ -79,7 +107,9 @@ export const STAGE_CONFIGS: Record<MeetingStage, StageConfig> = {
 }
 
 /**
- * Get next stage in the meeting flow
+ * Get next stage in enum order
+ * Meetings follow their flow template (see flowTemplates.ts); this order only
+ * applies to stages run outside a template.
  */
 export function getNextStage(current: MeetingStage): MeetingStage {
   const stages = Object.values(MeetingStage)
@@ -88,7 +118,7 @@ export function getNextStage(current: MeetingStage): MeetingStage {
 }
 
 /**
- * Get all stages in order
+ * Stages of the built-in standard flow
  */
 export function getStageFlow(): MeetingStage[] {
   return [
@@ -97,28 +127,56 @@ export function getStageFlow(): MeetingStage[] {
     MeetingStage.BRAIN_INTERVENTION,
     MeetingStage.PRIME_SUMMARY,
     MeetingStage.FOLLOW_UP_DISCUSSION,
+    MeetingStage.DECISION_MATRIX,
     MeetingStage.PRIME_DECISION,
+    MeetingStage.CLERK_MINUTES,
   ]
 }
 
+/**
+ * Token and currency budgets of a meeting
+ * A missing or non-positive cost budget means cost is not capped.
+ */
+export interface BudgetState {
+  usage: number
+  budget: number
+  costUsd?: number
+  maxCostUsd?: number
+}
+
+/**
+ * Fraction of the tighter budget already spent
+ */
+export function getBudgetUsageRatio(state: BudgetState): number {
+  const tokenRatio = state.budget > 0 ? state.usage / state.budget : Infinity
+  const costRatio = state.maxCostUsd && state.maxCostUsd > 0
+    ? (state.costUsd || 0) / state.maxCostUsd
+    : 0
+  return Math.max(tokenRatio, costRatio)
+}
+
 /**
  * Check if a stage can be skipped due to budget constraints
+ * `canDegrade` lets a flow step override the stage default.
  */
-export function canSkipStage(stage: MeetingStage, usage: number, budget: number): boolean {
-  const config = STAGE_CONFIGS[stage]
-  if (!config.canDegrade) {
+export function canSkipStage(
+  stage: MeetingStage,
+  state: BudgetState,
+  canDegrade = STAGE_CONFIGS[stage].canDegrade
+): boolean {
+  if (!canDegrade) {
     return false
   }
 
-  // Skip if we've used 90% of budget
-  return usage >= budget * 0.9
+  // Skip if we've used 90% of either budget
+  return getBudgetUsageRatio(state) >= 0.9
 }
 
 /**
  * Check if we should go directly to final decision
  */
-export function shouldSkipToDecision(usage: number, budget: number): boolean {
-  return usage >= budget
+export function shouldSkipToDecision(state: BudgetState): boolean {
+  return getBudgetUsageRatio(state) >= 1
 }
 
 /**
@@ -134,7 +192,11 @@ export function createStageMessage(stage: MeetingStage, previousStage?: MeetingS
     [MeetingStage.BRAIN_INTERVENTION]: '主脑分析',
     [MeetingStage.PRIME_SUMMARY]: '群主总结',
     [MeetingStage.FOLLOW_UP_DISCUSSION]: '第二轮：补充讨论',
+    [MeetingStage.DEBATE_ROUND]: '多轮辩论',
+    [MeetingStage.DECISION_MATRIX]: '方案评分',
+    [MeetingStage.VOTE]: '部门表决',
     [MeetingStage.PRIME_DECISION]: '最终决策',
+    [MeetingStage.CLERK_MINUTES]: '会议纪要',
     [MeetingStage.COMPLETED]: '已完成',
     [MeetingStage.FAILED]: '失败',
   }
@@ -0,0 +1,74 @@
+import type { z } from 'zod'
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string }
+
+/**
+ * Pull the JSON document out of a model reply
+ * Accepts fenced ```json blocks or the outermost {...} span.
+ */
+export function extractJson(content: string): string | null {
+  const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/)
+  if (fenced) {
+    return fenced[1].trim()
+  }
+
+  const start = content.indexOf('{')
+  const end = content.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    return null
+  }
+  return content.slice(start, end + 1)
+}
+
+/**
+ * Cheap local fixes for common near-JSON output (trailing commas, full-width
+ * punctuation between tokens) before asking the model to repair it
+ */
+export function repairJson(json: string): string {
+  return json
+    .replace(/,\s*([}\]])/g, '$1')
+    .replace(/([}\]"\d])\s*，\s*(?=["{[\d])/g, '$1,')
+    .replace(/"\s*：\s*/g, '": ')
+}
+
+/**
+ * Parse and validate a model reply against a schema
+ */
+export function parseStructured<T>(content: string, schema: z.ZodType<T>): StructuredParseResult<T> {
+  const json = extractJson(content)
+  if (!json) {
+    return { success: false, error: '回复中没有 JSON 对象' }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    try {
+      data = JSON.parse(repairJson(json))
+    } catch (error) {
+      return { success: false, error: `JSON 解析失败: ${(error as Error).message}` }
+    }
+  }
+
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    return { success: false, error: `字段校验失败: ${issues}` }
+  }
+
+  return { success: true, data: result.data }
+}
+
+/**
+ * Follow-up prompt asking the model to fix its previous reply
+ */
+export function buildRepairPrompt(error: string): string {
+  return `你上一条回复无法使用：${error}
+
+请重新输出，只返回一个符合要求格式的 JSON 对象，不要包含其他文字或代码块标记。`
+}
@@ -0,0 +1,54 @@
+import type { Meeting, MessageUsage, RoleUsage } from '../../models/index.js'
+import { STAGE_CONFIGS } from './stages.js'
+import type { FlowStep } from './flowTemplates.js'
+
+/**
+ * Smallest output a completion is allowed; below this a role counts as
+ * having exhausted its allowance
+ */
+export const MIN_OUTPUT_TOKENS = 64
+
+/**
+ * Output tokens a role may spend over the whole meeting
+ * PRIME and CLERK have their own allowances; every other role shares the
+ * per-role one.
+ */
+export function getRoleOutputLimit(meeting: Meeting, role: string): number {
+  const limits: Record<string, number | undefined> = {
+    PRIME: meeting.budgetPrimeMaxOutputTokens,
+    CLERK: meeting.budgetClerkMaxOutputTokens,
+  }
+  const key = role.toUpperCase()
+  const limit = key in limits ? limits[key] : meeting.budgetPerRoleMaxOutputTokens
+  return limit && limit > 0 ? limit : Infinity
+}
+
+/**
+ * Output tokens all roles together may spend in one step
+ * A flow step's `maxTokens` overrides STAGE_CONFIGS[kind].maxTokens.
+ */
+export function getStageOutputLimit(step: FlowStep): number {
+  return step.maxTokens ?? STAGE_CONFIGS[step.kind].maxTokens ?? Infinity
+}
+
+/**
+ * Cap a completion's max_tokens to the remaining allowance
+ * Never goes below MIN_OUTPUT_TOKENS: callers decide beforehand whether an
+ * exhausted role speaks at all.
+ */
+export function capOutputTokens(requested: number | undefined, remaining: number): number | undefined {
+  if (!Number.isFinite(remaining)) {
+    return requested
+  }
+  const capped = Math.max(MIN_OUTPUT_TOKENS, Math.floor(remaining))
+  return requested === undefined ? capped : Math.min(requested, capped)
+}
+
+export function addRoleUsage(total: RoleUsage | undefined, usage: MessageUsage): RoleUsage {
+  return {
+    promptTokens: (total?.promptTokens || 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens || 0) + usage.completionTokens,
+    costUsd: (total?.costUsd || 0) + usage.costUsd,
+    calls: (total?.calls || 0) + 1,
+  }
+}
@@ -0,0 +1,56 @@
+import type { CompletionMessage } from '../llm/providers/base.js'
+import type { Meeting, UserQuestion } from '../../models/index.js'
+
+/**
+ * How long a meeting waits for the user unless it sets userAnswerTimeoutMs
+ */
+export const DEFAULT_USER_ANSWER_TIMEOUT_MS = 120_000
+
+export function getUserAnswerTimeout(meeting: Meeting): number {
+  return meeting.userAnswerTimeoutMs ?? DEFAULT_USER_ANSWER_TIMEOUT_MS
+}
+
+/**
+ * Whether BRAIN and PRIME may put questions to the user
+ */
+export function canAskUser(meeting: Meeting): boolean {
+  return getUserAnswerTimeout(meeting) > 0
+}
+
+export function createUserQuestion(askedBy: string, question: string): UserQuestion {
+  return {
+    id: `question-${Date.now()}-${askedBy.toLowerCase()}`,
+    askedBy: askedBy.toUpperCase(),
+    question,
+    askedAt: new Date().toISOString(),
+    status: 'pending',
+  }
+}
+
+/**
+ * Question asked in the current step that has not been scheduled yet
+ */
+export function takeUnscheduledQuestion(meeting: Meeting): UserQuestion | undefined {
+  return meeting.userQuestions?.find((question) => question.status === 'pending' && !question.forStage)
+}
+
+/**
+ * Append the user's answers meant for a step to the last user turn
+ */
+export function withUserAnswers(messages: CompletionMessage[], meeting: Meeting, stepId: string): CompletionMessage[] {
+  const answered = (meeting.userQuestions || []).filter(
+    (question) => question.forStage === stepId && question.status === 'answered'
+  )
+  const index = messages.map((message) => message.role).lastIndexOf('user')
+  if (answered.length === 0 || index === -1) {
+    return messages
+  }
+
+  const context = answered
+    .map((question) => `${question.askedBy} 问：${question.question}\n用户答：${question.answer}`)
+    .join('\n\n')
+  return messages.map((message, i) => i === index
+    ? { ...message, content: `${message.content}\n\n会议发起人对提问的回答（请纳入考虑）：\n${context}` }
+    : message
+  )
+}
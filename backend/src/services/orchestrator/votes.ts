@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import type { Ballot, Meeting, VoteTally } from '../../models/index.js'
+
+/**
+ * Vote weights set when creating a meeting; role ids are upper-cased
+ */
+export const VoteWeightsSchema = z.record(z.number().min(0).max(10))
+  .transform((weights) => Object.fromEntries(
+    Object.entries(weights).map(([role, weight]) => [role.toUpperCase(), weight])
+  ))
+
+export function getVoteWeight(meeting: Meeting, role: string): number {
+  return meeting.voteWeights?.[role.toUpperCase()] ?? 1
+}
+
+/**
+ * Weighted totals per option
+ * Approvals and rejections count weight × confidence, abstentions the plain
+ * weight; an option's score is approvals minus rejections. Ties go to the
+ * earlier option, and without ballots nothing leads.
+ */
+export function tallyVotes(options: string[], ballots: Ballot[]): VoteTally {
+  const results = options.map((option) => ({ option, approve: 0, reject: 0, abstain: 0, score: 0 }))
+
+  for (const ballot of ballots) {
+    for (const vote of ballot.votes) {
+      const result = results[vote.option - 1]
+      if (!result) continue
+      if (vote.stance === 'abstain') {
+        result.abstain += ballot.weight
+      } else {
+        result[vote.stance] += ballot.weight * vote.confidence
+      }
+    }
+  }
+
+  let leading: number | undefined
+  results.forEach((result, i) => {
+    result.score = result.approve - result.reject
+    if (ballots.length > 0 && (leading === undefined || result.score > results[leading - 1].score)) {
+      leading = i + 1
+    }
+  })
+
+  return { options, ballots, results, leading }
+}
+
+/**
+ * Roles that voted against the adopted option
+ * Without a recorded choice the leading option is assumed adopted.
+ */
+export function getDissent(tally: VoteTally, adopted = tally.leading): { role: string; justification: string }[] {
+  return tally.ballots.flatMap((ballot) => ballot.votes
+    .filter((vote) => vote.option === adopted && vote.stance === 'reject')
+    .map((vote) => ({ role: ballot.role, justification: vote.justification })))
+}
+
+export const VOTE_STANCE_LABELS = { approve: '赞成', reject: '反对', abstain: '弃权' }
+
+/**
+ * Tally as text for prompts and memory
+ */
+export function formatVoteTally(tally: VoteTally): string {
+  const results = tally.results.map((result, i) =>
+    `${i + 1}. ${result.option}：赞成 ${result.approve.toFixed(2)}，反对 ${result.reject.toFixed(2)}，弃权 ${result.abstain.toFixed(2)}，得分 ${result.score.toFixed(2)}`)
+  const ballots = tally.ballots.map((ballot) =>
+    `- ${ballot.role}（权重 ${ballot.weight}）：${ballot.votes
+      .map((vote) => `选项${vote.option}${VOTE_STANCE_LABELS[vote.stance]}（信心 ${Math.round(vote.confidence * 100)}%，${vote.justification}）`)
+      .join('；')}`)
+  return [...results, ...(tally.leading ? [`得分最高：选项${tally.leading}`] : []), '各部门投票：', ...ballots].join('\n')
+}
@@ -4,10 +4,14 @@ import { existsSync } from 'fs'
 import { fileURLToPath } from 'node:url'
 import YAML from 'yaml'
 import { z } from 'zod'
+import { PROVIDER_ID_PATTERN } from '../llm/providers/base.js'
 
 /**
  * Persona frontmatter schema
  */
+// A built-in provider or a registered endpoint name; unknown ones fall back at run time
+const ProviderIdSchema = z.string().regex(PROVIDER_ID_PATTERN)
+
 export const PersonaFrontmatterSchema = z.object({
   type: z.literal('persona'),
   role: z.string(),
@@ -16,10 +20,15 @@ export const PersonaFrontmatterSchema = z.object({
   personality: z.string(),
   expertise: z.array(z.string()),
   model_config: z.object({
-    provider: z.enum(['openai', 'anthropic', 'ollama', 'glm', 'deepseek']),
+    provider: ProviderIdSchema,
     model: z.string(),
     temperature: z.number().min(0).max(2),
     max_tokens: z.number().positive(),
+    // Providers tried in order when this one fails; model defaults per provider
+    fallback: z.array(z.object({
+      provider: ProviderIdSchema,
+      model: z.string().optional(),
+    })).optional(),
   }),
 })
 
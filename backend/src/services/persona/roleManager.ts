@@ -1,6 +1,6 @@
 import { getPersonaLoader } from './personaLoader.js'
 import type { Persona, PersonaFrontmatter } from './personaLoader.js'
-import type { ModelInfo } from '../llm/providers/base.js'
+import type { ModelInfo, ProviderId } from '../llm/providers/base.js'
 
 /**
  * Role information with metadata
@@ -15,10 +15,11 @@ export interface RoleInfo {
   personality: string
   expertise: string[]
   modelConfig: {
-    provider: 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'
+    provider: ProviderId
     model: string
     temperature: number
     maxTokens: number
+    fallback?: { provider: ProviderId; model?: string }[]
   }
   evolutionHistory: EvolutionEntry[]
 }
@@ -68,6 +69,7 @@ export class RoleManager {
         model: persona.frontmatter.model_config.model,
         temperature: persona.frontmatter.model_config.temperature,
         maxTokens: persona.frontmatter.model_config.max_tokens,
+        fallback: persona.frontmatter.model_config.fallback,
       },
       evolutionHistory: [],
     }
@@ -150,6 +152,8 @@ export class RoleManager {
           model: updates.modelConfig.model,
           temperature: updates.modelConfig.temperature,
           max_tokens: updates.modelConfig.maxTokens,
+          // Editing the model keeps the fallback chain unless a new one is given
+          fallback: updates.modelConfig.fallback ?? persona.frontmatter.model_config.fallback,
         },
       }),
     }
@@ -159,6 +163,9 @@ export class RoleManager {
 
     // Update cache
     const updated = { ...existing, ...updates }
+    if (updates.modelConfig) {
+      updated.modelConfig = { ...updates.modelConfig, fallback: updatedFrontmatter.model_config.fallback }
+    }
     this.roles.set(id, updated)
   }
 
@@ -186,6 +193,7 @@ export class RoleManager {
         model: config.modelConfig.model,
         temperature: config.modelConfig.temperature,
         max_tokens: config.modelConfig.maxTokens,
+        fallback: config.modelConfig.fallback,
       },
     }
 
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { AnthropicProvider, toAnthropicMessages } from '../src/services/llm/providers/anthropic.js'
+
+function createProvider(reply) {
+  const provider = new AnthropicProvider('test-anthropic-key')
+  const requests = []
+  // Stand in for the SDK client
+  provider.client = {
+    messages: {
+      create: async (body) => {
+        requests.push(body)
+        return reply(body)
+      },
+    },
+  }
+  return { provider, requests }
+}
+
+describe('toAnthropicMessages', () => {
+  it('should move every system message to the system parameter in order', () => {
+    const converted = toAnthropicMessages([
+      { role: 'system', content: '你是户部尚书' },
+      { role: 'user', content: '议题：扩建粮仓' },
+      { role: 'system', content: '发言不超过 50 字' },
+      { role: 'user', content: '请发言' },
+    ])
+
+    assert.strictEqual(converted.system, '你是户部尚书\n\n发言不超过 50 字')
+    assert.deepStrictEqual(converted.messages, [{ role: 'user', content: '议题：扩建粮仓\n\n请发言' }])
+  })
+
+  it('should merge consecutive turns of the same role', () => {
+    const converted = toAnthropicMessages([
+      { role: 'user', content: '甲' },
+      { role: 'assistant', content: '乙' },
+      { role: 'assistant', content: '丙' },
+      { role: 'user', content: '丁' },
+    ])
+
+    assert.strictEqual(converted.system, undefined)
+    assert.deepStrictEqual(converted.messages, [
+      { role: 'user', content: '甲' },
+      { role: 'assistant', content: '乙\n\n丙' },
+      { role: 'user', content: '丁' },
+    ])
+  })
+
+  it('should send an instructions-only prompt as the user turn', () => {
+    assert.deepStrictEqual(toAnthropicMessages([{ role: 'system', content: '总结会议' }]), {
+      messages: [{ role: 'user', content: '总结会议' }],
+    })
+  })
+})
+
+describe('AnthropicProvider', () => {
+  it('should pass the system prompt and stop sequences and report usage', async () => {
+    const { provider, requests } = createProvider(() => ({
+      model: 'claude-3-5-sonnet-20241022',
+      content: [{ type: 'text', text: '臣以为' }, { type: 'text', text: '可行。' }],
+      usage: { input_tokens: 40, output_tokens: 6 },
+    }))
+
+    const response = await provider.complete({
+      messages: [{ role: 'system', content: '你是首辅' }, { role: 'user', content: '请决断' }],
+      stop: ['\n\n'],
+    })
+
+    assert.strictEqual(requests[0].system, '你是首辅')
+    assert.deepStrictEqual(requests[0].messages, [{ role: 'user', content: '请决断' }])
+    assert.deepStrictEqual(requests[0].stop_sequences, ['\n\n'])
+    assert.strictEqual(response.content, '臣以为可行。')
+    assert.deepStrictEqual(response.usage, { promptTokens: 40, completionTokens: 6, totalTokens: 46 })
+  })
+
+  it('should report the streamed usage with the final chunk', async () => {
+    const { provider, requests } = createProvider(async function* () {
+      yield { type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } }
+      yield { type: 'content_block_delta', delta: { type: 'text_delta', text: '先试点' } }
+      yield { type: 'content_block_delta', delta: { type: 'text_delta', text: '再推广' } }
+      yield { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 9 } }
+      yield { type: 'message_stop' }
+    })
+
+    const chunks = []
+    for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: '请发言' }] })) {
+      chunks.push(chunk)
+    }
+
+    assert.strictEqual(requests[0].stream, true)
+    assert.strictEqual(requests[0].system, undefined)
+    assert.strictEqual(chunks.map((chunk) => chunk.content).join(''), '先试点再推广')
+    assert.deepStrictEqual(chunks.at(-1), {
+      content: '',
+      done: true,
+      usage: { promptTokens: 25, completionTokens: 9, totalTokens: 34 },
+    })
+  })
+})
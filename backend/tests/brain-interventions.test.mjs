@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { resolveInterventions } from '../src/services/orchestrator/mainBrain.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+import { MeetingStage } from '../src/services/orchestrator/stages.js'
+
+const statement = (id, role, content = '意见') => ({ id, timestamp: '', role, type: 'statement', content })
+const intervention = (id, targetRole) => ({ id, timestamp: '', type: 'question', content: '问题', targetRole, resolved: false })
+
+describe('resolveInterventions', () => {
+  it('should resolve a targeted intervention only when its target speaks', () => {
+    const records = [intervention('b1', 'FINANCE')]
+    const messages = [statement('a', 'CRITIC'), { ...statement('b1', 'BRAIN'), type: 'question' }, statement('c', 'WORKS')]
+
+    resolveInterventions(records, messages)
+    assert.strictEqual(records[0].resolved, false)
+
+    resolveInterventions(records, [...messages, statement('d', 'FINANCE')])
+    assert.strictEqual(records[0].resolved, true)
+  })
+
+  it('should resolve an open question once any department speaks', () => {
+    const records = [intervention('b1')]
+    const messages = [{ ...statement('b1', 'BRAIN'), type: 'question' }, statement('p', 'PRIME')]
+
+    resolveInterventions(records, messages)
+    assert.strictEqual(records[0].resolved, false)
+
+    resolveInterventions(records, [...messages, statement('c', 'CRITIC')])
+    assert.strictEqual(records[0].resolved, true)
+  })
+})
+
+describe('FlowControl live interventions', () => {
+  const createMeeting = () => ({ id: 'm1', topic: '扩建仓库', budget: 50000, usage: 0, messages: [], artifacts: {} })
+  const speeches = [statement('a', 'CRITIC'), statement('b', 'FINANCE'), statement('c', 'WORKS')]
+
+  it('should record an elaboration request and get the answer from its target', async () => {
+    const { flow, calls } = createScriptedFlow(['ELABORATE: FINANCE: 资金从哪里来？', '来自专项债'])
+    const meeting = createMeeting()
+
+    const result = await flow.evaluateLiveIntervention(meeting, speeches, ['CRITIC', 'FINANCE', 'WORKS'])
+
+    assert.deepStrictEqual(calls.map((call) => call.role), ['brain', 'finance'])
+    assert.strictEqual(result.messages[0].type, 'elaboration_request')
+    assert.strictEqual(result.messages[1].role, 'FINANCE')
+    assert.deepStrictEqual(meeting.artifacts.brainInterventions.map((item) => [item.id, item.targetRole]), [[result.messages[0].id, 'FINANCE']])
+
+    resolveInterventions(meeting.artifacts.brainInterventions, [...speeches, ...result.messages])
+    assert.strictEqual(meeting.artifacts.brainInterventions[0].resolved, true)
+  })
+
+  it('should stay quiet when BRAIN sees no need or just spoke', async () => {
+    const { flow, calls } = createScriptedFlow(['NONE'])
+    const meeting = createMeeting()
+
+    assert.deepStrictEqual((await flow.evaluateLiveIntervention(meeting, speeches, [])).messages, [])
+    assert.deepStrictEqual(
+      (await flow.evaluateLiveIntervention(meeting, [...speeches, statement('x', 'BRAIN')], [])).messages,
+      []
+    )
+    assert.deepStrictEqual(calls.map((call) => call.role), ['brain'])
+    assert.strictEqual(meeting.artifacts.brainInterventions, undefined)
+  })
+
+  it('should evaluate after every speech and put a question to the next speaker', async () => {
+    const { flow, calls } = createScriptedFlow(['工部意见', 'QUESTION: 工期多久？', '刑部意见', 'NONE', '户部意见'])
+    const meeting = {
+      ...createMeeting(),
+      selectedRoleIds: ['prime', 'brain', 'critic', 'finance', 'works'],
+      userAnswerTimeoutMs: 0,
+      artifacts: { speakPlan: { speakingOrder: ['WORKS', 'CRITIC', 'FINANCE'], rationale: '指定', setBy: 'USER' } },
+    }
+
+    const result = await flow.executeStage(meeting, MeetingStage.DEPARTMENT_SPEECHES)
+
+    // No evaluation after the last speaker: nobody would hear it
+    assert.deepStrictEqual(calls.map((call) => call.role), ['works', 'brain', 'critic', 'brain', 'finance'])
+    assert.match(calls[2].prompt, /主脑（BRAIN）的介入，请在发言中回应:\n- 问题: 工期多久？/)
+    assert.doesNotMatch(calls[4].prompt, /主脑（BRAIN）的介入/)
+    assert.deepStrictEqual(result.messages.filter((m) => m.role !== 'SYSTEM').map((m) => m.role), ['WORKS', 'BRAIN', 'CRITIC', 'FINANCE'])
+    assert.strictEqual(meeting.artifacts.brainInterventions[0].resolved, true)
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cabinet-cassette-'))
+const fixturesDir = path.join(tmpDir, 'fixtures')
+const ROLES = ['PRIME', 'BRAIN', 'CRITIC', 'FINANCE', 'WORKS', 'CLERK']
+
+let diffPrompts
+let getCassetteStore
+let runMeeting
+let InMemoryMeetingRepository
+
+before(async () => {
+  fs.mkdirSync(fixturesDir)
+  fs.copyFileSync(new URL('../data/mock/default.json', import.meta.url), path.join(fixturesDir, 'default.json'))
+  // A replay must never reach the provider
+  fs.writeFileSync(path.join(fixturesDir, 'unreachable.json'), JSON.stringify({
+    replies: [{ error: 'provider called during replay', status: 400, repeat: true }],
+  }))
+
+  process.env.MOCK_FIXTURES_DIR = fixturesDir
+  process.env.CASSETTES_DIR = path.join(tmpDir, 'cassettes')
+  process.env.MEMORY_DIR = path.join(tmpDir, 'memory')
+  process.env.LLM_MAX_RETRIES = '0'
+
+  ;({ diffPrompts, getCassetteStore } = await import('../src/services/llm/cassette.js'))
+  ;({ runMeeting } = await import('../src/controllers/meetingsController.js'))
+  ;({ InMemoryMeetingRepository } = await import('../src/services/meetings/meetingRepository.js'))
+})
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+})
+
+function createMeeting(id, fixtures, cassette, topic = '是否扩建粮仓') {
+  return {
+    id,
+    topic,
+    selectedRoleIds: ROLES.map((role) => role.toLowerCase()),
+    status: 'running',
+    budget: 50000,
+    usage: 0,
+    userAnswerTimeoutMs: 0,
+    createdAt: new Date().toISOString(),
+    messages: [],
+    artifacts: {},
+    providerOverrides: Object.fromEntries(ROLES.map((role) => [role, { provider: 'mock', model: fixtures }])),
+    cassette,
+  }
+}
+
+const transcript = (meeting) => meeting.messages
+  .filter((m) => m.role !== 'SYSTEM')
+  .map((m) => `${m.role}: ${m.content}`)
+
+describe('diffPrompts', () => {
+  it('should locate the first changed, added or removed message', () => {
+    const recorded = [{ role: 'system', content: '你是户部尚书' }, { role: 'user', content: '议题：扩建粮仓' }]
+
+    assert.strictEqual(diffPrompts(recorded, recorded.map((m) => ({ ...m }))), null)
+    assert.strictEqual(
+      diffPrompts(recorded, [recorded[0], { role: 'user', content: '议题：修缮城墙' }]),
+      'message 1 (user) differs at char 3: "扩建粮仓" → "修缮城墙"'
+    )
+    assert.strictEqual(diffPrompts(recorded, recorded.slice(0, 1)), 'message 1: removed user "议题：扩建粮仓"')
+  })
+})
+
+describe('meeting cassettes', () => {
+  it('should record every provider call of a meeting and replay it without the provider', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const recorded = createMeeting('rec-1', 'default', { mode: 'record' })
+
+    await runMeeting(recorded, repository)
+    assert.strictEqual(recorded.status, 'completed', recorded.error)
+
+    const cassette = await getCassetteStore().read('rec-1')
+    assert.ok(cassette.entries.length >= ROLES.length)
+    assert.deepStrictEqual(cassette.entries.map((entry) => entry.seq), cassette.entries.map((_, i) => i + 1))
+    for (const entry of cassette.entries) {
+      assert.ok(entry.role && entry.stage, `entry ${entry.seq} has no caller`)
+      assert.strictEqual(entry.provider, 'mock')
+      assert.ok(entry.params.messages.length > 0)
+      assert.strictEqual(entry.params.signal, undefined)
+      assert.strictEqual(typeof entry.response.content, 'string')
+    }
+    assert.ok(cassette.entries.some((entry) => entry.role === 'CLERK' && entry.stage === 'clerk_minutes'))
+
+    const replayed = createMeeting('replay-1', 'unreachable', { mode: 'replay', source: 'rec-1' })
+    await runMeeting(replayed, repository)
+
+    assert.strictEqual(replayed.status, 'completed', replayed.error)
+    assert.deepStrictEqual(transcript(replayed), transcript(recorded))
+    assert.deepStrictEqual(replayed.artifacts.finalDecision, recorded.artifacts.finalDecision)
+    assert.strictEqual(fs.existsSync(path.join(tmpDir, 'cassettes', 'replay-1.json')), false)
+  })
+
+  it('should report prompts that changed since the recording', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const recorded = createMeeting('rec-2', 'default', { mode: 'record' })
+    await runMeeting(recorded, repository)
+
+    const replayed = createMeeting('replay-2', 'unreachable', { mode: 'replay', source: 'rec-2' }, '是否修缮城墙')
+    await runMeeting(replayed, repository)
+
+    assert.strictEqual(replayed.status, 'completed', replayed.error)
+    assert.ok(replayed.cassette.mismatches.length > 0)
+    const [first] = replayed.cassette.mismatches
+    assert.strictEqual(first.seq, 1)
+    assert.match(first.diff, /修缮城墙/)
+  })
+
+  it('should fail a replay that runs out of recorded calls', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const replayed = createMeeting('replay-3', 'unreachable', { mode: 'replay', source: 'rec-1' })
+    replayed.flowTemplate = 'debate'
+
+    await runMeeting(replayed, repository)
+
+    assert.strictEqual(replayed.status, 'failed')
+    assert.match(replayed.error, /No recorded call left/)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { createScriptedFlow } from './scripted-flow.mjs'
+import { MeetingStage } from '../src/services/orchestrator/stages.js'
+
+function createMeeting() {
+  return {
+    id: 'm1',
+    topic: '是否扩建城东仓库',
+    status: 'running',
+    budget: 50000,
+    usage: 0,
+    messages: [
+      { id: 's1', timestamp: '', role: 'SYSTEM', type: 'system', content: '进入阶段: department_speeches', metadata: { stage: 'department_speeches' } },
+      { id: 'a', timestamp: '', role: 'FINANCE', type: 'statement', content: '预算可以覆盖一期工程' },
+      { id: 'b', timestamp: '', role: 'CRITIC', type: 'statement', content: '选址存在内涝风险' },
+      { id: 'c', timestamp: '', role: 'USER', type: 'response', content: '请优先考虑工期' },
+      { id: 's2', timestamp: '', role: 'SYSTEM', type: 'system', content: '进入阶段: prime_decision', metadata: { stage: 'prime_decision' } },
+      { id: 'd', timestamp: '', role: 'PRIME', type: 'statement', content: '批准一期扩建' },
+    ],
+    artifacts: {
+      finalDecision: { decision: '批准一期扩建', reasoning: '预算可控', nextSteps: ['完成排水评估'] },
+    },
+    createdAt: new Date().toISOString(),
+  }
+}
+
+function withReply(reply) {
+  return createScriptedFlow(reply, {
+    usage: { totalTokens: 30 },
+    metered: { promptTokens: 20, completionTokens: 10, costUsd: 0 },
+  })
+}
+
+describe('CLERK minutes', () => {
+  it('should record minutes written by CLERK', async () => {
+    const { flow, calls } = withReply(JSON.stringify({
+      agenda: ['城东仓库扩建'],
+      stageSummaries: [{ stage: 'department_speeches', summary: '财政支持，御史提示内涝风险' }],
+      decisions: ['批准一期扩建'],
+      actionItems: [{ item: '完成排水评估', owner: 'WORKS', due: '下月' }],
+    }))
+    const meeting = createMeeting()
+
+    const result = await flow.executeClerkMinutes(meeting)
+
+    assert.strictEqual(calls[0].role, 'clerk')
+    assert.match(calls[0].prompt, /## department_speeches\nFINANCE: 预算可以覆盖一期工程/)
+    assert.deepStrictEqual(result.artifact.attendees, ['FINANCE', 'CRITIC', 'PRIME'])
+    assert.strictEqual(result.artifact.actionItems[0].owner, 'WORKS')
+    assert.strictEqual(result.messages[0].role, 'CLERK')
+    assert.match(result.messages[0].content, /1 项决定，1 项待办/)
+  })
+
+  it('should fall back to the final decision when the minutes stay invalid', async () => {
+    const { flow } = withReply('纪要略')
+    const meeting = createMeeting()
+
+    const result = await flow.executeClerkMinutes(meeting)
+
+    assert.deepStrictEqual(result.artifact.decisions, ['批准一期扩建'])
+    assert.deepStrictEqual(result.artifact.actionItems, [{ item: '完成排水评估', owner: 'PRIME' }])
+  })
+
+  it('should finish instead of returning to the decision when the budget runs out', async () => {
+    const { flow, calls } = withReply('纪要略')
+    const meeting = { ...createMeeting(), usage: 60000 }
+
+    const result = await flow.executeStage(meeting, MeetingStage.CLERK_MINUTES)
+
+    assert.strictEqual(result.newStage, MeetingStage.COMPLETED)
+    assert.strictEqual(calls.length, 0)
+  })
+})
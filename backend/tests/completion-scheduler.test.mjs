@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { CompletionScheduler } from '../src/services/llm/scheduler.js'
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function track(log, name, ms) {
+  return async () => {
+    log.push(`start:${name}`)
+    await delay(ms)
+    log.push(`end:${name}`)
+    return name
+  }
+}
+
+describe('CompletionScheduler', () => {
+  it('should run different meetings concurrently', async () => {
+    const scheduler = new CompletionScheduler({}, 2)
+    const log = []
+
+    await Promise.all([
+      scheduler.schedule({ provider: 'glm', meetingId: 'a' }, track(log, 'a1', 20)),
+      scheduler.schedule({ provider: 'glm', meetingId: 'b' }, track(log, 'b1', 20)),
+    ])
+
+    assert.deepStrictEqual(log.slice(0, 2).sort(), ['start:a1', 'start:b1'])
+  })
+
+  it('should keep ordered tasks of one meeting in submission order', async () => {
+    const scheduler = new CompletionScheduler({}, 4)
+    const log = []
+
+    await Promise.all([
+      scheduler.schedule({ provider: 'glm', meetingId: 'a' }, track(log, 'first', 20)),
+      scheduler.schedule({ provider: 'glm', meetingId: 'a' }, track(log, 'second', 1)),
+    ])
+
+    assert.deepStrictEqual(log, ['start:first', 'end:first', 'start:second', 'end:second'])
+  })
+
+  it('should overlap parallel tasks but fence them from the next ordered task', async () => {
+    const scheduler = new CompletionScheduler({}, 4)
+    const log = []
+
+    await Promise.all([
+      scheduler.schedule({ provider: 'glm', meetingId: 'a', parallel: true }, track(log, 'p1', 20)),
+      scheduler.schedule({ provider: 'glm', meetingId: 'a', parallel: true }, track(log, 'p2', 10)),
+      scheduler.schedule({ provider: 'glm', meetingId: 'a' }, track(log, 'next', 1)),
+    ])
+
+    assert.deepStrictEqual(log.slice(0, 2), ['start:p1', 'start:p2'])
+    assert.strictEqual(log.indexOf('start:next'), 4)
+  })
+
+  it('should respect the per-provider limit and report waits', async () => {
+    const scheduler = new CompletionScheduler({ ollama: 1 }, 4)
+    const log = []
+
+    const first = scheduler.schedule({ provider: 'ollama', meetingId: 'a' }, track(log, 'a', 20))
+    const second = scheduler.schedule({ provider: 'ollama', meetingId: 'b' }, track(log, 'b', 1))
+    await delay(5)
+
+    assert.strictEqual(scheduler.getStats().ollama.queued, 1)
+    assert.strictEqual(scheduler.getMeetingStatus('b').waiting, 1)
+
+    await Promise.all([first, second])
+    assert.deepStrictEqual(log, ['start:a', 'end:a', 'start:b', 'end:b'])
+    assert.ok(scheduler.getStats().ollama.averageWaitMs > 0)
+    assert.strictEqual(scheduler.getMeetingStatus('a').pending, 0)
+  })
+
+  it('should keep the queue moving after a failed task', async () => {
+    const scheduler = new CompletionScheduler({}, 1)
+
+    const failing = scheduler.schedule({ provider: 'glm', meetingId: 'a' }, async () => {
+      throw new Error('boom')
+    })
+    const next = scheduler.schedule({ provider: 'glm', meetingId: 'a' }, async () => 'ok')
+
+    await assert.rejects(failing, /boom/)
+    assert.strictEqual(await next, 'ok')
+  })
+})
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from '@types/node'
 import { getContextCompressor } from '../src/services/memory/contextCompressor.js'
+import { countTokens } from '../src/services/llm/tokenizer.js'
 import type { Message } from '../src/models/index.js'
 
 describe('ContextCompressor', () => {
@@ -16,7 +17,7 @@ describe('ContextCompressor', () => {
   describe('Token Estimation', () => {
     it('should estimate tokens correctly', () => {
       const text = 'This is a test message with some content'
-      const tokens = compressor['estimateTokens'](text)
+      const tokens = countTokens(undefined, text)
       expect(tokens).toBeGreaterThan(0)
     })
 
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { recordDebateRound, scoreConvergence } from '../src/services/orchestrator/debateRounds.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+
+describe('scoreConvergence', () => {
+  it('should score the share of consensus among the points raised', () => {
+    assert.strictEqual(scoreConvergence({ consensus: ['需要扩建'], disagreements: ['资金', '工期', '选址'] }), 0.25)
+    assert.strictEqual(scoreConvergence({ consensus: [], disagreements: [] }), 1)
+  })
+})
+
+describe('recordDebateRound', () => {
+  const split = { consensus: ['需要扩建'], disagreements: ['资金'] }
+
+  it('should stop at the round cap even without convergence', () => {
+    const meeting = { artifacts: {} }
+    const step = { id: 'debate', kind: 'debate_round', maxRounds: 2 }
+
+    assert.strictEqual(recordDebateRound(meeting, step, split).repeat, true)
+    const last = recordDebateRound(meeting, step, split)
+
+    assert.strictEqual(last.repeat, false)
+    assert.deepStrictEqual(meeting.artifacts.debateRounds.map((r) => [r.round, r.converged]), [[1, false], [2, false]])
+  })
+
+  it('should use the step threshold', () => {
+    const meeting = { artifacts: {} }
+    const { round, repeat } = recordDebateRound(meeting, { id: 'debate', kind: 'debate_round', convergenceThreshold: 0.5 }, split)
+
+    assert.strictEqual(round.converged, true)
+    assert.strictEqual(repeat, false)
+  })
+})
+
+describe('FlowControl debate rounds', () => {
+  function withAnalyses(analyses) {
+    return createScriptedFlow((role, messages) => {
+      if (role !== 'brain') {
+        return '同意扩建，但需控制成本'
+      }
+      return messages.at(-1).content.includes('"consensus"') ? JSON.stringify(analyses.shift()) : 'NONE'
+    })
+  }
+
+  const analysis = (consensus, disagreements) => ({
+    analysis: '分歧集中在资金',
+    consensus,
+    disagreements,
+    shouldIntervene: false,
+  })
+
+  it('should repeat the step until BRAIN finds the positions converged', async () => {
+    const { flow, calls } = withAnalyses([
+      analysis(['需要扩建'], ['资金', '工期']),
+      analysis(['需要扩建', '分期建设', '先租后建'], ['工期']),
+    ])
+    const meeting = {
+      id: 'm1',
+      topic: '扩建仓库',
+      flowTemplate: 'rounds',
+      selectedRoleIds: ['prime', 'brain', 'critic', 'finance'],
+      budget: 50000,
+      usage: 0,
+      userAnswerTimeoutMs: 0,
+      messages: [],
+      artifacts: { speakPlan: { speakingOrder: ['CRITIC', 'FINANCE'], rationale: '' } },
+    }
+
+    const first = await flow.executeStage(meeting, 'debate')
+    meeting.messages.push(...first.messages)
+    assert.strictEqual(first.newStage, 'debate')
+    assert.strictEqual(first.messages[0].metadata.round, 1)
+    assert.match(first.messages.at(-1).content, /第 1 轮收敛度 33%.*继续下一轮辩论/)
+
+    calls.length = 0
+    const second = await flow.executeStage(meeting, 'debate')
+    const critic = calls.find((call) => call.role === 'critic').prompt
+    assert.strictEqual(second.newStage, 'prime_summary')
+    assert.strictEqual(second.messages[0].metadata.round, 2)
+    assert.ok(second.messages.some((m) => m.id.endsWith('-CRITIC-followup')))
+    // Later rounds answer the previous round, not a PRIME summary
+    assert.match(critic, /第 1 轮辩论发言：\nCRITIC: 同意扩建，但需控制成本\n\nFINANCE: 同意扩建，但需控制成本/)
+    assert.match(critic, /上一轮的分歧点：\n1\. 资金\n2\. 工期/)
+    assert.match(critic, /这是第 2 轮辩论/)
+    assert.doesNotMatch(critic, /群主总结/)
+    assert.deepStrictEqual(meeting.artifacts.debateRounds.map((r) => [r.round, r.convergence, r.converged]), [
+      [1, 1 / 3, false],
+      [2, 0.75, true],
+    ])
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { createDecisionOptions, getMatrixDimensions, scoreDecisionMatrix } from '../src/services/orchestrator/decisionMatrix.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+import { MeetingStage } from '../src/services/orchestrator/stages.js'
+
+describe('scoreDecisionMatrix', () => {
+  const options = createDecisionOptions([
+    { title: '自建新仓', description: '一次投入' },
+    { title: '租赁仓库', description: '按年付租' },
+  ])
+
+  it('should score the weighted average of each dimension', () => {
+    const dimensions = getMatrixDimensions(['CRITIC', 'FINANCE', 'HISTORY'], { FINANCE: 3 })
+    assert.deepStrictEqual(dimensions.map((d) => [d.role, d.weight]), [['CRITIC', 1], ['FINANCE', 3]])
+
+    const matrix = scoreDecisionMatrix(options, dimensions, [
+      { optionId: 'A', role: 'CRITIC', score: 8, rationale: '' },
+      { optionId: 'A', role: 'FINANCE', score: 4, rationale: '' },
+      { optionId: 'B', role: 'CRITIC', score: 4, rationale: '' },
+      { optionId: 'B', role: 'FINANCE', score: 8, rationale: '' },
+    ])
+
+    assert.deepStrictEqual(options.map((o) => o.id), ['A', 'B'])
+    assert.deepStrictEqual(matrix.totals, { A: 5, B: 7 })
+    assert.strictEqual(matrix.recommendedOptionId, 'B')
+  })
+
+  it('should leave unscored options out of the totals', () => {
+    const matrix = scoreDecisionMatrix(options, getMatrixDimensions(['WORKS']), [
+      { optionId: 'A', role: 'WORKS', score: 6, rationale: '' },
+    ])
+    assert.deepStrictEqual(matrix.totals, { A: 6 })
+  })
+})
+
+describe('FlowControl decision matrix', () => {
+  const createMeeting = () => ({
+    id: 'm1',
+    topic: '扩建仓库',
+    selectedRoleIds: ['prime', 'brain', 'critic', 'finance'],
+    budget: 50000,
+    usage: 0,
+    messages: [],
+    artifacts: { speakPlan: { speakingOrder: ['CRITIC', 'FINANCE'], rationale: '' } },
+  })
+  const options = JSON.stringify({
+    options: [
+      { title: '自建新仓', description: '一次投入' },
+      { title: '租赁仓库', description: '按年付租' },
+    ],
+  })
+  const scores = (a, b) => JSON.stringify({
+    scores: [
+      { optionId: 'a', score: a, rationale: '评估' },
+      { optionId: 'B', score: b, rationale: '评估' },
+      { optionId: 'C', score: 10, rationale: '不存在' },
+    ],
+  })
+
+  it('should build the matrix and let the decision reference an option', async () => {
+    const { flow, calls } = createScriptedFlow({
+      prime: [
+        options,
+        JSON.stringify({ decision: '租赁仓库', reasoning: '现金流可控', nextSteps: ['签约'], chosenOptionId: 'b' }),
+      ],
+      critic: [scores(6, 7)],
+      finance: [scores(3, 9)],
+    })
+    const meeting = createMeeting()
+
+    const result = await flow.executeStage(meeting, MeetingStage.DECISION_MATRIX)
+    meeting.messages.push(...result.messages)
+
+    const matrix = meeting.artifacts.decisionMatrix
+    assert.strictEqual(matrix.scores.length, 4)
+    assert.deepStrictEqual(matrix.totals, { A: 4.5, B: 8 })
+    assert.strictEqual(matrix.recommendedOptionId, 'B')
+    assert.match(result.messages.at(-1).content, /方案B加权得分最高/)
+
+    const decision = await flow.executeStage(meeting, MeetingStage.PRIME_DECISION)
+    meeting.messages.push(...decision.messages)
+    assert.match(calls.at(-1).prompt, /方案 B：租赁仓库[\s\S]*"chosenOptionId"/)
+    assert.strictEqual(meeting.artifacts.finalDecision.chosenOptionId, 'B')
+  })
+
+  it('should drop a chosen option that is not in the matrix', async () => {
+    const { flow } = createScriptedFlow({
+      prime: [JSON.stringify({ decision: '暂缓扩建', reasoning: '需求不明', nextSteps: ['调研'], chosenOptionId: 'Z' })],
+    })
+    const meeting = createMeeting()
+
+    await flow.executeStage(meeting, MeetingStage.PRIME_DECISION)
+
+    assert.strictEqual(meeting.artifacts.finalDecision.chosenOptionId, undefined)
+    assert.strictEqual(meeting.artifacts.finalDecision.decision, '暂缓扩建')
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { fileURLToPath } from 'node:url'
+
+import {
+  FlowTemplateLoader,
+  getNextStep,
+  getDecisionStep,
+  isAfterDecision,
+} from '../src/services/orchestrator/flowTemplates.js'
+
+const bundledFlowsDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../data/flows')
+
+describe('FlowTemplateLoader', () => {
+  let dir
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cabinet-flows-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should load the bundled templates', async () => {
+    const loader = new FlowTemplateLoader(bundledFlowsDir)
+    const ids = (await loader.list()).map((t) => t.id).sort()
+
+    assert.deepStrictEqual(ids, ['debate', 'deep', 'quick', 'rounds', 'standard'])
+    const quick = await loader.get('quick')
+    assert.deepStrictEqual(quick.stages.map((s) => s.kind), ['issue_brief', 'department_speeches', 'prime_decision', 'clerk_minutes'])
+  })
+
+  it('should walk steps in template order', async () => {
+    const deep = await new FlowTemplateLoader(bundledFlowsDir).get('deep')
+
+    assert.strictEqual(getNextStep(deep, 'prime_summary'), 'follow_up_round_2')
+    assert.strictEqual(getNextStep(deep, 'prime_decision'), 'clerk_minutes')
+    assert.strictEqual(getNextStep(deep, 'clerk_minutes'), 'completed')
+    assert.strictEqual(getDecisionStep(deep).id, 'prime_decision')
+    assert.strictEqual(isAfterDecision(deep, 'clerk_minutes'), true)
+    assert.strictEqual(isAfterDecision(deep, 'follow_up_round_3'), false)
+  })
+
+  it('should load JSON templates and normalise roles', async () => {
+    await fs.writeFile(path.join(dir, 'duel.json'), JSON.stringify({
+      id: 'duel',
+      name: 'Duel',
+      stages: [
+        { id: 'opening', kind: 'department_speeches', roles: ['critic', 'works'] },
+        { id: 'verdict', kind: 'prime_decision' },
+      ],
+    }))
+
+    const duel = await new FlowTemplateLoader(dir).get('duel')
+    assert.deepStrictEqual(duel.stages[0].roles, ['CRITIC', 'WORKS'])
+  })
+
+  it('should skip invalid templates and fall back to the built-in flow', async () => {
+    await fs.writeFile(path.join(dir, 'broken.yaml'), [
+      'id: broken',
+      'name: Broken',
+      'stages:',
+      '  - id: step',
+      '    kind: completed',
+    ].join('\n'))
+
+    const loader = new FlowTemplateLoader(dir)
+    assert.strictEqual(await loader.get('broken'), undefined)
+    const fallback = await loader.resolve('broken')
+    assert.strictEqual(fallback.id, 'standard')
+    assert.strictEqual(fallback.stages.length, 8)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+describe('keyStore', () => {
+  let dir
+  let keyStore
+  let providerFactory
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cabinet-keys-'))
+    process.env.KEYS_FILE = path.join(dir, 'keys.json')
+    process.env.DEEPSEEK_API_KEY = 'env-deepseek-key'
+    keyStore = await import('../src/services/llm/keyStore.js')
+    providerFactory = await import('../src/services/llm/providerFactory.js')
+  })
+
+  after(async () => {
+    delete process.env.KEYS_FILE
+    delete process.env.DEEPSEEK_API_KEY
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should fall back to the environment when no key is stored', () => {
+    assert.strictEqual(keyStore.resolveKey('deepseekApiKey'), 'env-deepseek-key')
+    assert.strictEqual(keyStore.getKeyStatus().deepseek.source, 'env')
+  })
+
+  it('should prefer stored keys and pass them to new providers', async () => {
+    await keyStore.setKeys({ deepseekApiKey: 'stored-deepseek-key' })
+    providerFactory.ProviderFactory.clearCache()
+
+    assert.strictEqual(keyStore.getKeyStatus().deepseek.source, 'store')
+    assert.strictEqual(
+      providerFactory.resolveProviderCredentials('deepseek').apiKey,
+      'stored-deepseek-key'
+    )
+  })
+
+  it('should restore the env fallback when a key is cleared', async () => {
+    await keyStore.setKeys({ deepseekApiKey: '' })
+
+    const saved = JSON.parse(await fs.readFile(process.env.KEYS_FILE, 'utf-8'))
+    assert.strictEqual(saved.deepseekApiKey, undefined)
+    assert.strictEqual(keyStore.resolveKey('deepseekApiKey'), 'env-deepseek-key')
+  })
+})
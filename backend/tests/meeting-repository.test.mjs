@@ -0,0 +1,98 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+import { FileMeetingRepository } from '../src/services/meetings/meetingRepository.js'
+
+function createMeeting(overrides = {}) {
+  return {
+    id: `${Date.now()}${Math.floor(Math.random() * 1000)}`,
+    topic: 'Test topic',
+    status: 'pending',
+    budget: 50000,
+    usage: 0,
+    createdAt: new Date().toISOString(),
+    messages: [],
+    artifacts: {},
+    ...overrides,
+  }
+}
+
+describe('FileMeetingRepository', () => {
+  let dir
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cabinet-meetings-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should persist meetings across instances', async () => {
+    const repository = new FileMeetingRepository(dir)
+    await repository.initialize()
+    const meeting = createMeeting()
+    await repository.save(meeting)
+
+    const reloaded = new FileMeetingRepository(dir)
+    await reloaded.initialize()
+    assert.strictEqual(reloaded.get(meeting.id)?.topic, 'Test topic')
+    assert.strictEqual(reloaded.list().length, 1)
+  })
+
+  it('should not persist runtime flags', async () => {
+    const repository = new FileMeetingRepository(dir)
+    await repository.initialize()
+    const meeting = createMeeting({ isProcessing: true, pendingUserResponses: ['hi'] })
+    await repository.save(meeting)
+
+    const raw = JSON.parse(await fs.readFile(path.join(dir, `${meeting.id}.json`), 'utf-8'))
+    assert.strictEqual(raw.isProcessing, undefined)
+    assert.strictEqual(raw.pendingUserResponses, undefined)
+  })
+
+  it('should keep the latest snapshot when saves overlap', async () => {
+    const repository = new FileMeetingRepository(dir)
+    await repository.initialize()
+    const meeting = createMeeting()
+
+    const writes = []
+    for (let i = 1; i <= 5; i += 1) {
+      meeting.usage = i
+      writes.push(repository.save({ ...meeting }))
+    }
+    await Promise.all(writes)
+
+    const files = await fs.readdir(dir)
+    assert.deepStrictEqual(files, [`${meeting.id}.json`])
+    const raw = JSON.parse(await fs.readFile(path.join(dir, files[0]), 'utf-8'))
+    assert.strictEqual(raw.usage, 5)
+  })
+
+  it('should mark running meetings as interrupted on startup', async () => {
+    const meeting = createMeeting({ status: 'running' })
+    await fs.writeFile(path.join(dir, `${meeting.id}.json`), JSON.stringify(meeting), 'utf-8')
+
+    const repository = new FileMeetingRepository(dir)
+    await repository.initialize()
+
+    const loaded = repository.get(meeting.id)
+    assert.strictEqual(loaded?.status, 'interrupted')
+    assert.ok(loaded?.interruptedAt)
+    assert.ok(loaded?.messages.some((m) => m.role === 'SYSTEM'))
+  })
+
+  it('should delete meeting files', async () => {
+    const repository = new FileMeetingRepository(dir)
+    await repository.initialize()
+    const meeting = createMeeting()
+    await repository.save(meeting)
+
+    assert.strictEqual(await repository.delete(meeting.id), true)
+    assert.strictEqual(repository.has(meeting.id), false)
+    assert.deepStrictEqual(await fs.readdir(dir), [])
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, afterEach } from 'node:test'
+import assert from 'node:assert'
+
+import { FlowControl, RoleCompletionError } from '../src/services/orchestrator/flowControl.js'
+import { InMemoryMeetingRepository } from '../src/services/meetings/meetingRepository.js'
+import { MeetingControlError } from '../src/services/meetings/runControl.js'
+import { getRoleProvider } from '../src/services/llm/providerFactory.js'
+import { runMeeting, retryMeeting } from '../src/controllers/meetingsController.js'
+
+const executeStage = FlowControl.prototype.executeStage
+
+function createMeeting(overrides = {}) {
+  return {
+    id: `${Date.now()}${Math.floor(Math.random() * 1000)}`,
+    topic: '扩建仓库',
+    status: 'running',
+    budget: 50000,
+    usage: 0,
+    createdAt: new Date().toISOString(),
+    messages: [],
+    artifacts: {},
+    ...overrides,
+  }
+}
+
+const statement = (id) => ({ id, timestamp: '', role: 'PRIME', type: 'statement', content: '简报' })
+
+describe('retrying a failed meeting', () => {
+  afterEach(() => {
+    FlowControl.prototype.executeStage = executeStage
+  })
+
+  it('should record the failed stage and the role whose provider failed', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const meeting = createMeeting()
+    FlowControl.prototype.executeStage = async function (m, stage) {
+      if (stage === 'issue_brief') {
+        m.usage += 120
+        return { messages: [statement('brief')], newStage: 'department_speeches' }
+      }
+      throw new RoleCompletionError('FINANCE', 'openai', 'gpt-4o', new Error('rate limited'))
+    }
+
+    await runMeeting(meeting, repository)
+
+    assert.strictEqual(meeting.status, 'failed')
+    assert.strictEqual(meeting.currentStage, 'department_speeches')
+    assert.deepStrictEqual(
+      { ...meeting.failure, failedAt: undefined },
+      { stage: 'department_speeches', role: 'FINANCE', provider: 'openai', model: 'gpt-4o', error: 'rate limited', failedAt: undefined }
+    )
+    assert.strictEqual(meeting.usage, 120)
+  })
+
+  it('should resume from the failed stage with another provider for the failing role', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const meeting = createMeeting({
+      status: 'failed',
+      currentStage: 'department_speeches',
+      usage: 120,
+      messages: [statement('brief')],
+      failure: { stage: 'department_speeches', role: 'FINANCE', provider: 'openai', model: 'gpt-4o', error: 'rate limited', failedAt: '' },
+    })
+    const stages = []
+    let finished
+    const done = new Promise((resolve) => { finished = resolve })
+    FlowControl.prototype.executeStage = async function (m, stage) {
+      stages.push(stage)
+      finished()
+      throw new Error('still down')
+    }
+
+    const result = await retryMeeting(meeting, repository, { provider: 'ollama', model: 'qwen2.5' })
+    await done
+
+    assert.deepStrictEqual(result, { status: 'running', stage: 'department_speeches' })
+    assert.deepStrictEqual(stages, ['department_speeches'])
+    assert.deepStrictEqual(meeting.providerOverrides, { FINANCE: { provider: 'ollama', model: 'qwen2.5' } })
+    assert.deepStrictEqual(meeting.messages.map((m) => m.id.replace(/^msg-\d+-/, '')), ['brief', 'retry'])
+    assert.strictEqual(meeting.usage, 120)
+  })
+
+  it('should resume a cancelled meeting without rerunning its finished stages', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const meeting = createMeeting({
+      status: 'cancelled',
+      currentStage: 'department_speeches',
+      usage: 120,
+      messages: [statement('brief')],
+    })
+    const stages = []
+    let finished
+    const done = new Promise((resolve) => { finished = resolve })
+    FlowControl.prototype.executeStage = async function (m, stage) {
+      stages.push(stage)
+      finished()
+      throw new Error('still down')
+    }
+
+    const result = await retryMeeting(meeting, repository)
+    await done
+
+    assert.deepStrictEqual(result, { status: 'running', stage: 'department_speeches' })
+    assert.deepStrictEqual(stages, ['department_speeches'])
+    assert.strictEqual(meeting.usage, 120)
+  })
+
+  it('should refuse meetings that did not fail', async () => {
+    const repository = new InMemoryMeetingRepository()
+    await assert.rejects(retryMeeting(createMeeting({ status: 'completed' }), repository), MeetingControlError)
+    await assert.rejects(
+      retryMeeting(createMeeting({ status: 'failed', currentStage: 'prime_summary' }), repository, { provider: 'ollama' }),
+      /role is required/
+    )
+  })
+
+  it('should serve a role from its override provider', async () => {
+    const config = await getRoleProvider('finance', { provider: 'ollama', model: 'qwen2.5' })
+
+    assert.strictEqual(config.providerType, 'ollama')
+    assert.strictEqual(config.model, 'qwen2.5')
+    assert.strictEqual(config.source, 'override')
+  })
+})
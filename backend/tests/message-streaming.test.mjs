@@ -0,0 +1,94 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert'
+
+import { FlowControl } from '../src/services/orchestrator/flowControl.js'
+import { OllamaProvider } from '../src/services/llm/providers/ollama.js'
+
+function createProvider({ streaming = true, chunks = [], content = '' } = {}) {
+  return {
+    supportsStreaming: () => streaming,
+    async complete() {
+      return { content, model: 'test-model' }
+    },
+    async *streamComplete() {
+      for (const chunk of chunks) {
+        if (chunk instanceof Error) throw chunk
+        yield chunk
+      }
+    },
+  }
+}
+
+describe('FlowControl streaming', () => {
+  let events
+  const target = { meetingId: 'meeting-1', messageId: 'msg-1' }
+  const params = { messages: [{ role: 'user', content: 'hi' }], model: 'test-model' }
+
+  beforeEach(() => {
+    events = []
+    globalThis.broadcastToMeeting = (meetingId, event) => events.push({ meetingId, ...event })
+  })
+
+  afterEach(() => {
+    delete globalThis.broadcastToMeeting
+  })
+
+  it('should broadcast a delta per streamed chunk', async () => {
+    const provider = createProvider({
+      chunks: [
+        { content: '你好', done: false },
+        { content: '世界', done: false },
+        { content: '', done: true, usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 } },
+      ],
+    })
+
+    const response = await new FlowControl().streamCompletion(provider, params, 'critic', target)
+
+    assert.strictEqual(response.content, '你好世界')
+    assert.strictEqual(response.usage.totalTokens, 5)
+    assert.deepStrictEqual(events.map((e) => e.delta), ['你好', '世界'])
+    assert.ok(events.every((e) => e.type === 'MESSAGE_DELTA' && e.messageId === 'msg-1' && e.role === 'CRITIC'))
+  })
+
+  it('should degrade to a single delta when the provider cannot stream', async () => {
+    const provider = createProvider({ streaming: false, content: '完整回复' })
+
+    const response = await new FlowControl().streamCompletion(provider, params, 'prime', target)
+
+    assert.strictEqual(response.content, '完整回复')
+    assert.deepStrictEqual(events.map((e) => e.delta), ['完整回复'])
+  })
+
+  it('should stream from Ollama without listing its models', async () => {
+    let listed = 0
+    class StubOllamaProvider extends OllamaProvider {
+      async *streamComplete() {
+        yield { content: '流式', done: false }
+        yield { content: '', done: true }
+      }
+      async getModels() {
+        listed++
+        return []
+      }
+    }
+
+    const response = await new FlowControl().streamCompletion(new StubOllamaProvider(), params, 'finance', target)
+
+    assert.strictEqual(response.content, '流式')
+    assert.deepStrictEqual(events.map((e) => e.delta), ['流式'])
+    assert.strictEqual(listed, 0)
+  })
+
+  it('should discard the draft when a stream fails midway', async () => {
+    const provider = createProvider({
+      chunks: [{ content: '部分', done: false }, new Error('connection reset')],
+    })
+
+    await assert.rejects(
+      new FlowControl().streamCompletion(provider, params, 'works', target),
+      /connection reset/
+    )
+    assert.strictEqual(events.at(-1).type, 'MESSAGE_DONE')
+    assert.strictEqual(events.at(-1).discarded, true)
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cabinet-mock-'))
+const fixturesDir = path.join(tmpDir, 'fixtures')
+const ROLES = ['PRIME', 'BRAIN', 'CRITIC', 'FINANCE', 'WORKS', 'CLERK']
+
+let MockProvider
+let ProviderFactory
+let runMeeting
+let retryMeeting
+let InMemoryMeetingRepository
+
+before(async () => {
+  fs.mkdirSync(fixturesDir)
+  const defaults = JSON.parse(fs.readFileSync(new URL('../data/mock/default.json', import.meta.url), 'utf-8'))
+  fs.writeFileSync(path.join(fixturesDir, 'default.json'), JSON.stringify(defaults))
+  fs.writeFileSync(path.join(fixturesDir, 'transcript.json'), JSON.stringify({
+    replies: [{ role: 'FINANCE', content: '户部以为可行' }, { role: 'FINANCE', content: '户部补充' }],
+  }))
+  fs.writeFileSync(path.join(fixturesDir, 'flaky.json'), JSON.stringify({
+    ...defaults,
+    replies: [{ role: 'FINANCE', error: 'overloaded', status: 503, repeat: true }, ...defaults.replies],
+  }))
+
+  // Everything the meeting writes stays in the temp dir
+  process.env.MOCK_FIXTURES_DIR = fixturesDir
+  process.env.MEMORY_DIR = path.join(tmpDir, 'memory')
+  process.env.LLM_MAX_RETRIES = '0'
+
+  ;({ MockProvider } = await import('../src/services/llm/providers/mock.js'))
+  ;({ ProviderFactory } = await import('../src/services/llm/providerFactory.js'))
+  ;({ runMeeting, retryMeeting } = await import('../src/controllers/meetingsController.js'))
+  ;({ InMemoryMeetingRepository } = await import('../src/services/meetings/meetingRepository.js'))
+})
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+})
+
+const ask = (role, stage, content = '请发言') => ({
+  messages: [{ role: 'user', content }],
+  caller: { role, stage, stageKind: stage },
+})
+
+function createMeeting(model) {
+  return {
+    id: `${Date.now()}${Math.floor(Math.random() * 1000)}`,
+    topic: '是否扩建粮仓',
+    selectedRoleIds: ROLES.map((role) => role.toLowerCase()),
+    status: 'running',
+    budget: 50000,
+    usage: 0,
+    userAnswerTimeoutMs: 0,
+    createdAt: new Date().toISOString(),
+    messages: [],
+    artifacts: {},
+    providerOverrides: Object.fromEntries(ROLES.map((role) => [role, { provider: 'mock', model }])),
+  }
+}
+
+async function waitForStatus(meeting, statuses, timeoutMs = 30000) {
+  const startedAt = Date.now()
+  while (!statuses.includes(meeting.status)) {
+    if (Date.now() - startedAt > timeoutMs) throw new Error(`Meeting still ${meeting.status}`)
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  }
+}
+
+describe('MockProvider', () => {
+  it('should pick replies by role, stage and prompt, replaying one-off replies in order', async () => {
+    const provider = new MockProvider({
+      replies: [
+        { role: 'PRIME', includes: 'speakingOrder', content: 'plan', repeat: true },
+        { role: 'FINANCE', stage: 'department_speeches', content: '第一次' },
+        { role: 'FINANCE', stage: 'department_speeches', content: '第二次' },
+        { role: 'FINANCE', content: '其他阶段', repeat: true },
+      ],
+    }, { recordCalls: true })
+
+    assert.strictEqual((await provider.complete(ask('PRIME', 'issue_brief', '返回 speakingOrder'))).content, 'plan')
+    assert.strictEqual((await provider.complete(ask('FINANCE', 'department_speeches'))).content, '第一次')
+    assert.strictEqual((await provider.complete(ask('FINANCE', 'department_speeches'))).content, '第二次')
+    assert.strictEqual((await provider.complete(ask('FINANCE', 'department_speeches'))).content, '其他阶段')
+    await assert.rejects(provider.complete(ask('WORKS', 'department_speeches')), /no scripted reply for WORKS/)
+    assert.deepStrictEqual(provider.getCalls().map((call) => call.role), ['PRIME', 'FINANCE', 'FINANCE', 'FINANCE', 'WORKS'])
+  })
+
+  it('should replay one-off replies for every meeting served by the cached provider', async () => {
+    const inMeeting = (meetingId) => ({ ...ask('FINANCE', 'department_speeches'), caller: { role: 'FINANCE', meetingId } })
+    const provider = ProviderFactory.getProvider({ type: 'mock', model: 'transcript' })
+    assert.strictEqual(ProviderFactory.getProvider({ type: 'mock', model: 'transcript' }), provider)
+
+    assert.strictEqual((await provider.complete(inMeeting('m1'))).content, '户部以为可行')
+    assert.strictEqual((await provider.complete(inMeeting('m1'))).content, '户部补充')
+    assert.strictEqual((await provider.complete(inMeeting('m2'))).content, '户部以为可行')
+    await assert.rejects(provider.complete(inMeeting('m1')), /no scripted reply for FINANCE/)
+
+    ProviderFactory.releaseMeeting('m1')
+    assert.strictEqual((await provider.complete(inMeeting('m1'))).content, '户部以为可行')
+  })
+
+  it('should report usage, stream in chunks and inject failures', async () => {
+    const provider = new MockProvider({
+      replies: [
+        { role: 'CRITIC', error: 'rate limited', status: 429 },
+        { role: 'CRITIC', content: '御史以为此事尚需斟酌，请再议。', usage: { promptTokens: 30, completionTokens: 12 } },
+      ],
+    })
+
+    await assert.rejects(provider.complete(ask('CRITIC', 'department_speeches')), /Mock API error \(429\): rate limited/)
+
+    const chunks = []
+    for await (const chunk of provider.streamComplete(ask('CRITIC', 'department_speeches'))) chunks.push(chunk)
+    assert.strictEqual(chunks.map((chunk) => chunk.content).join(''), '御史以为此事尚需斟酌，请再议。')
+    assert.ok(chunks.length > 2)
+    assert.deepStrictEqual(chunks.at(-1).usage, { promptTokens: 30, completionTokens: 12, totalTokens: 42 })
+  })
+})
+
+describe('runMeeting with the mock provider', () => {
+  it('should run the standard flow end to end without a network', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const meeting = createMeeting('default')
+
+    await runMeeting(meeting, repository)
+
+    assert.strictEqual(meeting.status, 'completed', meeting.error)
+    assert.deepStrictEqual(meeting.artifacts.speakPlan.speakingOrder, ['FINANCE', 'WORKS', 'CRITIC'])
+    assert.strictEqual(meeting.artifacts.decisionMatrix.recommendedOptionId, 'A')
+    assert.strictEqual(meeting.artifacts.finalDecision.chosenOptionId, 'A')
+    assert.deepStrictEqual(meeting.artifacts.minutes.decisions, ['采纳分阶段推进方案'])
+    assert.ok(meeting.messages.some((m) => m.role === 'FINANCE' && m.content === '户部以为首期宜控制投入，先试点再追加。'))
+    assert.ok(meeting.usagePromptTokens > 0)
+    assert.strictEqual(meeting.usageCostUsd, 0)
+  })
+
+  it('should fail on an injected provider error and finish after a retry with another fixture set', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const meeting = createMeeting('flaky')
+
+    await runMeeting(meeting, repository)
+
+    assert.strictEqual(meeting.status, 'failed')
+    assert.deepStrictEqual(
+      { stage: meeting.failure.stage, role: meeting.failure.role, provider: meeting.failure.provider },
+      { stage: 'department_speeches', role: 'FINANCE', provider: 'mock' }
+    )
+
+    await retryMeeting(meeting, repository, { provider: 'mock', model: 'default' })
+    await waitForStatus(meeting, ['completed', 'failed'])
+
+    assert.strictEqual(meeting.status, 'completed', meeting.error)
+    assert.ok(meeting.artifacts.finalDecision)
+  })
+})
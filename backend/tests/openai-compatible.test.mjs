@@ -0,0 +1,167 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cabinet-endpoints-'))
+const fetch = globalThis.fetch
+const requests = []
+
+let endpointStore
+let providerFactory
+let resetPricingRegistry
+let getPricingRegistry
+
+before(async () => {
+  fs.mkdirSync(path.join(tmpDir, 'personas'))
+  fs.writeFileSync(path.join(tmpDir, 'personas', 'FINANCE.md'), `---
+type: persona
+role: FINANCE
+version: 1
+stance: 稳健
+personality: 谨慎
+expertise:
+  - 预算
+model_config:
+  provider: qwen
+  model: qwen-max
+  temperature: 0.3
+  max_tokens: 800
+  fallback:
+    - provider: lmstudio
+---
+
+# 户部
+`)
+  process.env.ENDPOINTS_FILE = path.join(tmpDir, 'endpoints.json')
+  process.env.PERSONAS_DIR = path.join(tmpDir, 'personas')
+  process.env.LLM_MAX_RETRIES = '0'
+  delete process.env.DEFAULT_MODEL
+
+  globalThis.fetch = async (url, init) => {
+    const body = JSON.parse(init.body)
+    requests.push({ url: String(url), headers: init.headers, body })
+    if (body.stream) {
+      const events = [
+        { choices: [{ delta: { content: '开源' }, finish_reason: null }] },
+        { choices: [{ delta: { content: '模型' }, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 7, completion_tokens: 2, total_tokens: 9 } },
+      ]
+      const sse = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n'
+      return new Response(sse)
+    }
+    return Response.json({
+      model: body.model,
+      choices: [{ message: { content: '本地回复' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    })
+  }
+
+  endpointStore = await import('../src/services/llm/endpointStore.js')
+  providerFactory = await import('../src/services/llm/providerFactory.js')
+  ;({ getPricingRegistry, resetPricingRegistry } = await import('../src/services/llm/pricing.js'))
+
+  await endpointStore.saveEndpoint('qwen', {
+    baseURL: 'https://dashscope.example.com/compatible-mode/v1/',
+    apiKey: 'sk-qwen-secret',
+    models: ['qwen-plus', { id: 'qwen-max', pricing: { inputPerMillion: 2, outputPerMillion: 6 } }],
+    headers: { 'X-Workspace': 'cabinet' },
+  })
+  await endpointStore.saveEndpoint('lmstudio', {
+    baseURL: 'http://localhost:1234/v1',
+    models: ['llama-3.1-8b-instruct'],
+  })
+})
+
+after(() => {
+  globalThis.fetch = fetch
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+})
+
+describe('endpoint registry', () => {
+  it('should validate names and keep stored keys out of the status', async () => {
+    assert.strictEqual(endpointStore.EndpointNameSchema.safeParse('moonshot').success, true)
+    assert.strictEqual(endpointStore.EndpointNameSchema.safeParse('glm').success, false)
+    assert.strictEqual(endpointStore.EndpointNameSchema.safeParse('Bad Name').success, false)
+
+    const [qwen] = endpointStore.getEndpointStatus()
+    assert.strictEqual(qwen.name, 'qwen')
+    assert.strictEqual(qwen.apiKey, undefined)
+    assert.strictEqual(qwen.masked, 'sk***et')
+    assert.deepStrictEqual(qwen.headers, { 'X-Workspace': 'ca***et' })
+  })
+
+  it('should keep the stored key when an update omits it', async () => {
+    await endpointStore.saveEndpoint('qwen', { ...endpointStore.getEndpoint('qwen'), apiKey: undefined })
+    assert.strictEqual(endpointStore.getEndpoint('qwen').apiKey, 'sk-qwen-secret')
+
+    const saved = JSON.parse(fs.readFileSync(process.env.ENDPOINTS_FILE, 'utf-8'))
+    assert.deepStrictEqual(Object.keys(saved), ['qwen', 'lmstudio'])
+  })
+
+  it('should accept endpoint names wherever a provider is named', () => {
+    assert.strictEqual(providerFactory.isKnownProvider('lmstudio'), true)
+    assert.strictEqual(providerFactory.isKnownProvider('moonshot'), false)
+    assert.strictEqual(providerFactory.KnownProviderSchema.safeParse('qwen').success, true)
+    assert.strictEqual(providerFactory.KnownProviderSchema.safeParse('moonshot').success, false)
+    assert.strictEqual(providerFactory.isProviderConfigured('lmstudio'), true)
+  })
+})
+
+describe('OpenAICompatibleProvider', () => {
+  it('should call the endpoint with its headers, key and default model', async () => {
+    const provider = providerFactory.ProviderFactory.createProvider('qwen', providerFactory.resolveProviderCredentials('qwen'))
+    requests.length = 0
+
+    const response = await provider.complete({ messages: [{ role: 'user', content: '你好' }] })
+
+    assert.strictEqual(requests[0].url, 'https://dashscope.example.com/compatible-mode/v1/chat/completions')
+    assert.strictEqual(requests[0].headers.Authorization, 'Bearer sk-qwen-secret')
+    assert.strictEqual(requests[0].headers['X-Workspace'], 'cabinet')
+    assert.strictEqual(requests[0].body.model, 'qwen-plus')
+    assert.deepStrictEqual(response, {
+      content: '本地回复',
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      model: 'qwen-plus',
+    })
+  })
+
+  it('should stream without a key and pick up usage from the final chunk', async () => {
+    const provider = providerFactory.ProviderFactory.createProvider('lmstudio', providerFactory.resolveProviderCredentials('lmstudio'))
+    requests.length = 0
+
+    const chunks = []
+    for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: '你好' }] })) {
+      chunks.push(chunk)
+    }
+
+    assert.strictEqual(requests[0].headers.Authorization, undefined)
+    assert.strictEqual(chunks.map((chunk) => chunk.content).join(''), '开源模型')
+    assert.deepStrictEqual(chunks.find((chunk) => chunk.usage).usage, { promptTokens: 7, completionTokens: 2, totalTokens: 9 })
+  })
+
+  it('should keep sending DeepSeek requests to the /v1 path of its base URL', async () => {
+    const provider = providerFactory.ProviderFactory.createProvider('deepseek', { apiKey: 'sk-deepseek', baseURL: 'https://proxy.example.com/' })
+    requests.length = 0
+
+    await provider.complete({ messages: [{ role: 'user', content: '你好' }] })
+
+    assert.strictEqual(requests[0].url, 'https://proxy.example.com/v1/chat/completions')
+    assert.strictEqual(requests[0].body.model, 'deepseek-chat')
+  })
+
+  it('should price endpoint models by their declared prices', () => {
+    resetPricingRegistry()
+    assert.deepStrictEqual(getPricingRegistry().get('qwen', 'qwen-max'), { inputPerMillion: 2, outputPerMillion: 6 })
+    assert.strictEqual(getPricingRegistry().get('lmstudio', 'llama-3.1-8b-instruct'), undefined)
+  })
+
+  it('should resolve a persona that names endpoints', async () => {
+    const config = await providerFactory.getRoleProvider('finance')
+
+    assert.strictEqual(config.providerType, 'qwen')
+    assert.strictEqual(config.model, 'qwen-max')
+    assert.deepStrictEqual(config.fallbacks.map((link) => [link.providerType, link.model]), [['lmstudio', 'llama-3.1-8b-instruct']])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { PricingRegistry, getPricingRegistry } from '../src/services/llm/pricing.js'
+import { MeetingStage, canSkipStage, shouldSkipToDecision } from '../src/services/orchestrator/stages.js'
+
+describe('PricingRegistry', () => {
+  const registry = new PricingRegistry([
+    { id: 'gpt-4o', name: 'GPT-4o', provider: 'openai', contextLength: 128000, supportsStreaming: true, pricing: { inputPerMillion: 2.5, outputPerMillion: 10 } },
+    { id: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openai', contextLength: 128000, supportsStreaming: true, pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 } },
+  ])
+
+  it('should price prompt and completion tokens separately', () => {
+    const cost = registry.estimateCost('openai', 'gpt-4o', { promptTokens: 1_000_000, completionTokens: 100_000 })
+    assert.strictEqual(cost, 3.5)
+  })
+
+  it('should match dated model ids to the longest registered prefix', () => {
+    assert.strictEqual(registry.get('openai', 'gpt-4o-mini-2024-07-18').inputPerMillion, 0.15)
+    assert.strictEqual(registry.get('openai', 'gpt-4o-2024-08-06').inputPerMillion, 2.5)
+  })
+
+  it('should treat local and unknown models as free', () => {
+    assert.strictEqual(registry.estimateCost('ollama', 'llama3.1', { promptTokens: 5000, completionTokens: 5000 }), 0)
+    assert.strictEqual(registry.estimateCost('openai', 'o1-preview', { promptTokens: 5000, completionTokens: 5000 }), 0)
+  })
+
+  it('should load prices from the provider model tables', () => {
+    const models = getPricingRegistry().list().map((entry) => `${entry.provider}/${entry.model}`)
+    assert.ok(models.includes('openai/gpt-4o'))
+    assert.ok(models.includes('deepseek/deepseek-chat'))
+  })
+})
+
+describe('Budget checks', () => {
+  it('should degrade on whichever budget runs out first', () => {
+    const cheap = { usage: 1000, budget: 50000, costUsd: 0.95, maxCostUsd: 1 }
+    assert.strictEqual(canSkipStage(MeetingStage.BRAIN_INTERVENTION, cheap), true)
+    assert.strictEqual(shouldSkipToDecision(cheap), false)
+    assert.strictEqual(shouldSkipToDecision({ ...cheap, costUsd: 1.2 }), true)
+  })
+
+  it('should ignore cost when no currency budget is set', () => {
+    const state = { usage: 1000, budget: 50000, costUsd: 99 }
+    assert.strictEqual(canSkipStage(MeetingStage.BRAIN_INTERVENTION, state), false)
+    assert.strictEqual(shouldSkipToDecision(state), false)
+  })
+})
@@ -0,0 +1,258 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  ProviderTimeoutError,
+  ResilientProvider,
+  isRetryableError,
+} from '../src/services/llm/resilience.js'
+
+const policy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1, timeoutMs: 50, failureThreshold: 3, cooldownMs: 1000 }
+
+function createProvider(attempts) {
+  const calls = []
+  const provider = {
+    name: 'Fake',
+    type: 'glm',
+    async complete(params) {
+      calls.push(params)
+      const next = attempts.shift()
+      if (next instanceof Error) throw next
+      return next === 'hang' ? new Promise(() => {}) : { content: next, model: 'fake' }
+    },
+    async *streamComplete(params) {
+      calls.push(params)
+      const next = attempts.shift()
+      if (next instanceof Error) throw next
+      for (const content of next) {
+        if (content instanceof Error) throw content
+        yield { content, done: false }
+      }
+    },
+    supportsStreaming: () => true,
+    estimateTokens: () => 0,
+    getModels: () => [],
+    isConfigured: () => true,
+  }
+  return { provider, calls }
+}
+
+async function collect(stream) {
+  let content = ''
+  for await (const chunk of stream) content += chunk.content
+  return content
+}
+
+describe('isRetryableError', () => {
+  it('should retry rate limits, server errors and network failures only', () => {
+    assert.strictEqual(isRetryableError(new Error('GLM API error: GLM API error (429): busy')), true)
+    assert.strictEqual(isRetryableError(new Error('OpenAI API error: 503 Service Unavailable')), true)
+    assert.strictEqual(isRetryableError(new Error('DeepSeek API error: fetch failed')), true)
+    assert.strictEqual(isRetryableError(new ProviderTimeoutError('glm', 50)), true)
+    assert.strictEqual(isRetryableError(new Error('GLM API error: GLM API error (400): bad request')), false)
+    assert.strictEqual(isRetryableError(new CircuitOpenError('glm', 1000)), false)
+  })
+})
+
+describe('ResilientProvider', () => {
+  it('should back off and retry transient errors', async () => {
+    const { provider, calls } = createProvider([new Error('GLM API error (503): down'), 'ok'])
+    const resilient = new ResilientProvider(provider, new CircuitBreaker(3, 1000), policy)
+
+    const response = await resilient.complete({ messages: [] })
+
+    assert.strictEqual(response.content, 'ok')
+    assert.strictEqual(calls.length, 2)
+  })
+
+  it('should not retry client errors', async () => {
+    const { provider, calls } = createProvider([new Error('GLM API error (401): bad key'), 'ok'])
+    const resilient = new ResilientProvider(provider, new CircuitBreaker(3, 1000), policy)
+
+    await assert.rejects(resilient.complete({ messages: [] }), /401/)
+    assert.strictEqual(calls.length, 1)
+  })
+
+  it('should time out an attempt and abort its request', async () => {
+    const { provider, calls } = createProvider(['hang'])
+    const resilient = new ResilientProvider(provider, new CircuitBreaker(3, 1000), { ...policy, maxRetries: 0 })
+
+    await assert.rejects(resilient.complete({ messages: [] }), ProviderTimeoutError)
+    assert.strictEqual(calls[0].signal.aborted, true)
+  })
+
+  it('should name a user endpoint in its timeout and circuit errors', async () => {
+    const { provider } = createProvider(['hang'])
+    provider.type = 'openai-compatible'
+    const breaker = new CircuitBreaker(1, 1000)
+    const resilient = new ResilientProvider(provider, breaker, { ...policy, maxRetries: 0 }, 'siliconflow')
+
+    await assert.rejects(resilient.complete({ messages: [] }), (error) =>
+      error instanceof ProviderTimeoutError && error.provider === 'siliconflow'
+    )
+    await assert.rejects(resilient.complete({ messages: [] }), (error) =>
+      error instanceof CircuitOpenError && error.provider === 'siliconflow'
+    )
+  })
+
+  it('should retry a stream only before its first chunk', async () => {
+    const { provider, calls } = createProvider([new Error('fetch failed'), ['你', '好']])
+    const resilient = new ResilientProvider(provider, new CircuitBreaker(3, 1000), policy)
+    assert.strictEqual(await collect(resilient.streamComplete({ messages: [] })), '你好')
+    assert.strictEqual(calls.length, 2)
+
+    const broken = createProvider([['你', new Error('fetch failed')], ['不应重试']])
+    const partial = new ResilientProvider(broken.provider, new CircuitBreaker(3, 1000), policy)
+    await assert.rejects(collect(partial.streamComplete({ messages: [] })), /fetch failed/)
+    assert.strictEqual(broken.calls.length, 1)
+  })
+
+  it('should fail fast while the circuit is open and probe after the cooldown', async () => {
+    let now = 0
+    const breaker = new CircuitBreaker(3, 1000, () => now)
+    const { provider, calls } = createProvider([
+      new Error('(500)'), new Error('(500)'), new Error('(500)'),
+      new Error('(500)'),
+      'recovered',
+    ])
+    const resilient = new ResilientProvider(provider, breaker, { ...policy, maxRetries: 0 })
+
+    for (let i = 0; i < 3; i += 1) {
+      await assert.rejects(resilient.complete({ messages: [] }), /500/)
+    }
+    assert.strictEqual(breaker.state, 'open')
+    await assert.rejects(resilient.complete({ messages: [] }), CircuitOpenError)
+    assert.strictEqual(calls.length, 3)
+
+    now = 1000
+    await assert.rejects(resilient.complete({ messages: [] }), /500/)
+    assert.strictEqual(breaker.state, 'open')
+
+    now = 2000
+    assert.strictEqual((await resilient.complete({ messages: [] })).content, 'recovered')
+    assert.strictEqual(breaker.state, 'closed')
+  })
+
+  it('should free the probe when the caller gives up on it', async () => {
+    let now = 0
+    const breaker = new CircuitBreaker(1, 1000, () => now)
+    const { provider, calls } = createProvider([new Error('(500)'), 'hang', ['你', '好'], 'recovered'])
+    const resilient = new ResilientProvider(provider, breaker, { ...policy, maxRetries: 0 })
+    await assert.rejects(resilient.complete({ messages: [] }), /500/)
+    now = 1000
+
+    // The meeting is cancelled while the probe is out
+    const cancelled = new AbortController()
+    cancelled.abort()
+    await assert.rejects(resilient.complete({ messages: [], signal: cancelled.signal }))
+    assert.strictEqual(breaker.state, 'half_open')
+
+    // The consumer stops reading the probe stream early
+    for await (const chunk of resilient.streamComplete({ messages: [] })) {
+      assert.strictEqual(chunk.content, '你')
+      break
+    }
+    assert.strictEqual(breaker.state, 'half_open')
+
+    assert.strictEqual((await resilient.complete({ messages: [] })).content, 'recovered')
+    assert.strictEqual(breaker.state, 'closed')
+    assert.strictEqual(calls.length, 4)
+  })
+})
+
+describe('role fallback chain', () => {
+  const personasDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cabinet-personas-'))
+  const fetch = globalThis.fetch
+  const requested = []
+  let getRoleProvider
+  let FlowControl
+  let MeetingStage
+
+  before(async () => {
+    fs.writeFileSync(path.join(personasDir, 'PRIME.md'), `---
+type: persona
+role: PRIME
+version: 1
+stance: 务实
+personality: 果断
+expertise:
+  - 统筹
+model_config:
+  provider: anthropic
+  model: claude-3-5-sonnet-20241022
+  temperature: 0.5
+  max_tokens: 1500
+  fallback:
+    - provider: glm
+    - provider: deepseek
+      model: deepseek-chat
+---
+
+# 首辅
+`)
+    process.env.PERSONAS_DIR = personasDir
+    process.env.GLM_API_KEY = 'test-glm-key'
+    process.env.DEEPSEEK_API_KEY = 'test-deepseek-key'
+    process.env.LLM_MAX_RETRIES = '0'
+    delete process.env.ANTHROPIC_API_KEY
+    delete process.env.DEFAULT_MODEL
+
+    globalThis.fetch = async (url) => {
+      requested.push(String(url))
+      if (String(url).includes('bigmodel')) {
+        return new Response('overloaded', { status: 503 })
+      }
+      return Response.json({
+        model: 'deepseek-chat',
+        choices: [{ message: { content: JSON.stringify({ background: '仓库容量不足', keyConsiderations: ['资金'] }) } }],
+        usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+      })
+    }
+
+    ;({ getRoleProvider } = await import('../src/services/llm/providerFactory.js'))
+    ;({ FlowControl } = await import('../src/services/orchestrator/flowControl.js'))
+    ;({ MeetingStage } = await import('../src/services/orchestrator/stages.js'))
+  })
+
+  after(() => {
+    globalThis.fetch = fetch
+    fs.rmSync(personasDir, { recursive: true, force: true })
+  })
+
+  it('should skip unconfigured providers and keep the rest as fallbacks', async () => {
+    const config = await getRoleProvider('prime')
+
+    assert.strictEqual(config.source, 'persona')
+    assert.strictEqual(config.providerType, 'glm')
+    assert.strictEqual(config.temperature, 0.5)
+    assert.deepStrictEqual(config.fallbacks.map((link) => [link.providerType, link.model]), [['deepseek', 'deepseek-chat']])
+  })
+
+  it('should fall back to the next provider and note it in the meeting', async () => {
+    const flow = new FlowControl()
+    flow.retriever = { buildContextPackage: async () => ({ content: '', tokens: 0 }) }
+    const meeting = {
+      id: 'm-fallback',
+      topic: '扩建仓库',
+      selectedRoleIds: ['prime', 'finance'],
+      budget: 50000,
+      usage: 0,
+      userAnswerTimeoutMs: 0,
+      messages: [],
+      artifacts: { speakPlan: { speakingOrder: ['FINANCE'], rationale: '', setBy: 'USER' } },
+    }
+
+    const result = await flow.executeStage(meeting, MeetingStage.ISSUE_BRIEF)
+
+    assert.deepStrictEqual(requested.map((url) => (url.includes('bigmodel') ? 'glm' : 'deepseek')), ['glm', 'deepseek'])
+    const notice = result.messages.find((m) => m.metadata?.fallback)
+    assert.strictEqual(notice.content, 'PRIME 的 glm（glm-4）调用失败，改用 deepseek（deepseek-chat）。')
+    assert.strictEqual(meeting.artifacts.issueBrief.background, '仓库容量不足')
+    assert.strictEqual(meeting.roleUsage.PRIME.promptTokens, 20)
+  })
+})
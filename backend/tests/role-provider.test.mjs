@@ -0,0 +1,36 @@
+import { describe, it, before } from 'node:test'
+import assert from 'node:assert'
+
+describe('getRoleProvider', () => {
+  let getRoleProvider
+  let resolveSamplingParams
+
+  before(async () => {
+    process.env.GLM_API_KEY = 'test-glm-key'
+    delete process.env.ANTHROPIC_API_KEY
+    delete process.env.DEFAULT_PROVIDER
+    delete process.env.DEFAULT_MODEL
+    ;({ getRoleProvider, resolveSamplingParams } = await import('../src/services/llm/providerFactory.js'))
+  })
+
+  it('should use the persona model_config when its provider is configured', async () => {
+    const config = await getRoleProvider('PRIME')
+    assert.strictEqual(config.source, 'persona')
+    assert.strictEqual(config.providerType, 'glm')
+    assert.strictEqual(config.model, 'glm-4')
+  })
+
+  it('should fall back to the env default when the persona provider is not configured', async () => {
+    // CLERK is configured for anthropic, which has no key here
+    const config = await getRoleProvider('clerk')
+    assert.strictEqual(config.source, 'default')
+    assert.strictEqual(config.providerType, 'glm')
+  })
+
+  it('should let persona settings cap stage sampling hints', async () => {
+    const config = await getRoleProvider('prime')
+    const sampling = resolveSamplingParams(config, 0.2, 5000)
+    assert.strictEqual(sampling.temperature, config.temperature)
+    assert.strictEqual(sampling.maxTokens, config.maxTokens)
+  })
+})
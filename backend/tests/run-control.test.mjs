@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import {
+  getMeetingRunRegistry,
+  MeetingCancelledError,
+  MeetingControlError,
+} from '../src/services/meetings/runControl.js'
+import { InMemoryMeetingRepository } from '../src/services/meetings/meetingRepository.js'
+import { pauseMeeting, resumeMeeting, cancelMeeting } from '../src/controllers/meetingsController.js'
+
+function createMeeting(overrides = {}) {
+  return {
+    id: `${Date.now()}${Math.floor(Math.random() * 1000)}`,
+    topic: 'Test topic',
+    status: 'running',
+    budget: 50000,
+    usage: 0,
+    createdAt: new Date().toISOString(),
+    messages: [],
+    artifacts: {},
+    ...overrides,
+  }
+}
+
+describe('meeting run control', () => {
+  it('should abort the signal and reject further work on cancel', () => {
+    const control = getMeetingRunRegistry().start('meeting-cancel')
+    control.cancel()
+
+    assert.strictEqual(control.signal.aborted, true)
+    assert.throws(() => control.throwIfCancelled(), MeetingCancelledError)
+    getMeetingRunRegistry().end('meeting-cancel', control)
+    assert.strictEqual(getMeetingRunRegistry().get('meeting-cancel'), undefined)
+  })
+
+  it('should request a pause on the active run', async () => {
+    const meeting = createMeeting()
+    const control = getMeetingRunRegistry().start(meeting.id)
+
+    const result = await pauseMeeting(meeting)
+
+    assert.strictEqual(result.status, 'pausing')
+    assert.strictEqual(control.isPauseRequested, true)
+    getMeetingRunRegistry().end(meeting.id, control)
+  })
+
+  it('should refuse to pause a meeting that is not running', async () => {
+    await assert.rejects(pauseMeeting(createMeeting({ status: 'completed' })), MeetingControlError)
+  })
+
+  it('should cancel a paused meeting directly', async () => {
+    const repository = new InMemoryMeetingRepository()
+    const meeting = createMeeting({ status: 'paused', currentStage: 'prime_summary' })
+
+    const result = await cancelMeeting(meeting, repository)
+
+    assert.strictEqual(result.status, 'cancelled')
+    assert.strictEqual(repository.get(meeting.id)?.status, 'cancelled')
+    assert.ok(meeting.cancelledAt)
+  })
+
+  it('should only resume paused meetings', async () => {
+    const repository = new InMemoryMeetingRepository()
+    await assert.rejects(resumeMeeting(createMeeting(), repository), /not paused/)
+  })
+})
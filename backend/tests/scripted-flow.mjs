@@ -0,0 +1,34 @@
+import { FlowControl } from '../src/services/orchestrator/flowControl.js'
+
+/**
+ * FlowControl whose role completions are scripted instead of calling a provider
+ * `replies` is one reply for every call, a list taken in order, a list per
+ * role, or a function of (role, messages). Every call is recorded in `calls`.
+ */
+export function createScriptedFlow(replies, {
+  usage = { totalTokens: 10 },
+  metered = { promptTokens: 6, completionTokens: 4, costUsd: 0 },
+} = {}) {
+  const flow = new FlowControl()
+  // Keep memory lookups (and the context files they write) out of the test
+  flow.retriever = { buildContextPackage: async () => ({ content: '', tokens: 0 }) }
+
+  const calls = []
+  flow.completeForRole = async (role, messages) => {
+    calls.push({ role, messages, prompt: messages.at(-1).content })
+    return {
+      content: nextReply(replies, role, messages),
+      usage,
+      servedBy: { provider: 'test', model: 'test-model' },
+      metered,
+    }
+  }
+  return { flow, calls }
+}
+
+function nextReply(replies, role, messages) {
+  if (typeof replies === 'function') return replies(role, messages)
+  if (Array.isArray(replies)) return replies.shift()
+  if (typeof replies === 'object') return replies[role].shift()
+  return replies
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { orderBySpeakPlan, SpeakPlanSchema } from '../src/services/orchestrator/speakPlan.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+import { MeetingStage } from '../src/services/orchestrator/stages.js'
+
+describe('orderBySpeakPlan', () => {
+  it('should put planned roles first and keep the rest in order', () => {
+    const order = orderBySpeakPlan(['CRITIC', 'FINANCE', 'WORKS'], { speakingOrder: ['works', 'HISTORY'] })
+    assert.deepStrictEqual(order, ['WORKS', 'CRITIC', 'FINANCE'])
+  })
+
+  it('should upper-case roles in a user plan', () => {
+    const parsed = SpeakPlanSchema.safeParse({ speakingOrder: ['finance', ' critic '] })
+    assert.deepStrictEqual(parsed.data.speakingOrder, ['FINANCE', 'CRITIC'])
+    assert.strictEqual(SpeakPlanSchema.safeParse({ speakingOrder: [] }).success, false)
+  })
+})
+
+describe('FlowControl speak plan', () => {
+  const createMeeting = (artifacts = {}) => ({
+    id: 'm1',
+    topic: '扩建仓库',
+    selectedRoleIds: ['prime', 'brain', 'critic', 'finance', 'works'],
+    budget: 50000,
+    usage: 0,
+    userAnswerTimeoutMs: 0,
+    messages: [],
+    artifacts,
+  })
+  const brief = JSON.stringify({ background: '仓库容量不足', keyConsiderations: ['资金'] })
+
+  it('should have PRIME plan the order after the brief', async () => {
+    const { flow, calls } = createScriptedFlow([
+      brief,
+      JSON.stringify({ speakingOrder: ['FINANCE', 'WORKS'], rationale: '先明确资金' }),
+    ])
+    const meeting = createMeeting()
+
+    const result = await flow.executeStage(meeting, MeetingStage.ISSUE_BRIEF)
+
+    assert.match(calls[1].prompt, /CRITIC/)
+    assert.deepStrictEqual(meeting.artifacts.speakPlan.speakingOrder, ['FINANCE', 'WORKS', 'CRITIC'])
+    assert.strictEqual(meeting.artifacts.speakPlan.setBy, 'PRIME')
+    assert.strictEqual(result.messages.at(-1).content, '发言顺序：FINANCE → WORKS → CRITIC')
+    assert.deepStrictEqual(flow.getSpeakingOrder(meeting, ['CRITIC', 'FINANCE', 'WORKS']), ['FINANCE', 'WORKS', 'CRITIC'])
+  })
+
+  it('should keep a plan the user set before the run', async () => {
+    const { flow, calls } = createScriptedFlow([brief])
+    const plan = { speakingOrder: ['WORKS', 'CRITIC', 'FINANCE'], rationale: '由会议发起人指定', setBy: 'USER' }
+    const meeting = createMeeting({ speakPlan: plan })
+
+    await flow.executeStage(meeting, MeetingStage.ISSUE_BRIEF)
+
+    assert.strictEqual(calls.length, 1)
+    assert.strictEqual(meeting.artifacts.speakPlan, plan)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import {
+  DEFAULT_SPEECH_POLICY,
+  SpeechPolicySchema,
+  resolveSpeechLimits,
+  truncateAtBoundary,
+} from '../src/services/orchestrator/speechPolicy.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+
+describe('Speech policy', () => {
+  it('should resolve role overrides before meeting limits and defaults', () => {
+    const policy = SpeechPolicySchema.parse({ displayChars: 80, roles: { prime: { displayChars: 200 } } })
+
+    assert.deepStrictEqual(resolveSpeechLimits(policy, 'prime'), { displayChars: 200, artifactChars: DEFAULT_SPEECH_POLICY.artifactChars })
+    assert.deepStrictEqual(resolveSpeechLimits(policy, 'CRITIC'), { displayChars: 80, artifactChars: DEFAULT_SPEECH_POLICY.artifactChars })
+    assert.deepStrictEqual(resolveSpeechLimits(undefined, 'CRITIC'), DEFAULT_SPEECH_POLICY)
+  })
+
+  it('should reject unknown fields and out-of-range limits', () => {
+    assert.strictEqual(SpeechPolicySchema.safeParse({ displayChars: 0 }).success, false)
+    assert.strictEqual(SpeechPolicySchema.safeParse({ maxChars: 50 }).success, false)
+  })
+
+  it('should cut at a sentence boundary with an ellipsis', () => {
+    assert.strictEqual(truncateAtBoundary('预算可控，工期合理。但需要增加人手才能按时交付', 14), '预算可控，工期合理。…')
+    assert.strictEqual(truncateAtBoundary('短句', 12), '短句')
+  })
+})
+
+describe('FlowControl speech fitting', () => {
+  const meeting = { id: 'm1', speechPolicy: { displayChars: 10 } }
+  const original = '这个方案风险很高，我们需要先做小范围试点再决定是否推广'
+
+  it('should condense over-limit speech and keep the original', async () => {
+    const { flow } = createScriptedFlow('先试点再推广', { usage: { totalTokens: 7 } })
+
+    const speech = await flow.fitSpeech(meeting, 'CRITIC', original)
+
+    assert.strictEqual(speech.content, '先试点再推广')
+    assert.strictEqual(speech.metadata.originalContent, original)
+    assert.strictEqual(speech.tokens, 7)
+  })
+
+  it('should leave short speech untouched without calling the model', async () => {
+    const { flow } = createScriptedFlow(() => assert.fail('should not condense'))
+
+    const speech = await flow.fitSpeech(meeting, 'CRITIC', ' 同意 试点 ')
+
+    assert.strictEqual(speech.content, '同意 试点')
+    assert.deepStrictEqual(speech.metadata, {})
+  })
+
+  it('should fall back to a boundary cut when condensing fails', async () => {
+    const { flow } = createScriptedFlow(() => {
+      throw new Error('provider down')
+    })
+
+    const speech = await flow.fitSpeech(meeting, 'CRITIC', original)
+
+    assert.strictEqual(speech.content, '这个方案风险很高，…')
+    assert.strictEqual(speech.metadata.condensed, true)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { parseStructured, extractJson } from '../src/services/orchestrator/structuredOutput.js'
+import {
+  FinalDecisionOutputSchema,
+  BrainAnalysisOutputSchema,
+} from '../src/services/orchestrator/artifactSchemas.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+
+describe('parseStructured', () => {
+  it('should extract JSON from a fenced block', () => {
+    const content = '分析如下：\n```json\n{"decision":"批准","reasoning":"风险可控","nextSteps":["立项"]}\n```'
+    const result = parseStructured(content, FinalDecisionOutputSchema)
+
+    assert.strictEqual(result.success, true)
+    assert.deepStrictEqual(result.data.nextSteps, ['立项'])
+  })
+
+  it('should repair trailing commas and full-width punctuation', () => {
+    const content = '{"decision"："批准"，"reasoning":"风险可控","nextSteps":["立项",],}'
+    const result = parseStructured(content, FinalDecisionOutputSchema)
+
+    assert.strictEqual(result.success, true)
+    assert.strictEqual(result.data.decision, '批准')
+  })
+
+  it('should report schema violations with field paths', () => {
+    const result = parseStructured('{"decision":"批准","reasoning":"","nextSteps":[]}', FinalDecisionOutputSchema)
+
+    assert.strictEqual(result.success, false)
+    assert.match(result.error, /reasoning/)
+    assert.match(result.error, /nextSteps/)
+  })
+
+  it('should fail when the reply has no JSON', () => {
+    assert.strictEqual(extractJson('没有结构化内容'), null)
+    assert.strictEqual(parseStructured('没有结构化内容', BrainAnalysisOutputSchema).success, false)
+  })
+})
+
+describe('FlowControl structured completions', () => {
+  function withReplies(replies) {
+    return createScriptedFlow(replies, { metered: { promptTokens: 6, completionTokens: 4, costUsd: 0.001 } })
+  }
+
+  const messages = [{ role: 'user', content: '请做出决定' }]
+
+  it('should ask the model to repair invalid output', async () => {
+    const { flow, calls } = withReplies([
+      '决定：批准',
+      '{"decision":"批准","reasoning":"风险可控","nextSteps":["立项"]}',
+    ])
+
+    const result = await flow.completeStructured('prime', messages, FinalDecisionOutputSchema, 0.4, 1000, { meetingId: 'm1' })
+
+    assert.strictEqual(result.data.decision, '批准')
+    assert.strictEqual(result.tokens, 20)
+    assert.deepStrictEqual(result.metered, { promptTokens: 12, completionTokens: 8, costUsd: 0.002 })
+    assert.strictEqual(calls.length, 2)
+    assert.strictEqual(calls[1].messages.at(-2).content, '决定：批准')
+    assert.match(calls[1].prompt, /JSON/)
+  })
+
+  it('should return null data after exhausting repairs', async () => {
+    const { flow, calls } = withReplies(['无效', '仍然无效', '还是无效'])
+
+    const result = await flow.completeStructured('prime', messages, FinalDecisionOutputSchema, 0.4, 1000, { meetingId: 'm1' })
+
+    assert.strictEqual(result.data, null)
+    assert.strictEqual(result.content, '还是无效')
+    assert.strictEqual(calls.length, 3)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import {
+  MIN_OUTPUT_TOKENS,
+  getRoleOutputLimit,
+  getStageOutputLimit,
+  capOutputTokens,
+} from '../src/services/orchestrator/tokenAllowance.js'
+import { MeetingStage } from '../src/services/orchestrator/stages.js'
+import { FlowControl } from '../src/services/orchestrator/flowControl.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+
+const usage = (completionTokens) => ({ promptTokens: 100, completionTokens, costUsd: 0.01 })
+
+describe('Token allowances', () => {
+  const meeting = { id: 'm1', budgetPerRoleMaxOutputTokens: 500, budgetPrimeMaxOutputTokens: 800 }
+
+  it('should give PRIME its own allowance', () => {
+    assert.strictEqual(getRoleOutputLimit(meeting, 'prime'), 800)
+    assert.strictEqual(getRoleOutputLimit(meeting, 'CRITIC'), 500)
+    assert.strictEqual(getRoleOutputLimit({ id: 'm2' }, 'CRITIC'), Infinity)
+  })
+
+  it('should let a flow step override the stage limit', () => {
+    assert.strictEqual(getStageOutputLimit({ id: 'a', kind: MeetingStage.DEPARTMENT_SPEECHES }), 4000)
+    assert.strictEqual(getStageOutputLimit({ id: 'b', kind: MeetingStage.DEPARTMENT_SPEECHES, maxTokens: 900 }), 900)
+  })
+
+  it('should cap max tokens without going below the minimum', () => {
+    assert.strictEqual(capOutputTokens(800, 300), 300)
+    assert.strictEqual(capOutputTokens(800, 10), MIN_OUTPUT_TOKENS)
+    assert.strictEqual(capOutputTokens(800, Infinity), 800)
+  })
+})
+
+describe('FlowControl role spend', () => {
+  it('should report spend per role after a stage', () => {
+    const flow = new FlowControl()
+    const meeting = { id: 'm1', roleUsage: { CRITIC: { promptTokens: 50, completionTokens: 20, costUsd: 0.005, calls: 1 } } }
+
+    flow.recordSpend('m1', 'critic', usage(120))
+    flow.recordSpend('m1', 'prime', usage(80))
+    flow.applySpend(meeting)
+
+    assert.deepStrictEqual(meeting.roleUsage.CRITIC, { promptTokens: 150, completionTokens: 140, costUsd: 0.015, calls: 2 })
+    assert.strictEqual(meeting.roleUsage.PRIME.calls, 1)
+    assert.strictEqual(meeting.usageCompletionTokens, 200)
+  })
+
+  it('should exhaust a role that spent its meeting allowance', () => {
+    const flow = new FlowControl()
+    const meeting = {
+      id: 'm1',
+      budgetPerRoleMaxOutputTokens: 500,
+      roleUsage: { CRITIC: { promptTokens: 0, completionTokens: 400, costUsd: 0, calls: 2 } },
+    }
+
+    assert.strictEqual(flow.getRemainingOutput(meeting, 'critic'), 100)
+    flow.recordSpend('m1', 'critic', usage(60))
+    assert.strictEqual(flow.hasOutputAllowance(meeting, 'CRITIC'), false)
+    assert.strictEqual(flow.hasOutputAllowance(meeting, 'FINANCE'), true)
+  })
+
+  it('should share the stage allowance between roles', () => {
+    const flow = new FlowControl()
+    const meeting = { id: 'm1' }
+    flow.activeSteps.set('m1', { meeting, step: { id: 'rebuttal', kind: MeetingStage.FOLLOW_UP_DISCUSSION, maxTokens: 300 } })
+
+    flow.recordSpend('m1', 'critic', usage(250))
+
+    assert.strictEqual(flow.getRemainingOutput(meeting, 'FINANCE'), 50)
+    assert.strictEqual(flow.hasOutputAllowance(meeting, 'FINANCE'), false)
+  })
+  it('should split the stage allowance between blind speeches', async () => {
+    const { flow } = createScriptedFlow('户部以为可行')
+    const scripted = flow.completeForRole
+    const caps = []
+    flow.completeForRole = (role, messages, temperature, maxTokens) => {
+      caps.push(maxTokens)
+      return scripted(role, messages)
+    }
+    const meeting = { id: 'm1', topic: '扩建仓库', blindMode: true, selectedRoleIds: ['critic', 'finance', 'works'], messages: [], artifacts: {} }
+    const step = { id: 'speeches', kind: MeetingStage.DEPARTMENT_SPEECHES, maxTokens: 300 }
+    flow.activeSteps.set('m1', { meeting, step })
+
+    await flow.executeDepartmentSpeeches(meeting, step)
+    assert.deepStrictEqual(caps, [100, 100, 100])
+
+    // Too little left for a speech each: every department is skipped
+    caps.length = 0
+    flow.recordSpend('m1', 'prime', usage(200))
+    const { messages } = await flow.executeDepartmentSpeeches(meeting, step)
+    assert.deepStrictEqual(caps, [])
+    assert.strictEqual(messages.filter((m) => m.metadata?.allowanceExhausted).length, 3)
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { countTokens, getTokenizer } from '../src/services/llm/tokenizer.js'
+import { MockProvider } from '../src/services/llm/providers/mock.js'
+import { getContextCompressor } from '../src/services/memory/contextCompressor.js'
+
+const SPEECH = '户部以为首期宜控制投入，先试点再追加。The quick brown fox.'
+
+describe('tokenizer', () => {
+  it('should pick the encoding by model', () => {
+    const tokenizer = getTokenizer()
+
+    assert.strictEqual(tokenizer.getEncodingName('gpt-4o-mini'), 'o200k_base')
+    assert.strictEqual(tokenizer.getEncodingName('openai/o3-mini'), 'o200k_base')
+    assert.strictEqual(tokenizer.getEncodingName('gpt-4-turbo'), 'cl100k_base')
+    assert.strictEqual(tokenizer.getEncodingName('claude-3-5-sonnet-20241022'), 'cl100k_base')
+    assert.strictEqual(tokenizer.getEncodingName('glm-4-plus'), 'o200k_base')
+    assert.strictEqual(tokenizer.getEncodingName(undefined), 'o200k_base')
+  })
+
+  it('should count Chinese text well above a quarter of its length', () => {
+    assert.strictEqual(countTokens('gpt-4o', SPEECH), 21)
+    assert.strictEqual(countTokens('gpt-4', SPEECH), 27)
+    assert.ok(countTokens(undefined, SPEECH) > Math.ceil(SPEECH.length / 4) * 2)
+    assert.strictEqual(countTokens('gpt-4o', ''), 0)
+  })
+
+  it('should count special-token markers as plain text', () => {
+    assert.ok(countTokens('gpt-4o', '<|endoftext|>') > 1)
+  })
+
+  it('should estimate unreported usage with the requested model', async () => {
+    const provider = new MockProvider({ replies: [{ content: SPEECH }] })
+
+    const response = await provider.complete({ model: 'gpt-4', messages: [{ role: 'user', content: '请发言' }] })
+
+    assert.strictEqual(response.usage.completionTokens, 27)
+    assert.strictEqual(provider.estimateTokens(SPEECH, 'gpt-4o'), 21)
+  })
+
+  it('should compress Chinese history by its token count', () => {
+    const compressor = getContextCompressor()
+    // 300 characters per speech: 75 tokens by length, far more by encoding
+    const speeches = Array.from({ length: 60 }, (_, i) => ({
+      id: `msg-${i}`,
+      timestamp: '2024-01-01',
+      role: 'FINANCE',
+      type: 'statement',
+      content: `第${i}议：${'国库岁入不足以支撑扩建粮仓，'.repeat(20)}`.slice(0, 300),
+    }))
+
+    assert.strictEqual(compressor.needsCompression(speeches), true)
+  })
+})
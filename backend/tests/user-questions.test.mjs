@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { MeetingRunControl, MeetingCancelledError } from '../src/services/meetings/runControl.js'
+import { withUserAnswers } from '../src/services/orchestrator/userQuestions.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+import { MeetingStage } from '../src/services/orchestrator/stages.js'
+
+describe('Waiting for the user', () => {
+  it('should hand the answer to the waiting run', async () => {
+    const control = new MeetingRunControl('m1')
+    assert.strictEqual(control.answerUser('太早了'), false)
+
+    const waiting = control.waitForUserAnswer(10_000)
+    assert.strictEqual(control.isAwaitingUser, true)
+    assert.strictEqual(control.answerUser('预算上限 200 万'), true)
+
+    assert.strictEqual(await waiting, '预算上限 200 万')
+    assert.strictEqual(control.isAwaitingUser, false)
+  })
+
+  it('should give up after the timeout', async () => {
+    const control = new MeetingRunControl('m1')
+    assert.strictEqual(await control.waitForUserAnswer(5), null)
+  })
+
+  it('should stop waiting when the meeting is cancelled', async () => {
+    const control = new MeetingRunControl('m1')
+    const waiting = control.waitForUserAnswer(10_000)
+    control.cancel()
+
+    await assert.rejects(waiting, MeetingCancelledError)
+  })
+})
+
+describe('withUserAnswers', () => {
+  const meeting = {
+    userQuestions: [
+      { id: 'q1', askedBy: 'BRAIN', question: '预算上限是多少？', askedAt: '', forStage: 'prime_summary', status: 'answered', answer: '200 万' },
+      { id: 'q2', askedBy: 'PRIME', question: '何时开工？', askedAt: '', forStage: 'prime_summary', status: 'timed_out' },
+    ],
+  }
+  const messages = [
+    { role: 'system', content: '你是总理' },
+    { role: 'user', content: '请总结' },
+  ]
+
+  it('should add answers to the last user turn of the step they were meant for', () => {
+    const result = withUserAnswers(messages, meeting, 'prime_summary')
+
+    assert.strictEqual(result[0], messages[0])
+    assert.match(result[1].content, /请总结[\s\S]*BRAIN 问：预算上限是多少？\n用户答：200 万/)
+    assert.doesNotMatch(result[1].content, /何时开工/)
+  })
+
+  it('should leave other steps alone', () => {
+    assert.strictEqual(withUserAnswers(messages, meeting, 'prime_decision'), messages)
+  })
+})
+
+describe('FlowControl questions to the user', () => {
+  const createMeeting = (overrides = {}) => ({
+    id: 'm1',
+    topic: '扩建仓库',
+    budget: 50000,
+    usage: 0,
+    messages: [],
+    artifacts: {},
+    ...overrides,
+  })
+  const analysis = JSON.stringify({
+    analysis: '财政与工期存在分歧',
+    consensus: [],
+    disagreements: ['工期'],
+    shouldIntervene: false,
+    userQuestion: '可接受的最长工期是多久？',
+  })
+
+  it('should ask the user and schedule the answer for the next step', async () => {
+    const { flow } = createScriptedFlow(analysis)
+    const meeting = createMeeting()
+
+    const result = await flow.executeStage(meeting, MeetingStage.BRAIN_INTERVENTION)
+
+    assert.strictEqual(result.awaitUser.question, '可接受的最长工期是多久？')
+    assert.strictEqual(result.awaitUser.forStage, result.newStage)
+    assert.strictEqual(result.messages.at(-1).type, 'question')
+    assert.strictEqual(meeting.userQuestions.length, 1)
+  })
+
+  it('should not ask when the meeting disables questions', async () => {
+    const { flow, calls } = createScriptedFlow(analysis)
+    const meeting = createMeeting({ userAnswerTimeoutMs: 0 })
+
+    const result = await flow.executeStage(meeting, MeetingStage.BRAIN_INTERVENTION)
+
+    assert.strictEqual(result.awaitUser, undefined)
+    assert.doesNotMatch(calls[0].prompt, /userQuestion/)
+    assert.strictEqual(meeting.userQuestions, undefined)
+  })
+})
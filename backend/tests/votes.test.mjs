@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+
+import { getDissent, tallyVotes } from '../src/services/orchestrator/votes.js'
+import { createScriptedFlow } from './scripted-flow.mjs'
+import { MeetingSummarizer } from '../src/services/memory/meetingSummarizer.js'
+import { MeetingStage } from '../src/services/orchestrator/stages.js'
+
+const vote = (option, stance, confidence = 1, justification = '理由') => ({ option, stance, confidence, justification })
+
+describe('tallyVotes', () => {
+  it('should weight votes by role weight and confidence', () => {
+    const tally = tallyVotes(['自建', '租赁'], [
+      { role: 'CRITIC', weight: 1, votes: [vote(1, 'reject', 0.5, '风险高'), vote(2, 'approve', 0.5)] },
+      { role: 'FINANCE', weight: 2, votes: [vote(1, 'approve', 0.75), vote(2, 'abstain')] },
+    ])
+
+    assert.deepStrictEqual(tally.results[0], { option: '自建', approve: 1.5, reject: 0.5, abstain: 0, score: 1 })
+    assert.deepStrictEqual(tally.results[1], { option: '租赁', approve: 0.5, reject: 0, abstain: 2, score: 0.5 })
+    assert.strictEqual(tally.leading, 1)
+    assert.deepStrictEqual(getDissent(tally), [{ role: 'CRITIC', justification: '风险高' }])
+  })
+
+  it('should have no leading option without ballots', () => {
+    assert.strictEqual(tallyVotes(['自建', '租赁'], []).leading, undefined)
+  })
+})
+
+describe('FlowControl vote', () => {
+  const createMeeting = () => ({
+    id: 'm1',
+    topic: '扩建仓库',
+    selectedRoleIds: ['prime', 'brain', 'critic', 'finance'],
+    voteWeights: { FINANCE: 2 },
+    budget: 50000,
+    usage: 0,
+    messages: [],
+    artifacts: { speakPlan: { speakingOrder: ['CRITIC', 'FINANCE'], rationale: '' } },
+  })
+
+  it('should tally weighted ballots and hand the tally to the decision', async () => {
+    const { flow, calls } = createScriptedFlow({
+      prime: [
+        JSON.stringify({ options: ['自建新仓', '租赁仓库'] }),
+        JSON.stringify({ decision: '租赁仓库', reasoning: '成本更低', nextSteps: ['签约'], chosenVoteOption: 2 }),
+      ],
+      critic: [JSON.stringify({ votes: [vote(1, 'reject', 0.9, '工期风险'), vote(2, 'approve', 0.6, '见效快'), vote(3, 'approve')] })],
+      finance: [JSON.stringify({ votes: [vote(1, 'reject', 0.5, '资金不足'), vote(2, 'approve', 0.8, '现金流可控')] })],
+    })
+    const meeting = createMeeting()
+
+    const result = await flow.executeStage(meeting, MeetingStage.VOTE)
+    meeting.messages.push(...result.messages)
+
+    const tally = meeting.artifacts.vote
+    assert.strictEqual(tally.leading, 2)
+    assert.deepStrictEqual(tally.ballots.map((b) => [b.role, b.weight, b.votes.length]), [['CRITIC', 1, 2], ['FINANCE', 2, 2]])
+    assert.match(result.messages.at(-1).content, /方案2得分最高/)
+
+    await flow.executeStage(meeting, MeetingStage.PRIME_DECISION)
+    assert.match(calls.at(-1).prompt, /部门表决结果[\s\S]*FINANCE（权重 2）/)
+    assert.match(calls.at(-1).prompt, /"chosenVoteOption": 采纳的表决选项编号（1-2）/)
+    assert.strictEqual(meeting.artifacts.finalDecision.chosenVoteOption, 2)
+  })
+
+  it('should record dissent in the decision memory', async () => {
+    const meeting = createMeeting()
+    meeting.artifacts.finalDecision = { decision: '自建新仓', reasoning: '长期更省', nextSteps: ['立项'] }
+    meeting.artifacts.vote = tallyVotes(['自建新仓', '租赁仓库'], [
+      { role: 'FINANCE', weight: 2, votes: [vote(1, 'approve', 0.8)] },
+      { role: 'CRITIC', weight: 1, votes: [vote(1, 'reject', 0.9, '工期风险')] },
+    ])
+
+    const memory = await new MeetingSummarizer().extractDecisionSummary(meeting)
+
+    assert.deepStrictEqual(memory.frontmatter.dissent, ['CRITIC'])
+    assert.match(memory.content, /## 异议\n- CRITIC：工期风险/)
+  })
+
+  it('should record dissent against the option PRIME adopted over the vote', async () => {
+    const meeting = createMeeting()
+    meeting.artifacts.finalDecision = { decision: '租赁仓库', reasoning: '现金流可控', nextSteps: ['签约'], chosenVoteOption: 2 }
+    meeting.artifacts.vote = tallyVotes(['自建新仓', '租赁仓库'], [
+      { role: 'FINANCE', weight: 2, votes: [vote(1, 'approve', 0.8), vote(2, 'reject', 0.7, '长期成本高')] },
+      { role: 'CRITIC', weight: 1, votes: [vote(1, 'reject', 0.9, '工期风险'), vote(2, 'approve', 0.6)] },
+    ])
+
+    const memory = await new MeetingSummarizer().extractDecisionSummary(meeting)
+
+    assert.strictEqual(meeting.artifacts.vote.leading, 1)
+    assert.deepStrictEqual(memory.frontmatter.dissent, ['FINANCE'])
+    assert.match(memory.content, /## 异议\n- FINANCE：长期成本高/)
+  })
+})
@@ -1,23 +1,29 @@
-import { IssueBrief, SpeakPlan, Summary, FinalDecision } from '@/types'
+import { IssueBrief, SpeakPlan, Summary, FinalDecision, MeetingMinutes, VoteTally } from '@/types'
 
 interface ArtifactCardProps {
-  type: 'issueBrief' | 'speakPlan' | 'summary' | 'finalDecision'
-  artifact: IssueBrief | SpeakPlan | Summary | FinalDecision
+  type: 'issueBrief' | 'speakPlan' | 'summary' | 'vote' | 'finalDecision' | 'minutes'
+  artifact: IssueBrief | SpeakPlan | Summary | VoteTally | FinalDecision | MeetingMinutes
 }
 
+const STANCE_LABELS = { approve: '赞成', reject: '反对', abstain: '弃权' }
+
 export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
   const getArtifactStyle = () => {
     switch (type) {
       case 'issueBrief':
-        return 'border-blue-700 bg-blue-900/20'
+        return 'border-blue-200 bg-blue-50'
       case 'speakPlan':
-        return 'border-purple-700 bg-purple-900/20'
+        return 'border-purple-200 bg-purple-50'
       case 'summary':
-        return 'border-slate-700 bg-slate-900/20'
+        return 'border-slate-300 bg-white'
+      case 'vote':
+        return 'border-indigo-200 bg-indigo-50'
       case 'finalDecision':
-        return 'border-green-700 bg-green-900/20'
+        return 'border-green-200 bg-green-50'
+      case 'minutes':
+        return 'border-amber-200 bg-amber-50'
       default:
-        return 'border-slate-700 bg-slate-900/20'
+        return 'border-slate-300 bg-white'
     }
   }
 
@@ -29,8 +35,12 @@ export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
         return '发言计划'
       case 'summary':
         return '会议总结'
+      case 'vote':
+        return '部门表决'
       case 'finalDecision':
         return '最终决策'
+      case 'minutes':
+        return '会议纪要'
       default:
         return '产出'
     }
@@ -42,18 +52,28 @@ export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
         const brief = artifact as IssueBrief
         return (
           <>
-            <h4 className="mb-3 text-xl font-bold text-blue-400">{brief.topic}</h4>
-            <p className="mb-4 text-slate-300">{brief.background}</p>
+            <h4 className="mb-2 font-semibold text-blue-800">{brief.topic}</h4>
+            <p className="mb-3 text-slate-700">{brief.background}</p>
             {brief.keyConsiderations.length > 0 && (
               <div>
-                <h5 className="mb-2 font-semibold text-slate-400">关键要点</h5>
-                <ul className="list-inside list-disc space-y-1 text-slate-300">
+                <h5 className="mb-1 font-semibold text-slate-500">关键要点</h5>
+                <ul className="list-inside list-disc space-y-1 text-slate-700">
                   {brief.keyConsiderations.map((item, i) => (
                     <li key={i}>{item}</li>
                   ))}
                 </ul>
               </div>
             )}
+            {brief.constraints && brief.constraints.length > 0 && (
+              <div className="mt-3">
+                <h5 className="mb-1 font-semibold text-slate-500">约束条件</h5>
+                <ul className="list-inside list-disc space-y-1 text-slate-700">
+                  {brief.constraints.map((item, i) => (
+                    <li key={i}>{item}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </>
         )
 
@@ -61,20 +81,20 @@ export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
         const plan = artifact as SpeakPlan
         return (
           <>
-            <h4 className="mb-3 text-xl font-bold text-purple-400">发言顺序</h4>
-            <div className="mb-4 flex flex-wrap gap-2">
+            <h4 className="mb-2 font-semibold text-purple-800">发言顺序</h4>
+            <div className="mb-3 flex flex-wrap gap-2">
               {plan.speakingOrder.map((role, i) => (
                 <span
                   key={i}
-                  className="rounded-full bg-purple-700 px-3 py-1 text-sm font-semibold text-white"
+                  className="rounded-full bg-purple-600 px-2 py-0.5 text-xs font-semibold text-white"
                 >
                   {i + 1}. {role}
                 </span>
               ))}
             </div>
             <div>
-              <h5 className="mb-2 font-semibold text-slate-400">安排理由</h5>
-              <p className="text-slate-300">{plan.rationale}</p>
+              <h5 className="mb-1 font-semibold text-slate-500">安排理由</h5>
+              <p className="text-slate-700">{plan.rationale}</p>
             </div>
           </>
         )
@@ -85,13 +105,13 @@ export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
         const disagreements = summary.disagreements ?? []
         return (
           <>
-            <h4 className="mb-3 text-xl font-bold text-slate-400">会议总结</h4>
-            <p className="mb-4 text-slate-300">{summary.discussion || summary.summary}</p>
+            <h4 className="mb-2 font-semibold text-slate-700">会议总结</h4>
+            <p className="mb-3 text-slate-700">{summary.discussion || summary.summary}</p>
 
             {keyPoints.length > 0 && (
-              <div className="mb-4">
-                <h5 className="mb-2 font-semibold text-slate-400">关键要点</h5>
-                <ul className="list-inside list-disc space-y-1 text-slate-300">
+              <div className="mb-3">
+                <h5 className="mb-1 font-semibold text-slate-500">关键要点</h5>
+                <ul className="list-inside list-disc space-y-1 text-slate-700">
                   {keyPoints.map((point, i) => (
                     <li key={i}>{point}</li>
                   ))}
@@ -100,16 +120,16 @@ export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
             )}
 
             {summary.consensus && (
-              <div className="mb-4">
-                <h5 className="mb-2 font-semibold text-green-400">共识</h5>
-                <p className="text-slate-300">{summary.consensus}</p>
+              <div className="mb-3">
+                <h5 className="mb-1 font-semibold text-green-700">共识</h5>
+                <p className="text-slate-700">{summary.consensus}</p>
               </div>
             )}
 
             {disagreements.length > 0 && (
               <div>
-                <h5 className="mb-2 font-semibold text-red-400">分歧</h5>
-                <ul className="list-inside list-disc space-y-1 text-slate-300">
+                <h5 className="mb-1 font-semibold text-red-700">分歧</h5>
+                <ul className="list-inside list-disc space-y-1 text-slate-700">
                   {disagreements.map((point, i) => (
                     <li key={i}>{point}</li>
                   ))}
@@ -119,22 +139,57 @@ export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
           </>
         )
 
+      case 'vote':
+        const tally = artifact as VoteTally
+        return (
+          <>
+            <ol className="mb-3 space-y-1 text-slate-700">
+              {tally.results.map((result, i) => (
+                <li key={i} className={tally.leading === i + 1 ? 'font-semibold text-indigo-800' : ''}>
+                  {i + 1}. {result.option}
+                  <span className="ml-1 text-slate-500">
+                    （得分 {result.score.toFixed(2)} · 赞成 {result.approve.toFixed(2)} · 反对 {result.reject.toFixed(2)}）
+                  </span>
+                </li>
+              ))}
+            </ol>
+
+            {tally.ballots.length > 0 && (
+              <div>
+                <h5 className="mb-1 font-semibold text-slate-500">各部门投票</h5>
+                <ul className="space-y-1 text-slate-700">
+                  {tally.ballots.map((ballot) => (
+                    <li key={ballot.role}>
+                      <span className="font-semibold text-indigo-800">{ballot.role}</span>
+                      <span className="text-slate-500">（权重 {ballot.weight}）</span>：
+                      {ballot.votes.map((vote) => `方案${vote.option}${STANCE_LABELS[vote.stance]} ${Math.round(vote.confidence * 100)}%`).join('，')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )
+
       case 'finalDecision':
         const decision = artifact as FinalDecision
         return (
           <>
-            <h4 className="mb-3 text-xl font-bold text-green-400">决策</h4>
-            <p className="mb-4 text-lg font-semibold text-white">{decision.decision}</p>
+            <h4 className="mb-2 font-semibold text-green-800">
+              决策{decision.chosenOptionId && <span className="ml-1 text-slate-500">· 采纳方案 {decision.chosenOptionId}</span>}
+              {decision.chosenVoteOption && <span className="ml-1 text-slate-500">· 采纳表决选项 {decision.chosenVoteOption}</span>}
+            </h4>
+            <p className="mb-3 font-semibold text-slate-900">{decision.decision}</p>
 
-            <div className="mb-4">
-              <h5 className="mb-2 font-semibold text-slate-400">决策理由</h5>
-              <p className="text-slate-300">{decision.reasoning}</p>
+            <div className="mb-3">
+              <h5 className="mb-1 font-semibold text-slate-500">决策理由</h5>
+              <p className="text-slate-700">{decision.reasoning}</p>
             </div>
 
             {decision.nextSteps.length > 0 && (
               <div>
-                <h5 className="mb-2 font-semibold text-slate-400">后续步骤</h5>
-                <ol className="list-inside list-decimal space-y-2 text-slate-300">
+                <h5 className="mb-1 font-semibold text-slate-500">后续步骤</h5>
+                <ol className="list-inside list-decimal space-y-1 text-slate-700">
                   {decision.nextSteps.map((step, i) => (
                     <li key={i} className="pl-2">
                       {step}
@@ -146,16 +201,76 @@ export default function ArtifactCard({ type, artifact }: ArtifactCardProps) {
           </>
         )
 
+      case 'minutes':
+        const minutes = artifact as MeetingMinutes
+        return (
+          <>
+            <div className="mb-3 flex flex-wrap gap-1">
+              {minutes.attendees.map((role) => (
+                <span key={role} className="rounded-full bg-amber-600 px-2 py-0.5 text-xs font-semibold text-white">
+                  {role}
+                </span>
+              ))}
+            </div>
+
+            <div className="mb-3">
+              <h5 className="mb-1 font-semibold text-slate-500">议程</h5>
+              <ol className="list-inside list-decimal space-y-1 text-slate-700">
+                {minutes.agenda.map((item, i) => (
+                  <li key={i}>{item}</li>
+                ))}
+              </ol>
+            </div>
+
+            {minutes.stageSummaries.length > 0 && (
+              <div className="mb-3">
+                <h5 className="mb-1 font-semibold text-slate-500">各阶段纪要</h5>
+                <ul className="space-y-1 text-slate-700">
+                  {minutes.stageSummaries.map((entry, i) => (
+                    <li key={i}>
+                      <span className="font-semibold text-amber-800">{entry.stage}</span>：{entry.summary}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="mb-3">
+              <h5 className="mb-1 font-semibold text-green-700">决定事项</h5>
+              <ul className="list-inside list-disc space-y-1 text-slate-700">
+                {minutes.decisions.map((item, i) => (
+                  <li key={i}>{item}</li>
+                ))}
+              </ul>
+            </div>
+
+            {minutes.actionItems.length > 0 && (
+              <div>
+                <h5 className="mb-1 font-semibold text-slate-500">待办事项</h5>
+                <ol className="list-inside list-decimal space-y-1 text-slate-700">
+                  {minutes.actionItems.map((action, i) => (
+                    <li key={i} className="pl-2">
+                      {action.item}
+                      <span className="ml-1 text-slate-500">
+                        （{action.owner}{action.due ? ` · ${action.due}` : ''}）
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </>
+        )
+
       default:
         return null
     }
   }
 
   return (
-    <div className={`rounded-lg border p-6 ${getArtifactStyle()}`}>
-      <div className="mb-4 flex items-center">
-        <span className="mr-2 text-2xl">📄</span>
-        <h3 className="text-xl font-bold">{getArtifactTitle()}</h3>
+    <div className={`rounded border p-3 text-xs ${getArtifactStyle()}`}>
+      <div className="mb-2 flex items-center">
+        <h3 className="text-sm font-semibold text-slate-800">{getArtifactTitle()}</h3>
       </div>
       {renderArtifact()}
     </div>
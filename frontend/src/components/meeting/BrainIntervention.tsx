@@ -8,13 +8,13 @@ export default function BrainInterventionCard({ intervention }: BrainInterventio
   const getInterventionStyle = () => {
     switch (intervention.type) {
       case 'question':
-        return 'border-yellow-700 bg-yellow-900/20'
+        return 'border-yellow-200 bg-yellow-50'
       case 'perspective':
-        return 'border-blue-700 bg-blue-900/20'
+        return 'border-blue-200 bg-blue-50'
       case 'elaboration_request':
-        return 'border-purple-700 bg-purple-900/20'
+        return 'border-purple-200 bg-purple-50'
       default:
-        return 'border-slate-700 bg-slate-900/20'
+        return 'border-slate-300 bg-white'
     }
   }
 
@@ -45,12 +45,12 @@ export default function BrainInterventionCard({ intervention }: BrainInterventio
   }
 
   return (
-    <div className={`rounded-lg border p-4 ${getInterventionStyle()}`}>
+    <div className={`max-w-[80%] rounded border px-3 py-2 shadow-sm ${getInterventionStyle()}`}>
       <div className="mb-2 flex items-center justify-between">
         <div className="flex items-center space-x-2">
-          <span className="text-xl">{getInterventionIcon()}</span>
-          <span className="font-semibold text-yellow-400">BRAIN</span>
-          <span className="rounded-full bg-slate-700 px-2 py-0.5 text-xs text-slate-300">
+          <span className="text-base">{getInterventionIcon()}</span>
+          <span className="text-xs font-semibold text-yellow-700">BRAIN</span>
+          <span className="rounded-full bg-slate-200 px-2 py-0.5 text-xs text-slate-600">
             {getInterventionTitle()}
           </span>
         </div>
@@ -60,18 +60,16 @@ export default function BrainInterventionCard({ intervention }: BrainInterventio
       </div>
 
       {intervention.targetRole && (
-        <p className="mb-2 text-sm text-slate-400">
+        <p className="mb-2 text-xs text-slate-500">
           → @{intervention.targetRole}
         </p>
       )}
 
-      <p className="text-slate-200">{intervention.content}</p>
+      <p className="whitespace-pre-wrap text-sm text-slate-800">{intervention.content}</p>
 
-      {intervention.resolved && (
-        <div className="mt-2 flex items-center text-sm text-green-400">
-          <span>✓ 已解决</span>
-        </div>
-      )}
+      <div className={`mt-2 flex items-center text-xs ${intervention.resolved ? 'text-green-700' : 'text-slate-500'}`}>
+        <span>{intervention.resolved ? '✓ 已解决' : '待回应'}</span>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,59 @@
+import { DecisionMatrix } from '@/types'
+
+interface DecisionMatrixTableProps {
+  matrix: DecisionMatrix
+  // Option PRIME adopted in the final decision
+  chosenOptionId?: string
+}
+
+/**
+ * Options × ministers score table, shown alongside the artifact cards
+ */
+export default function DecisionMatrixTable({ matrix, chosenOptionId }: DecisionMatrixTableProps) {
+  const getScore = (optionId: string, role: string) =>
+    matrix.scores.find((entry) => entry.optionId === optionId && entry.role === role)
+
+  return (
+    <div className="rounded border border-teal-200 bg-teal-50 p-3 text-xs">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-800">方案评分</h3>
+        {matrix.recommendedOptionId && <span className="text-slate-500">加权最高：方案 {matrix.recommendedOptionId}</span>}
+      </div>
+      <table className="w-full text-slate-700">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 font-normal">方案</th>
+            {matrix.dimensions.map((dimension) => (
+              <th key={dimension.role} className="py-1 text-right font-normal" title={`权重 ${dimension.weight}`}>
+                {dimension.dimension}
+              </th>
+            ))}
+            <th className="py-1 text-right font-normal">加权</th>
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.options.map((option) => (
+            <tr
+              key={option.id}
+              className={`border-t border-teal-100 ${option.id === chosenOptionId ? 'font-semibold text-teal-800' : ''}`}
+            >
+              <td className="py-1" title={option.description}>
+                {option.id}. {option.title}
+                {option.id === chosenOptionId && <span className="ml-1 rounded bg-teal-600 px-1 text-white">采纳</span>}
+              </td>
+              {matrix.dimensions.map((dimension) => {
+                const score = getScore(option.id, dimension.role)
+                return (
+                  <td key={dimension.role} className="py-1 text-right" title={score?.rationale}>
+                    {score ? score.score : '-'}
+                  </td>
+                )
+              })}
+              <td className="py-1 text-right">{matrix.totals[option.id]?.toFixed(2) ?? '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
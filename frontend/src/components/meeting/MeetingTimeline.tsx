@@ -1,91 +1,73 @@
-import { Message } from '@/types'
+import { Fragment, ReactNode } from 'react'
+import { DebateRound, Message } from '@/types'
 
 interface MeetingTimelineProps {
   messages: Message[]
+  rounds?: DebateRound[]
+  renderMessage: (message: Message) => ReactNode
 }
 
-export default function MeetingTimeline({ messages }: MeetingTimelineProps) {
-  const getRoleColor = (role: string) => {
-    const colors: Record<string, string> = {
-      PRIME: 'text-purple-400 border-purple-700 bg-purple-900/20',
-      BRAIN: 'text-yellow-400 border-yellow-700 bg-yellow-900/20',
-      CRITIC: 'text-red-400 border-red-700 bg-red-900/20',
-      FINANCE: 'text-green-400 border-green-700 bg-green-900/20',
-      WORKS: 'text-blue-400 border-blue-700 bg-blue-900/20',
-      CLERK: 'text-slate-400 border-slate-700 bg-slate-900/20',
-      SYSTEM: 'text-gray-400 border-gray-700 bg-gray-900/20',
-    }
-    return colors[role] || 'text-cyan-400 border-cyan-700 bg-cyan-900/20'
-  }
+type TimelineItem =
+  | { kind: 'message'; message: Message }
+  | { kind: 'round'; stage: Message; messages: Message[] }
 
-  const getMessageIcon = (type: Message['type']) => {
-    switch (type) {
-      case 'question':
-        return '❓'
-      case 'perspective':
-        return '💡'
-      case 'elaboration_request':
-        return '🔍'
-      case 'system':
-        return '⚙️'
-      default:
-        return '💬'
-    }
-  }
+/**
+ * Split messages into plain messages and debate rounds
+ * A round opens with its stage message and runs until the next stage starts.
+ */
+function groupByRound(messages: Message[]): TimelineItem[] {
+  const items: TimelineItem[] = []
+  let current: Extract<TimelineItem, { kind: 'round' }> | null = null
 
-  if (messages.length === 0) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <div className="text-center">
-          <p className="text-slate-400">暂无消息</p>
-          <p className="mt-2 text-sm text-slate-500">会议开始后，讨论内容将显示在这里</p>
-        </div>
-      </div>
-    )
+  for (const message of messages) {
+    const isStageMessage = message.type === 'system' && typeof message.metadata?.stage === 'string'
+    if (isStageMessage) {
+      current = null
+    }
+    if (isStageMessage && typeof message.metadata?.round === 'number') {
+      current = { kind: 'round', stage: message, messages: [] }
+      items.push(current)
+    } else if (current) {
+      current.messages.push(message)
+    } else {
+      items.push({ kind: 'message', message })
+    }
   }
+  return items
+}
 
+export default function MeetingTimeline({ messages, rounds = [], renderMessage }: MeetingTimelineProps) {
   return (
-    <div className="space-y-4">
-      {messages.map((message, index) => {
-        const targetRole =
-          typeof message.metadata?.targetRole === 'string'
-            ? message.metadata.targetRole
-            : null
+    <>
+      {groupByRound(messages).map((item) => {
+        if (item.kind === 'message') {
+          return <Fragment key={item.message.id}>{renderMessage(item.message)}</Fragment>
+        }
+
+        const { stage } = item
+        const round = rounds.find((r) => r.stepId === stage.metadata?.stage && r.round === stage.metadata?.round)
+        const label = typeof stage.metadata?.stageLabel === 'string' ? stage.metadata.stageLabel : '辩论'
 
         return (
-          <div
-            key={message.id}
-            className={`rounded-lg border p-4 transition-all hover:shadow-lg ${getRoleColor(message.role)} ${
-              index === messages.length - 1 ? 'ring-2 ring-cyan-500' : ''
-            }`}
-          >
-          <div className="mb-2 flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <span className="text-lg">{getMessageIcon(message.type)}</span>
-              <span className="font-semibold">{message.role}</span>
-              {message.type !== 'statement' && (
-                <span className="rounded-full bg-slate-700 px-2 py-0.5 text-xs">
-                  {message.type}
+          <section key={stage.id} className="rounded border border-slate-300 bg-slate-50 p-3">
+            <div className="mb-2 flex items-center justify-between text-xs text-slate-600">
+              <span className="font-semibold">{label} · 第 {String(stage.metadata?.round)} 轮</span>
+              {round ? (
+                <span className={round.converged ? 'text-emerald-700' : 'text-amber-700'}>
+                  收敛度 {Math.round(round.convergence * 100)}% · 共识 {round.consensus.length} · 分歧 {round.disagreements.length}
                 </span>
+              ) : (
+                <span>进行中</span>
               )}
             </div>
-            <span className="text-xs text-slate-500">
-              {new Date(message.timestamp).toLocaleTimeString('zh-CN')}
-            </span>
-          </div>
-
-          {targetRole && (
-            <p className="mb-2 text-sm text-slate-400">
-              → @{targetRole}
-            </p>
-          )}
-
-          <div className="prose prose-invert max-w-none">
-            <p className="whitespace-pre-wrap text-slate-200">{message.content}</p>
-          </div>
-          </div>
+            <div className="flex flex-col gap-3">
+              {item.messages.map((message) => (
+                <Fragment key={message.id}>{renderMessage(message)}</Fragment>
+              ))}
+            </div>
+          </section>
         )
       })}
-    </div>
+    </>
   )
 }
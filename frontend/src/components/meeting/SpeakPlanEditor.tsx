@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { SpeakPlan } from '@/types'
+
+interface SpeakPlanEditorProps {
+  meetingId: string
+  // Upper-case department ids taking part in the meeting
+  roles: string[]
+  roleNames: Record<string, string>
+  plan?: SpeakPlan
+  onSaved: (plan: SpeakPlan) => void
+}
+
+/**
+ * Lets the user fix the speaking order before the meeting runs
+ */
+export default function SpeakPlanEditor({ meetingId, roles, roleNames, plan, onSaved }: SpeakPlanEditorProps) {
+  const [order, setOrder] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const planned = (plan?.speakingOrder || []).filter((role) => roles.includes(role))
+    setOrder([...planned, ...roles.filter((role) => !planned.includes(role))])
+  }, [plan, roles])
+
+  const move = (index: number, offset: number) => {
+    const next = [...order]
+    ;[next[index], next[index + offset]] = [next[index + offset], next[index]]
+    setOrder(next)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/speak-plan`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ speakingOrder: order }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save speak plan')
+      }
+      onSaved(data)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '保存失败')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 rounded border border-purple-200 bg-purple-50 p-2 text-xs">
+      <div className="mb-1 flex items-center justify-between text-slate-500">
+        <span>发言顺序</span>
+        <span>{plan?.setBy === 'USER' ? '已指定' : '未指定时由首辅安排'}</span>
+      </div>
+      <ol className="space-y-1">
+        {order.map((role, i) => (
+          <li key={role} className="flex items-center gap-1 text-slate-700">
+            <span className="w-4 text-slate-400">{i + 1}.</span>
+            <span className="flex-1">{roleNames[role] || role}</span>
+            <button type="button" onClick={() => move(i, -1)} disabled={i === 0} className="text-slate-500 disabled:opacity-30" title="提前">
+              <ArrowUp className="h-3 w-3" />
+            </button>
+            <button type="button" onClick={() => move(i, 1)} disabled={i === order.length - 1} className="text-slate-500 disabled:opacity-30" title="推后">
+              <ArrowDown className="h-3 w-3" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      <button type="button" onClick={handleSave} disabled={isSaving || order.length === 0} className="apple-secondary-btn mt-2 w-full justify-center">
+        {isSaving ? '保存中...' : '保存发言顺序'}
+      </button>
+    </div>
+  )
+}
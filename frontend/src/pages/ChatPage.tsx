@@ -1,8 +1,14 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { useParams } from 'react-router-dom'
-import { Play, Send } from 'lucide-react'
+import { Pause, Play, RotateCcw, Send, Square } from 'lucide-react'
 import AppShell from '../components/AppShell'
+import ArtifactCard from '../components/meeting/ArtifactCard'
+import DecisionMatrixTable from '../components/meeting/DecisionMatrixTable'
+import BrainInterventionCard from '../components/meeting/BrainIntervention'
+import MeetingTimeline from '../components/meeting/MeetingTimeline'
+import SpeakPlanEditor from '../components/meeting/SpeakPlanEditor'
 import { useMeetingStore } from '../stores/useMeetingStore'
+import type { Message, ModelConfig } from '../types'
 
 const ROLE_STYLES: Record<string, { dot: string; name: string }> = {
   PRIME: { dot: '#d97706', name: '首辅' },
@@ -14,19 +20,32 @@ const ROLE_STYLES: Record<string, { dot: string; name: string }> = {
   USER: { dot: '#0f766e', name: '您' },
 }
 
+const ROLE_NAMES = Object.fromEntries(Object.entries(ROLE_STYLES).map(([role, style]) => [role, style.name]))
+// Roles that chair or record the meeting rather than speak as departments
+const NON_DEPARTMENT_ROLES = ['prime', 'brain', 'clerk']
+const DEFAULT_DEPARTMENTS = ['CRITIC', 'FINANCE', 'WORKS']
+const RETRY_PROVIDERS: ModelConfig['provider'][] = ['openai', 'anthropic', 'ollama', 'glm', 'deepseek']
+
 export default function ChatPage() {
   const { id } = useParams<{ id: string }>()
   const {
     currentMeeting,
     messages,
+    streamingMessages,
     isConnected,
     setConnected,
     setCurrentMeeting,
     setMessages,
+    appendMessageDelta,
+    finishMessage,
   } = useMeetingStore()
 
   const [inputValue, setInputValue] = useState('')
   const [isStarting, setIsStarting] = useState(false)
+  const [isPausing, setIsPausing] = useState(false)
+  const [retryProvider, setRetryProvider] = useState('')
+  const [endpointNames, setEndpointNames] = useState<string[]>([])
+  const [queueStatus, setQueueStatus] = useState<{ waiting: boolean; queueDepth: number; waitMs: number; role?: string } | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const wsRef = useRef<WebSocket | null>(null)
 
@@ -100,6 +119,12 @@ export default function ChatPage() {
         if (data.type === 'MEETING_UPDATED') {
           setCurrentMeeting(data.meeting)
           setMessages(data.meeting.messages || [])
+        } else if (data.type === 'MESSAGE_DELTA' && data.meetingId === id) {
+          appendMessageDelta(data.messageId, data.role, data.delta)
+        } else if (data.type === 'MESSAGE_DONE' && data.meetingId === id) {
+          finishMessage(data.messageId, data.discarded ? undefined : data.message)
+        } else if (data.type === 'QUEUE_STATUS' && data.meetingId === id) {
+          setQueueStatus(data)
         }
       }
 
@@ -125,11 +150,82 @@ export default function ChatPage() {
       }
       wsRef.current = null
     }
-  }, [id, wsCandidates, setConnected, setCurrentMeeting, setMessages])
+  }, [id, wsCandidates, setConnected, setCurrentMeeting, setMessages, appendMessageDelta, finishMessage])
+
+  const displayedMessages = useMemo(
+    () => [...messages, ...Object.values(streamingMessages)],
+    [messages, streamingMessages]
+  )
+
+  useEffect(() => {
+    if (currentMeeting?.status !== 'running') {
+      setIsPausing(false)
+    }
+  }, [currentMeeting?.status])
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [displayedMessages])
+
+  // Registered OpenAI-compatible endpoints can also take over a failed role
+  useEffect(() => {
+    if (currentMeeting?.status !== 'failed') return
+
+    fetch('/api/settings/endpoints')
+      .then((response) => (response.ok ? response.json() : []))
+      .then((endpoints: { name: string }[]) => setEndpointNames(endpoints.map((endpoint) => endpoint.name)))
+      .catch((error) => console.error('Failed to fetch endpoints:', error))
+  }, [currentMeeting?.status])
+
+  const renderMessage = (message: Message) => {
+    if (message.type === 'system') {
+      return (
+        <div className="text-center text-xs text-slate-500">
+          <span className="rounded border border-slate-300 bg-slate-100 px-2 py-1">{message.content}</span>
+        </div>
+      )
+    }
+
+    // Live BRAIN interventions render as cards that track whether they were answered
+    const intervention = message.type !== 'statement'
+      ? currentMeeting?.artifacts.brainInterventions?.find((item) => item.id === message.id)
+      : undefined
+    if (intervention) {
+      return (
+        <div className="flex justify-start">
+          <BrainInterventionCard intervention={intervention} />
+        </div>
+      )
+    }
+
+    const isUser = message.role === 'USER'
+    const meta = ROLE_STYLES[message.role] || { dot: '#64748b', name: message.role }
+    const servedBy = message.metadata?.servedBy as { provider?: string; model?: string } | undefined
+    const isStreaming = message.id in streamingMessages
+
+    return (
+      <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+        <div className={`max-w-[80%] rounded border px-3 py-2 shadow-sm ${isUser ? 'border-teal-500 bg-teal-600 text-white' : 'border-slate-300 bg-white text-slate-800'}`}>
+          <div className={`mb-1 flex items-center gap-2 text-xs ${isUser ? 'text-teal-100' : 'text-slate-500'}`}>
+            <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: meta.dot }} />
+            <span>{meta.name}</span>
+            <span>{new Date(message.timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}</span>
+            {servedBy?.model && <span title={servedBy.provider}>· {servedBy.model}</span>}
+          </div>
+          <div className="whitespace-pre-wrap text-sm">
+            {message.content}
+            {isStreaming && <span className="ml-0.5 inline-block h-3 w-1.5 animate-pulse bg-slate-400 align-middle" />}
+          </div>
+          {typeof message.metadata?.originalContent === 'string' && (
+            <details className="mt-1 text-xs text-slate-500">
+              <summary className="cursor-pointer">已精简，查看原文</summary>
+              <div className="mt-1 whitespace-pre-wrap">{message.metadata.originalContent}</div>
+            </details>
+          )}
+        </div>
+      </div>
+    )
+  }
 
   const handleSend = () => {
     if (!inputValue.trim() || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN || !id) return
@@ -166,13 +262,55 @@ export default function ChatPage() {
     }
   }
 
+  const handleControl = async (action: 'pause' | 'resume' | 'cancel' | 'retry') => {
+    if (!id) return
+    if (action === 'cancel' && !confirm('确定取消本次议政？')) return
+
+    try {
+      const response = await fetch(`/api/meetings/${id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // A retry may switch the failing role to another provider
+        body: JSON.stringify(action === 'retry' && retryProvider ? { provider: retryProvider } : {}),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} meeting`)
+      }
+      if (action === 'pause') {
+        setIsPausing(true)
+      }
+      if (action === 'retry') {
+        setRetryProvider('')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '操作失败'
+      alert(message)
+    }
+  }
+
   const getStatusText = (status?: string) => {
-    if (status === 'running') return '进行中'
+    if (status === 'running') return isPausing ? '暂停中（当前阶段结束后）' : '进行中'
+    if (status === 'awaiting_user') return '等待你的回答'
     if (status === 'completed') return '已完成'
     if (status === 'failed') return '失败'
+    if (status === 'interrupted') return '已中断'
+    if (status === 'paused') return '已暂停'
+    if (status === 'cancelled') return '已取消'
     return '等待开始'
   }
 
+  const departments = useMemo(() => {
+    const selected = (currentMeeting?.selectedRoleIds || [])
+      .filter((role) => !NON_DEPARTMENT_ROLES.includes(role.toLowerCase()))
+      .map((role) => role.toUpperCase())
+    return selected.length > 0 ? selected : DEFAULT_DEPARTMENTS
+  }, [currentMeeting?.selectedRoleIds])
+
+  const pendingQuestion = currentMeeting?.status === 'awaiting_user'
+    ? currentMeeting.userQuestions?.find((question) => question.status === 'pending')
+    : undefined
+
   return (
     <AppShell title="议政大厅" backTo="/history">
       <div className="grid h-full min-h-[70vh] gap-3 lg:grid-cols-[280px_1fr]">
@@ -183,16 +321,147 @@ export default function ChatPage() {
               <div className="mb-2 font-semibold">{currentMeeting.topic}</div>
               <div className="text-xs text-slate-600">状态: {getStatusText(currentMeeting.status)}</div>
               <div className="mt-1 text-xs text-slate-600">WebSocket: {isConnected ? '已连接' : '未连接'}</div>
+              {currentMeeting.flowTemplate && <div className="mt-1 text-xs text-slate-600">流程: {currentMeeting.flowTemplate}</div>}
+              {currentMeeting.blindMode && <div className="mt-1 text-xs text-slate-600">模式: 盲议（首轮并行）</div>}
+              <div className="mt-1 text-xs text-slate-600">
+                用量: {currentMeeting.usage.toLocaleString()} / {currentMeeting.budget.toLocaleString()} tokens
+              </div>
+              {(currentMeeting.usageCostUsd || currentMeeting.budgetMaxCostUsd) && (
+                <div className="mt-1 text-xs text-slate-600">
+                  费用: ${(currentMeeting.usageCostUsd || 0).toFixed(4)}
+                  {currentMeeting.budgetMaxCostUsd ? ` / $${currentMeeting.budgetMaxCostUsd}` : ''}
+                </div>
+              )}
+              {currentMeeting.status === 'running' && queueStatus && (
+                <div className="mt-1 text-xs text-slate-600">
+                  {queueStatus.waiting
+                    ? `排队中: ${queueStatus.role || '大臣'} · 队列深度 ${queueStatus.queueDepth}`
+                    : `上次排队等待 ${(queueStatus.waitMs / 1000).toFixed(1)} 秒`}
+                </div>
+              )}
+              {currentMeeting.status === 'interrupted' && currentMeeting.error && (
+                <div className="mt-1 text-xs text-amber-700">{currentMeeting.error}</div>
+              )}
+              {currentMeeting.status === 'failed' && (
+                <div className="mt-1 text-xs text-red-700">
+                  {currentMeeting.failure
+                    ? `阶段 ${currentMeeting.failure.stage} 失败${currentMeeting.failure.role ? `（${currentMeeting.failure.role} · ${currentMeeting.failure.provider}）` : ''}：${currentMeeting.failure.error}`
+                    : currentMeeting.error}
+                </div>
+              )}
+              {currentMeeting.status === 'failed' && currentMeeting.currentStage && (
+                <>
+                  {currentMeeting.failure?.role && (
+                    <select
+                      value={retryProvider}
+                      onChange={(e) => setRetryProvider(e.target.value)}
+                      className="apple-input mt-3 w-full text-xs"
+                    >
+                      <option value="">{currentMeeting.failure.role} 沿用原提供商</option>
+                      {[...RETRY_PROVIDERS, ...endpointNames].map((provider) => (
+                        <option key={provider} value={provider}>{currentMeeting.failure?.role} 改用 {provider}</option>
+                      ))}
+                    </select>
+                  )}
+                  <button type="button" onClick={() => handleControl('retry')} className="apple-primary-btn mt-2 w-full justify-center">
+                    <RotateCcw className="h-4 w-4" />
+                    从失败阶段重试
+                  </button>
+                </>
+              )}
+              {currentMeeting.status === 'paused' && currentMeeting.currentStage && (
+                <div className="mt-1 text-xs text-slate-600">将从阶段 {currentMeeting.currentStage} 继续</div>
+              )}
               {currentMeeting.status === 'pending' && (
                 <button type="button" onClick={handleStartMeeting} disabled={isStarting} className="apple-primary-btn mt-3 w-full justify-center">
                   <Play className="h-4 w-4" />
                   {isStarting ? '启动中...' : '开始议政'}
                 </button>
               )}
+              {['interrupted', 'cancelled'].includes(currentMeeting.status) && currentMeeting.currentStage && (
+                <button type="button" onClick={() => handleControl('retry')} className="apple-primary-btn mt-3 w-full justify-center">
+                  <Play className="h-4 w-4" />
+                  从阶段 {currentMeeting.currentStage} 继续
+                </button>
+              )}
+              {['pending', 'interrupted', 'cancelled'].includes(currentMeeting.status) && id && (
+                <SpeakPlanEditor
+                  meetingId={id}
+                  roles={departments}
+                  roleNames={ROLE_NAMES}
+                  plan={currentMeeting.artifacts.speakPlan}
+                  onSaved={(speakPlan) => setCurrentMeeting({
+                    ...currentMeeting,
+                    artifacts: { ...currentMeeting.artifacts, speakPlan },
+                  })}
+                />
+              )}
+              {currentMeeting.status === 'paused' && (
+                <button type="button" onClick={() => handleControl('resume')} className="apple-primary-btn mt-3 w-full justify-center">
+                  <Play className="h-4 w-4" />
+                  继续议政
+                </button>
+              )}
+              {['running', 'awaiting_user', 'paused'].includes(currentMeeting.status) && (
+                <div className="mt-2 flex gap-2">
+                  {currentMeeting.status === 'running' && (
+                    <button type="button" onClick={() => handleControl('pause')} disabled={isPausing} className="apple-secondary-btn flex-1 justify-center">
+                      <Pause className="h-4 w-4" />
+                      暂停
+                    </button>
+                  )}
+                  <button type="button" onClick={() => handleControl('cancel')} className="apple-secondary-btn flex-1 justify-center">
+                    <Square className="h-4 w-4" />
+                    取消
+                  </button>
+                </div>
+              )}
             </>
           ) : (
             <div className="text-xs text-slate-500">加载中...</div>
           )}
+
+          {currentMeeting?.roleUsage && Object.keys(currentMeeting.roleUsage).length > 0 && (
+            <div className="mt-4">
+              <div className="mb-1 text-xs uppercase text-slate-500">各部门用量</div>
+              <table className="w-full text-xs text-slate-600">
+                <tbody>
+                  {Object.entries(currentMeeting.roleUsage).map(([role, usage]) => {
+                    const limit = role === 'PRIME'
+                      ? currentMeeting.budgetPrimeMaxOutputTokens
+                      : role === 'CLERK' ? currentMeeting.budgetClerkMaxOutputTokens : currentMeeting.budgetPerRoleMaxOutputTokens
+                    return (
+                      <tr key={role}>
+                        <td className="py-0.5">{ROLE_STYLES[role]?.name || role}</td>
+                        <td className="py-0.5 text-right">
+                          {usage.completionTokens.toLocaleString()}{limit ? ` / ${limit.toLocaleString()}` : ''} 输出
+                        </td>
+                        <td className="py-0.5 text-right">${usage.costUsd.toFixed(4)}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {currentMeeting && (currentMeeting.artifacts.issueBrief || currentMeeting.artifacts.speakPlan || currentMeeting.artifacts.summary || currentMeeting.artifacts.decisionMatrix || currentMeeting.artifacts.vote || currentMeeting.artifacts.finalDecision || currentMeeting.artifacts.minutes) && (
+            <div className="mt-4 flex flex-col gap-2">
+              <div className="text-xs uppercase text-slate-500">会议产出</div>
+              {currentMeeting.artifacts.issueBrief && <ArtifactCard type="issueBrief" artifact={currentMeeting.artifacts.issueBrief} />}
+              {currentMeeting.artifacts.speakPlan && <ArtifactCard type="speakPlan" artifact={currentMeeting.artifacts.speakPlan} />}
+              {currentMeeting.artifacts.summary && <ArtifactCard type="summary" artifact={currentMeeting.artifacts.summary} />}
+              {currentMeeting.artifacts.decisionMatrix && (
+                <DecisionMatrixTable
+                  matrix={currentMeeting.artifacts.decisionMatrix}
+                  chosenOptionId={currentMeeting.artifacts.finalDecision?.chosenOptionId}
+                />
+              )}
+              {currentMeeting.artifacts.vote && <ArtifactCard type="vote" artifact={currentMeeting.artifacts.vote} />}
+              {currentMeeting.artifacts.finalDecision && <ArtifactCard type="finalDecision" artifact={currentMeeting.artifacts.finalDecision} />}
+              {currentMeeting.artifacts.minutes && <ArtifactCard type="minutes" artifact={currentMeeting.artifacts.minutes} />}
+            </div>
+          )}
         </aside>
 
         <section className="apple-panel flex min-h-0 flex-col">
@@ -202,48 +471,35 @@ export default function ChatPage() {
 
           <div className="min-h-0 flex-1 overflow-y-auto p-4">
             <div className="mx-auto flex max-w-4xl flex-col gap-3">
-              {messages.length === 0 && (
+              {displayedMessages.length === 0 && (
                 <div className="apple-panel p-6 text-center text-sm text-slate-500">等待议政开始...</div>
               )}
 
-              {messages.map((message) => {
-                if (message.type === 'system') {
-                  return (
-                    <div key={message.id} className="text-center text-xs text-slate-500">
-                      <span className="rounded border border-slate-300 bg-slate-100 px-2 py-1">{message.content}</span>
-                    </div>
-                  )
-                }
-
-                const isUser = message.role === 'USER'
-                const meta = ROLE_STYLES[message.role] || { dot: '#64748b', name: message.role }
-
-                return (
-                  <div key={message.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-[80%] rounded border px-3 py-2 shadow-sm ${isUser ? 'border-teal-500 bg-teal-600 text-white' : 'border-slate-300 bg-white text-slate-800'}`}>
-                      <div className={`mb-1 flex items-center gap-2 text-xs ${isUser ? 'text-teal-100' : 'text-slate-500'}`}>
-                        <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: meta.dot }} />
-                        <span>{meta.name}</span>
-                        <span>{new Date(message.timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}</span>
-                      </div>
-                      <div className="whitespace-pre-wrap text-sm">{message.content}</div>
-                    </div>
-                  </div>
-                )
-              })}
+              <MeetingTimeline
+                messages={displayedMessages}
+                rounds={currentMeeting?.artifacts.debateRounds}
+                renderMessage={renderMessage}
+              />
 
               <div ref={messagesEndRef} />
             </div>
           </div>
 
           <div className="border-t border-slate-300 bg-white p-3">
+            {pendingQuestion && (
+              <div className="mx-auto mb-2 max-w-4xl rounded border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                <span className="font-semibold">{ROLE_STYLES[pendingQuestion.askedBy]?.name || pendingQuestion.askedBy} 向你提问：</span>
+                {pendingQuestion.question}
+                <div className="mt-1 text-xs text-amber-700">会议已暂停等待你的回答，超时后将继续</div>
+              </div>
+            )}
             <div className="mx-auto flex max-w-4xl gap-2">
               <input
                 type="text"
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                placeholder="输入你的补充意见..."
+                placeholder={pendingQuestion ? '输入你的回答...' : '输入你的补充意见...'}
                 className="apple-input flex-1"
               />
               <button
@@ -34,6 +34,9 @@ export default function HistoryPage() {
     if (status === 'pending') return '等待开始'
     if (status === 'running') return '进行中'
     if (status === 'completed') return '已完成'
+    if (status === 'interrupted') return '已中断'
+    if (status === 'paused') return '已暂停'
+    if (status === 'cancelled') return '已取消'
     return '失败'
   }
 
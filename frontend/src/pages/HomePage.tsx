@@ -22,16 +22,49 @@ const ROLE_TITLES: Record<string, string> = {
   CLERK: '吏部',
 }
 
+const SPEECH_LENGTH_OPTIONS = [
+  { value: 50, label: '发言: 简短' },
+  { value: 120, label: '发言: 适中' },
+  { value: 300, label: '发言: 详细' },
+]
+
+// How long the meeting waits when BRAIN or PRIME asks the user something
+const USER_ANSWER_TIMEOUT_OPTIONS = [
+  { value: 0, label: '提问: 不向我提问' },
+  { value: 60_000, label: '提问: 等待 1 分钟' },
+  { value: 120_000, label: '提问: 等待 2 分钟' },
+  { value: 300_000, label: '提问: 等待 5 分钟' },
+]
+
+type FlowTemplateOption = {
+  id: string
+  name: string
+  description?: string
+}
+
 export default function HomePage() {
   const navigate = useNavigate()
   const { roles, selectedRoles, isLoading, error, fetchRoles, toggleRoleSelection } = useRolesStore()
   const [showGuide, setShowGuide] = useState(true)
   const [topic, setTopic] = useState('')
+  const [blindMode, setBlindMode] = useState(false)
+  const [flowTemplates, setFlowTemplates] = useState<FlowTemplateOption[]>([])
+  const [flowTemplate, setFlowTemplate] = useState('standard')
+  const [displayChars, setDisplayChars] = useState(50)
+  const [maxCostUsd, setMaxCostUsd] = useState('')
+  const [userAnswerTimeoutMs, setUserAnswerTimeoutMs] = useState(120_000)
 
   useEffect(() => {
     fetchRoles()
   }, [fetchRoles])
 
+  useEffect(() => {
+    fetch('/api/flows')
+      .then((response) => (response.ok ? response.json() : []))
+      .then((templates: FlowTemplateOption[]) => setFlowTemplates(templates))
+      .catch((error) => console.error('Failed to fetch flow templates:', error))
+  }, [])
+
   const handleStartMeeting = async () => {
     if (selectedRoles.length < 2) {
       alert('请至少选择 2 位大臣')
@@ -51,6 +84,11 @@ export default function HomePage() {
           description: '',
           budget: 50000,
           selectedRoleIds: selectedRoles,
+          blindMode,
+          flowTemplate,
+          speechPolicy: { displayChars },
+          budgetMaxCostUsd: Number(maxCostUsd) > 0 ? Number(maxCostUsd) : undefined,
+          userAnswerTimeoutMs,
         }),
       })
 
@@ -153,7 +191,53 @@ export default function HomePage() {
           )}
         </section>
 
-        <div className="flex justify-end">
+        <div className="flex items-center justify-end gap-3">
+          {flowTemplates.length > 0 && (
+            <select
+              value={flowTemplate}
+              onChange={(e) => setFlowTemplate(e.target.value)}
+              className="apple-input text-xs"
+              title={flowTemplates.find((t) => t.id === flowTemplate)?.description}
+            >
+              {flowTemplates.map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={displayChars}
+            onChange={(e) => setDisplayChars(Number(e.target.value))}
+            className="apple-input text-xs"
+            title="每条发言的显示字数上限，超出部分由大臣自行精简"
+          >
+            {SPEECH_LENGTH_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={userAnswerTimeoutMs}
+            onChange={(e) => setUserAnswerTimeoutMs(Number(e.target.value))}
+            className="apple-input text-xs"
+            title="主脑或首辅向你提问时，会议暂停等待回答的时长，超时后继续"
+          >
+            {USER_ANSWER_TIMEOUT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={maxCostUsd}
+            onChange={(e) => setMaxCostUsd(e.target.value)}
+            placeholder="费用上限 (USD)"
+            className="apple-input w-32 text-xs"
+            title="超出后跳过可降级阶段并直接决策，留空表示不限"
+          />
+          <label className="flex items-center gap-2 text-xs text-slate-600" title="首轮各部门并行发言，互不参考">
+            <input type="checkbox" checked={blindMode} onChange={(e) => setBlindMode(e.target.checked)} />
+            盲议模式
+          </label>
           <button
             type="button"
             onClick={handleStartMeeting}
@@ -4,6 +4,7 @@ type KeyStatus = {
   configured: boolean
   masked?: string
   value?: string
+  source?: 'store' | 'env'
 }
 
 type ModelInfo = {
@@ -106,6 +107,7 @@ export default function Settings() {
       <div className="font-semibold">{name}</div>
       <div className="text-xs text-slate-600">
         {item?.configured ? `已配置 ${item.masked || item.value || ''}` : '未配置'}
+        {item?.source === 'env' && <span className="ml-1 text-slate-400">(环境变量)</span>}
       </div>
     </div>
   )
@@ -4,12 +4,16 @@ import { Meeting, Message } from '../types'
 interface MeetingState {
   currentMeeting: Meeting | null
   messages: Message[]
+  // Messages still being generated, keyed by their final message id
+  streamingMessages: Record<string, Message>
   isConnected: boolean
   isRunning: boolean
 
   setCurrentMeeting: (meeting: Meeting | null) => void
   setMessages: (messages: Message[]) => void
   addMessage: (message: Message) => void
+  appendMessageDelta: (messageId: string, role: string, delta: string) => void
+  finishMessage: (messageId: string, message?: Message) => void
   setConnected: (connected: boolean) => void
   setRunning: (running: boolean) => void
 }
@@ -17,12 +21,51 @@ interface MeetingState {
 export const useMeetingStore = create<MeetingState>((set) => ({
   currentMeeting: null,
   messages: [],
+  streamingMessages: {},
   isConnected: false,
   isRunning: false,
 
-  setCurrentMeeting: (meeting) => set({ currentMeeting: meeting }),
-  setMessages: (messages) => set({ messages }),
+  setCurrentMeeting: (meeting) =>
+    set((state) => ({
+      currentMeeting: meeting,
+      streamingMessages: meeting?.id === state.currentMeeting?.id ? state.streamingMessages : {},
+    })),
+  setMessages: (messages) =>
+    set((state) => {
+      // Drafts that made it into the snapshot are no longer streaming
+      const streamingMessages = { ...state.streamingMessages }
+      for (const message of messages) {
+        delete streamingMessages[message.id]
+      }
+      return { messages, streamingMessages }
+    }),
   addMessage: (message) => set((state) => ({ messages: [...state.messages, message] })),
+  appendMessageDelta: (messageId, role, delta) =>
+    set((state) => {
+      if (state.messages.some((m) => m.id === messageId)) return state
+      const draft = state.streamingMessages[messageId] || {
+        id: messageId,
+        timestamp: new Date().toISOString(),
+        role,
+        type: 'statement' as const,
+        content: '',
+      }
+      return {
+        streamingMessages: {
+          ...state.streamingMessages,
+          [messageId]: { ...draft, content: draft.content + delta },
+        },
+      }
+    }),
+  finishMessage: (messageId, message) =>
+    set((state) => {
+      const { [messageId]: _finished, ...streamingMessages } = state.streamingMessages
+      const exists = state.messages.some((m) => m.id === messageId)
+      return {
+        streamingMessages,
+        messages: message && !exists ? [...state.messages, message] : state.messages,
+      }
+    }),
   setConnected: (connected) => set({ isConnected: connected }),
   setRunning: (running) => set({ isRunning: running }),
 }))
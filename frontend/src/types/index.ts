@@ -4,18 +4,87 @@ export interface Meeting {
   topic: string
   description?: string
   selectedRoleIds?: string[]
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  // Round-1 speeches run in parallel without seeing each other
+  blindMode?: boolean
+  // Flow template id (backend/data/flows), defaults to "standard"
+  flowTemplate?: string
+  // Speech length limits; omitted fields use the server defaults
+  speechPolicy?: SpeechPolicy
+  status: MeetingStatus
   error?: string
+  // Where the last failed run stopped; retrying resumes there
+  failure?: MeetingFailure
+  providerOverrides?: Record<string, { provider: ModelConfig['provider']; model?: string }>
+  cassette?: MeetingCassette
   budget: number
   usage: number
+  // Currency budget in USD; stages degrade on whichever budget runs out first
+  budgetMaxCostUsd?: number
+  usageCostUsd?: number
+  usagePromptTokens?: number
+  usageCompletionTokens?: number
+  // Output-token allowances over the whole meeting; unset means uncapped
+  budgetPerRoleMaxOutputTokens?: number
+  budgetPrimeMaxOutputTokens?: number
+  budgetClerkMaxOutputTokens?: number
+  // Spend per upper-case role
+  roleUsage?: Record<string, RoleUsage>
+  // How long the flow waits for an answer to a question; 0 never asks
+  userAnswerTimeoutMs?: number
+  userQuestions?: UserQuestion[]
   createdAt: string
   startedAt?: string
   completedAt?: string
+  interruptedAt?: string
+  pausedAt?: string
+  cancelledAt?: string
+  // Next MeetingStage to execute; a resumed run continues from here
+  currentStage?: string
   messages: Message[]
   artifacts: Artifacts
   degradation?: DegradationLevel
 }
 
+export interface SpeechLimits {
+  // Max characters of a chat message
+  displayChars: number
+  // Max characters of an artifact's main text
+  artifactChars: number
+}
+
+export interface SpeechPolicy extends Partial<SpeechLimits> {
+  // Per-role overrides keyed by upper-case role (e.g. PRIME)
+  roles?: Record<string, Partial<SpeechLimits>>
+}
+
+export interface RoleUsage {
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+  calls: number
+}
+
+export type MeetingStatus =
+  | 'pending'
+  | 'running'
+  | 'awaiting_user'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'interrupted'
+  | 'cancelled'
+
+export interface UserQuestion {
+  id: string
+  askedBy: string
+  question: string
+  askedAt: string
+  forStage?: string
+  status: 'pending' | 'answered' | 'timed_out' | 'skipped'
+  answer?: string
+  answeredAt?: string
+}
+
 export type DegradationLevel = 'none' | 'partial' | 'severe'
 
 export interface Message {
@@ -34,6 +103,10 @@ export interface Artifacts {
   finalDecision?: FinalDecision
   brainInterventions?: BrainIntervention[]
   brainAnalysis?: BrainAnalysis
+  minutes?: MeetingMinutes
+  debateRounds?: DebateRound[]
+  decisionMatrix?: DecisionMatrix
+  vote?: VoteTally
 }
 
 export interface IssueBrief {
@@ -46,6 +119,8 @@ export interface IssueBrief {
 export interface SpeakPlan {
   speakingOrder: string[]
   rationale: string
+  // PRIME, or USER when set before the run
+  setBy?: string
 }
 
 export interface Summary {
@@ -61,6 +136,53 @@ export interface FinalDecision {
   decision: string
   reasoning: string
   nextSteps: string[]
+  chosenOptionId?: string
+  chosenVoteOption?: number
+}
+
+export interface MeetingMinutes {
+  attendees: string[]
+  agenda: string[]
+  stageSummaries: { stage: string; summary: string }[]
+  decisions: string[]
+  actionItems: { item: string; owner: string; due?: string }[]
+}
+
+export interface DebateRound {
+  stepId: string
+  round: number
+  convergence: number
+  consensus: string[]
+  disagreements: string[]
+  converged: boolean
+}
+
+export interface DecisionOption {
+  id: string
+  title: string
+  description: string
+}
+
+export interface DecisionMatrix {
+  options: DecisionOption[]
+  dimensions: { role: string; dimension: string; weight: number }[]
+  scores: { optionId: string; role: string; score: number; rationale: string }[]
+  totals: Record<string, number>
+  recommendedOptionId?: string
+}
+
+export interface Vote {
+  option: number
+  stance: 'approve' | 'reject' | 'abstain'
+  confidence: number
+  justification: string
+}
+
+export interface VoteTally {
+  options: string[]
+  ballots: { role: string; weight: number; votes: Vote[] }[]
+  results: { option: string; approve: number; reject: number; abstain: number; score: number }[]
+  leading?: number
 }
 
 export interface BrainIntervention {
@@ -93,11 +215,35 @@ export interface Role {
   evolutionHistory: EvolutionEntry[]
 }
 
+export interface MeetingFailure {
+  stage: string
+  role?: string
+  provider?: string
+  model?: string
+  error: string
+  failedAt: string
+}
+
+export interface MeetingCassette {
+  mode: 'record' | 'replay'
+  source?: string
+  mismatches?: { seq: number; role?: string; stage?: string; diff: string }[]
+}
+
+export type BuiltinProvider = 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek' | 'mock'
+
+/**
+ * A built-in provider or the name of a registered OpenAI-compatible endpoint
+ */
+export type ProviderId = BuiltinProvider | (string & {})
+
 export interface ModelConfig {
-  provider: 'openai' | 'anthropic' | 'ollama' | 'glm' | 'deepseek'
+  provider: ProviderId
   model: string
   temperature: number
   maxTokens: number
+  // Providers tried in order when this one fails
+  fallback?: { provider: ModelConfig['provider']; model?: string }[]
 }
 
 export interface EvolutionEntry {